@@ -0,0 +1,48 @@
+// Mock node-fetch so the client module loads without the ESM build
+jest.mock("node-fetch", () => jest.fn());
+
+import { HackerNewsClient } from "./client";
+import { registerClientMetrics } from "./client-metrics";
+import { MetricsRegistry } from "../utils/metrics";
+import { createMockCacheStats, createMockSchedulerStats } from "../test-helpers";
+
+describe("registerClientMetrics", () => {
+  const mockClient = {
+    getCacheStats: jest.fn(() => ({
+      ...createMockCacheStats(),
+      details: {
+        items: { ...createMockCacheStats().details.items, size: 10, hits: 6, staleHits: 2, misses: 2 },
+        users: { ...createMockCacheStats().details.users, hits: 0, staleHits: 0, misses: 0 },
+        lists: createMockCacheStats().details.lists,
+      },
+    })),
+    getSchedulerStats: jest.fn(() =>
+      createMockSchedulerStats({ active: 3, queued: 5, queuedByPriority: { interactive: 0, normal: 1, bulk: 4 } })
+    ),
+  };
+
+  it("should publish cache hit ratios and scheduler queue depth at scrape time", () => {
+    const registry = new MetricsRegistry();
+    registerClientMetrics(mockClient as unknown as HackerNewsClient, registry);
+
+    const output = registry.render();
+
+    expect(output).toContain('hackernews_cache_hit_ratio{cache="items"} 0.8');
+    expect(output).toContain('hackernews_cache_hit_ratio{cache="users"} 0');
+    expect(output).toContain('hackernews_cache_lookups{cache="items",result="stale"} 2');
+    expect(output).toContain('hackernews_cache_entries{cache="items"} 10');
+    expect(output).toContain('hackernews_scheduler_queue_depth{priority="bulk"} 4');
+    expect(output).toContain("hackernews_scheduler_active_requests 3");
+  });
+
+  it("should stop publishing once unregistered", () => {
+    const registry = new MetricsRegistry();
+    const unregister = registerClientMetrics(mockClient as unknown as HackerNewsClient, registry);
+    unregister();
+    mockClient.getCacheStats.mockClear();
+
+    registry.render();
+
+    expect(mockClient.getCacheStats).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,38 @@
+import { HackerNewsClient } from "./client.js";
+import { hitRatio } from "../utils/cache.js";
+import { metrics, MetricsRegistry } from "../utils/metrics.js";
+
+// Publishes the client's cache and scheduler stats as gauges, read at scrape
+// time. Returns a function that stops publishing them.
+export function registerClientMetrics(client: HackerNewsClient, registry: MetricsRegistry = metrics): () => void {
+  const entries = registry.gauge("hackernews_cache_entries", "Entries held by each cache");
+  const bytes = registry.gauge("hackernews_cache_bytes", "Serialized size of each cache's entries");
+  const lookups = registry.gauge(
+    "hackernews_cache_lookups",
+    "Cache lookups since the counters were last reset, by cache and result (hit, stale or miss)"
+  );
+  const ratio = registry.gauge(
+    "hackernews_cache_hit_ratio",
+    "Share of lookups answered from each cache, stale hits included, since the counters were last reset"
+  );
+  const queueDepth = registry.gauge("hackernews_scheduler_queue_depth", "Upstream requests waiting for a scheduler slot, by priority");
+  const active = registry.gauge("hackernews_scheduler_active_requests", "Upstream requests currently running");
+
+  return registry.onCollect(() => {
+    const { details } = client.getCacheStats();
+    for (const [cache, stats] of Object.entries(details)) {
+      entries.set({ cache }, stats.size);
+      bytes.set({ cache }, stats.bytes);
+      lookups.set({ cache, result: "hit" }, stats.hits);
+      lookups.set({ cache, result: "stale" }, stats.staleHits);
+      lookups.set({ cache, result: "miss" }, stats.misses);
+      ratio.set({ cache }, hitRatio(stats));
+    }
+
+    const scheduler = client.getSchedulerStats();
+    for (const [priority, queued] of Object.entries(scheduler.queuedByPriority)) {
+      queueDepth.set({ priority }, queued);
+    }
+    active.set({}, scheduler.active);
+  });
+}
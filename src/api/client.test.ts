@@ -3,7 +3,9 @@ jest.mock("node-fetch", () => jest.fn());
 
 import fetch, { Response } from "node-fetch";
 import { HackerNewsClient, HackerNewsClientError } from "./client";
+import { flattenCommentTree } from "./comment-tree";
 import { HackerNewsItem, HackerNewsUser } from "../types/hackernews";
+import { metrics } from "../utils/metrics";
 
 const mockFetch = fetch as jest.MockedFunction<typeof fetch>;
 
@@ -16,7 +18,7 @@ describe("HackerNewsClient", () => {
       timeout: 5000,
       cacheOptions: { ttlSeconds: 60, maxSize: 100 }
     });
-    mockFetch.mockClear();
+    mockFetch.mockReset();
   });
 
   describe("constructor", () => {
@@ -68,6 +70,22 @@ describe("HackerNewsClient", () => {
       );
     });
 
+    it("should record upstream requests by endpoint rather than id", async () => {
+      const requests = metrics.counter("hackernews_api_requests_total", "");
+      const before = requests.get({ endpoint: "item", status: "200" });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockItem,
+        status: 200,
+        statusText: "OK"
+      } as Response);
+
+      await client.getItem(123);
+
+      expect(requests.get({ endpoint: "item", status: "200" })).toBe(before + 1);
+      expect(metrics.histogram("hackernews_api_request_duration_seconds", "").getCount({ endpoint: "item" })).toBeGreaterThan(0);
+    });
+
     it("should return null for non-existent item", async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -269,6 +287,27 @@ describe("HackerNewsClient", () => {
       expect(mockFetch).not.toHaveBeenCalled();
     });
 
+    it("should report progress for each item", async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => mockItems[0],
+          status: 200,
+          statusText: "OK"
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => mockItems[1],
+          status: 200,
+          statusText: "OK"
+        } as Response);
+      const onProgress = jest.fn();
+
+      await client.getMultipleItems([123, 456], { onProgress });
+
+      expect(onProgress.mock.calls).toEqual([[1, 2], [2, 2]]);
+    });
+
     it("should handle partial failures", async () => {
       mockFetch
         .mockResolvedValueOnce({
@@ -284,6 +323,21 @@ describe("HackerNewsClient", () => {
       expect(result[0]).toEqual(mockItems[0]);
       expect(result[1]).toBeNull();
     });
+
+    it("should reject when the caller cancels", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockItems[0],
+        status: 200,
+        statusText: "OK"
+      } as Response);
+      const controller = new AbortController();
+
+      const batch = client.getMultipleItems([123, 456], { signal: controller.signal });
+      controller.abort(new Error("Request cancelled"));
+
+      await expect(batch).rejects.toThrow("Request cancelled");
+    });
   });
 
   describe("searchStories", () => {
@@ -394,6 +448,27 @@ describe("HackerNewsClient", () => {
       const result = await client.getStoryWithMetadata(123);
       expect(result).toBeNull();
     });
+
+    it("should hydrate a page of a list in order, keeping jobs", async () => {
+      mockFetch.mockReset();
+      const items: Record<string, unknown> = {
+        "1": { id: 1, type: "job", title: "Hiring", url: "https://jobs.example.com/1", time: 1640995200 },
+        "2": { id: 2, type: "story", title: "Gone", deleted: true },
+        "3": { ...mockStory, id: 3 },
+      };
+      mockFetch.mockImplementation(async url => ({
+        ok: true,
+        json: async () => items[/item\/(\d+)\.json/.exec(String(url))![1]],
+        status: 200,
+        statusText: "OK"
+      } as Response));
+
+      const result = await client.getStoriesWithMetadata([3, 2, 1]);
+
+      expect(result.map(story => story?.id ?? null)).toEqual([3, null, 1]);
+      expect(result[2]).toMatchObject({ type: "job", domain: "jobs.example.com", commentCount: 0 });
+      mockFetch.mockReset();
+    });
   });
 
   describe("getUserWithStats", () => {
@@ -487,7 +562,20 @@ describe("HackerNewsClient", () => {
         } as Response);
 
       const result = await client.getCommentTree(123);
-      expect(result).toEqual(mockComments);
+      expect(result).toEqual({
+        itemId: 123,
+        comments: mockComments.map(comment => ({
+          ...comment,
+          depth: 1,
+          path: [comment.id],
+          childCount: 0,
+          subtreeSize: 1,
+          children: []
+        })),
+        total: 2,
+        truncated: false,
+        skipped: []
+      });
     });
 
     it("should return empty array for story without comments", async () => {
@@ -499,7 +587,445 @@ describe("HackerNewsClient", () => {
       } as Response);
 
       const result = await client.getCommentTree(123);
-      expect(result).toEqual([]);
+      expect(result).toEqual({ itemId: 123, comments: [], total: 0, truncated: false, skipped: [] });
+    });
+
+    describe("tree shape and limits", () => {
+      // 1 ─┬─ 2 ─── 4
+      //    └─ 3
+      // 5
+      const thread: Record<string, object> = {
+        100: { id: 100, type: "story", kids: [1, 5], descendants: 5 },
+        1: { id: 1, type: "comment", parent: 100, kids: [2, 3] },
+        2: { id: 2, type: "comment", parent: 1, kids: [4] },
+        3: { id: 3, type: "comment", parent: 1 },
+        4: { id: 4, type: "comment", parent: 2 },
+        5: { id: 5, type: "comment", parent: 100 }
+      };
+
+      beforeEach(() => {
+        mockFetch.mockReset();
+        mockFetch.mockImplementation((async (url: string) => ({
+          ok: true,
+          json: async () => thread[/\/(\d+)\.json$/.exec(url)![1]],
+          status: 200,
+          statusText: "OK"
+        })) as unknown as typeof fetch);
+      });
+
+      afterEach(() => {
+        mockFetch.mockReset();
+      });
+
+      it("should nest replies in kids order with depth, path and sizes", async () => {
+        const tree = await client.getCommentTree(100);
+
+        expect(tree.comments.map(node => node.id)).toEqual([1, 5]);
+        expect(tree.comments[0]).toMatchObject({ depth: 1, path: [1], childCount: 2, subtreeSize: 4 });
+        expect(tree.comments[0].children.map(node => node.id)).toEqual([2, 3]);
+        expect(tree.comments[0].children[0].children[0]).toMatchObject({ id: 4, depth: 3, path: [1, 2, 4], subtreeSize: 1 });
+        expect(tree).toMatchObject({ total: 5, truncated: false });
+      });
+
+      it("should stop at maxDepth", async () => {
+        const tree = await client.getCommentTree(100, { maxDepth: 2 });
+
+        expect(tree.comments[0].children[0]).toMatchObject({ id: 2, childCount: 0, kids: [4] });
+        expect(tree).toMatchObject({ total: 4, truncated: true });
+      });
+
+      it("should keep the first maxComments a level at a time and skip the rest", async () => {
+        const tree = await client.getCommentTree(100, { maxComments: 3 });
+
+        expect(flattenCommentTree(tree.comments).map(node => node.id)).toEqual([1, 2, 5]);
+        expect(tree).toMatchObject({ total: 3, truncated: true, skipped: [3, 4] });
+      });
+
+      it("should keep every top-level comment before any reply", async () => {
+        const tree = await client.getCommentTree(100, { maxComments: 2 });
+
+        // Reading order would have kept 1 and its first reply 2
+        expect(flattenCommentTree(tree.comments).map(node => node.id)).toEqual([1, 5]);
+        expect(tree).toMatchObject({ total: 2, truncated: true, skipped: [2, 3] });
+      });
+
+      it("should continue from the skipped ids", async () => {
+        const first = await client.getCommentTree(100, { maxComments: 3 });
+        const rest = await client.getCommentTree(100, { cursor: first.skipped });
+
+        expect(rest.comments.map(node => node.id)).toEqual([3, 4]);
+        expect(rest.comments[1]).toMatchObject({ depth: 3, path: [1, 2, 4] });
+        expect(rest).toMatchObject({ total: 2, truncated: false, skipped: [] });
+      });
+
+      it("should reject a cursor from another item's thread", async () => {
+        await expect(client.getCommentTree(200, { cursor: [4] }))
+          .rejects.toThrow("Comment 4 is not in the thread of item 200");
+      });
+
+      it("should return a partial tree when the time budget runs out", async () => {
+        mockFetch.mockImplementation((async (url: string, init?: { signal?: AbortSignal }) => {
+          const id = /\/(\d+)\.json$/.exec(url)![1];
+          if (id === "2") {
+            // Hangs until the budget aborts it
+            await new Promise((_resolve, reject) => init?.signal?.addEventListener("abort", () => reject(new Error("aborted"))));
+          }
+          return { ok: true, json: async () => thread[id], status: 200, statusText: "OK" };
+        }) as unknown as typeof fetch);
+
+        const tree = await client.getCommentTree(100, { timeBudgetMs: 50 });
+
+        expect(flattenCommentTree(tree.comments).map(node => node.id)).toEqual([1, 3, 5]);
+        expect(tree).toMatchObject({ total: 3, truncated: true, skipped: [2] });
+      });
+    });
+
+    it("should report progress against descendants", async () => {
+      const items: Record<string, object> = {
+        123: { id: 123, type: "story", kids: [456, 789], descendants: 2 },
+        456: { id: 456, type: "comment", kids: [999] },
+        789: { id: 789, type: "comment" },
+        999: { id: 999, type: "comment", deleted: true }
+      };
+      mockFetch.mockReset();
+      const respond = (async (url: string) => ({
+        ok: true,
+        json: async () => items[/\/(\d+)\.json$/.exec(url)![1]],
+        status: 200,
+        statusText: "OK"
+      })) as unknown as typeof fetch;
+      Object.keys(items).forEach(() => mockFetch.mockImplementationOnce(respond));
+      const onProgress = jest.fn();
+
+      await client.getCommentTree(123, { onProgress });
+
+      // The deleted comment isn't in descendants, so the total grows to match
+      expect(onProgress.mock.calls).toEqual([[1, 2], [2, 2], [3, 3]]);
+    });
+  });
+
+  describe("retries", () => {
+    let retryClient: HackerNewsClient;
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+      retryClient = new HackerNewsClient({
+        baseUrl: "https://test.com",
+        timeout: 1000,
+        retry: { attempts: 3, baseDelayMs: 1, maxDelayMs: 5, jitter: false }
+      });
+    });
+
+    it("should retry retryable status codes and succeed", async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 503,
+          statusText: "Service Unavailable",
+          headers: { get: () => null }
+        } as unknown as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ id: 123, type: "story" }),
+          status: 200,
+          statusText: "OK"
+        } as Response);
+
+      const result = await retryClient.getItem(123);
+      expect(result).toEqual({ id: 123, type: "story" });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should retry network errors", async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error("ECONNRESET"))
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => [1, 2, 3],
+          status: 200,
+          statusText: "OK"
+        } as Response);
+
+      await expect(retryClient.getTopStories()).resolves.toEqual([1, 2, 3]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry non-retryable status codes", async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 404,
+        statusText: "Not Found"
+      } as Response);
+
+      await expect(retryClient.getItem(123)).rejects.toThrow("HTTP 404");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should give up after the configured attempts", async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 500,
+        statusText: "Internal Server Error",
+        headers: { get: () => null }
+      } as unknown as Response);
+
+      await expect(retryClient.getUpdates()).rejects.toThrow(HackerNewsClientError);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should honor Retry-After within the max delay", async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          statusText: "Too Many Requests",
+          headers: { get: (name: string) => (name === "retry-after" ? "0" : null) }
+        } as unknown as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => 42,
+          status: 200,
+          statusText: "OK"
+        } as Response);
+
+      await expect(retryClient.getMaxItemId()).resolves.toBe(42);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("stale-while-revalidate", () => {
+    let staleClient: HackerNewsClient;
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+      staleClient = new HackerNewsClient({
+        baseUrl: "https://hacker-news.firebaseio.com/v0",
+        timeout: 5000,
+        cacheOptions: { ttlSeconds: 0.05, maxSize: 100, staleSeconds: 60, ttlPolicy: { listTtlSeconds: 0.05 } }
+      });
+    });
+
+    const okResponse = (body: unknown) => ({
+      ok: true,
+      json: async () => body,
+      status: 200,
+      statusText: "OK"
+    } as Response);
+
+    it("should return a stale list at once and refresh it in the background", async () => {
+      mockFetch
+        .mockResolvedValueOnce(okResponse([1, 2, 3]))
+        .mockResolvedValueOnce(okResponse([3, 2, 1]));
+
+      await staleClient.getTopStories();
+      await new Promise(resolve => setTimeout(resolve, 80));
+
+      const onStale = jest.fn();
+      expect(await staleClient.getTopStories({ onStale })).toEqual([1, 2, 3]);
+      expect(onStale).toHaveBeenCalledWith("list:topstories");
+
+      // Let the background refresh land
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(await staleClient.getTopStories()).toEqual([3, 2, 1]);
+    });
+
+    it("should keep serving the stale item when the refresh fails", async () => {
+      mockFetch
+        .mockResolvedValueOnce(okResponse({ id: 1, type: "story", score: 10 }))
+        .mockRejectedValueOnce(new Error("Network error"));
+
+      await staleClient.getItem(1);
+      await new Promise(resolve => setTimeout(resolve, 80));
+
+      const onStale = jest.fn();
+      await expect(staleClient.getItem(1, { onStale })).resolves.toMatchObject({ score: 10 });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      await expect(staleClient.getItem(1, { onStale })).resolves.toMatchObject({ score: 10 });
+      expect(onStale).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("invalidate", () => {
+    const okResponse = (body: unknown) => ({
+      ok: true,
+      json: async () => body,
+      status: 200,
+      statusText: "OK"
+    } as Response);
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it("should evict cached items and profiles named in updates", async () => {
+      mockFetch
+        .mockResolvedValueOnce(okResponse({ id: 1, type: "story", score: 10 }))
+        .mockResolvedValueOnce(okResponse({ id: "pg", karma: 100, created: 1 }))
+        .mockResolvedValueOnce(okResponse({ id: 1, type: "story", score: 20 }));
+
+      await client.getItem(1);
+      await client.getUser("pg");
+
+      const result = await client.invalidate({ items: [1, 2], profiles: ["pg", "dang"] });
+
+      expect(result).toEqual({ items: 1, profiles: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(await client.getItem(1)).toMatchObject({ score: 20 });
+    });
+
+    it("should re-fetch only previously cached entries in refresh mode", async () => {
+      mockFetch
+        .mockResolvedValueOnce(okResponse({ id: 1, type: "story", score: 10 }))
+        .mockResolvedValueOnce(okResponse({ id: 1, type: "story", score: 20 }));
+
+      await client.getItem(1);
+      const result = await client.invalidate({ items: [1, 2], profiles: [] }, "refresh");
+
+      expect(result).toEqual({ items: 1, profiles: 0 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        "https://hacker-news.firebaseio.com/v0/item/1.json",
+        expect.any(Object)
+      );
+      expect(await client.getItem(1)).toMatchObject({ score: 20 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not fail when a refresh fails", async () => {
+      mockFetch
+        .mockResolvedValueOnce(okResponse({ id: 1, type: "story" }))
+        .mockRejectedValueOnce(new Error("Network error"));
+
+      await client.getItem(1);
+
+      await expect(client.invalidate({ items: [1], profiles: [] }, "refresh")).resolves.toEqual({ items: 1, profiles: 0 });
+    });
+  });
+
+  describe("request coalescing", () => {
+    beforeEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it("should share one fetch between concurrent callers", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 123, type: "story" }),
+        status: 200,
+        statusText: "OK"
+      } as Response);
+
+      const [first, second] = await Promise.all([client.getItem(123), client.getItem(123)]);
+
+      expect(first).toEqual(second);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(client.getCoalescingStats()).toMatchObject({ coalesced: 1, coalescedByKind: { item: 1 } });
+    });
+
+    it("should coalesce uncached endpoints like maxitem", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => 9000,
+        status: 200,
+        statusText: "OK"
+      } as Response);
+
+      const results = await Promise.all([client.getMaxItemId(), client.getMaxItemId(), client.getMaxItemId()]);
+
+      expect(results).toEqual([9000, 9000, 9000]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(client.getCoalescingStats().inFlight).toBe(0);
+    });
+
+    it("should propagate failures to every waiting caller", async () => {
+      mockFetch.mockRejectedValueOnce(new Error("Network error"));
+
+      const results = await Promise.allSettled([client.getUser("pg"), client.getUser("pg")]);
+
+      expect(results.map(result => result.status)).toEqual(["rejected", "rejected"]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("cancellation", () => {
+    // Like node-fetch: a pending request rejects with an AbortError once its signal fires
+    const hangUntilAborted = (_url: unknown, init?: { signal?: AbortSignal | null }) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () => {
+          reject(Object.assign(new Error("The operation was aborted"), { name: "AbortError" }));
+        });
+      });
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+    });
+
+    afterEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it("should stop a comment crawl and release its scheduler slots", async () => {
+      const serialClient = new HackerNewsClient({
+        baseUrl: "https://hacker-news.firebaseio.com/v0",
+        timeout: 5000,
+        scheduler: { maxConcurrency: 1 }
+      });
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ id: 1, type: "story", kids: [2, 3, 4] }),
+          status: 200,
+          statusText: "OK"
+        } as Response)
+        .mockImplementation(hangUntilAborted as typeof fetch);
+      const controller = new AbortController();
+
+      const crawl = serialClient.getCommentTree(1, { signal: controller.signal });
+      await new Promise(resolve => setImmediate(resolve));
+      expect(serialClient.getSchedulerStats()).toMatchObject({ active: 1, queued: 2 });
+
+      controller.abort(new Error("Request cancelled"));
+
+      await expect(crawl).rejects.toThrow("Request cancelled");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][1]?.signal?.aborted).toBe(true);
+      expect(serialClient.getSchedulerStats()).toMatchObject({ active: 0, queued: 0, cancelled: 2 });
+    });
+
+    it("should keep a shared fetch running for callers that did not cancel", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 123, type: "story" }),
+        status: 200,
+        statusText: "OK"
+      } as Response);
+      const controller = new AbortController();
+
+      const cancelled = client.getItem(123, { signal: controller.signal });
+      const kept = client.getItem(123);
+      controller.abort();
+
+      await expect(cancelled).rejects.toThrow("Operation aborted");
+      await expect(kept).resolves.toEqual({ id: 123, type: "story" });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not retry a cancelled request", async () => {
+      const retryingClient = new HackerNewsClient({
+        baseUrl: "https://hacker-news.firebaseio.com/v0",
+        timeout: 5000,
+        retry: { attempts: 3, baseDelayMs: 1, jitter: false }
+      });
+      mockFetch.mockImplementation(hangUntilAborted as typeof fetch);
+      const controller = new AbortController();
+
+      const request = retryingClient.getMaxItemId({ signal: controller.signal });
+      await new Promise(resolve => setImmediate(resolve));
+      controller.abort(new Error("Request cancelled"));
+
+      await expect(request).rejects.toThrow("Request cancelled");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -511,6 +1037,79 @@ describe("HackerNewsClient", () => {
       expect(stats).toHaveProperty("lists");
     });
 
+    it("should report the TTL policy", () => {
+      const ageClient = new HackerNewsClient({
+        baseUrl: "https://test.com",
+        timeout: 1000,
+        cacheOptions: { ttlSeconds: 300, maxSize: 100, ttlPolicy: { mode: "age", listTtlSeconds: 30 } }
+      });
+
+      expect(ageClient.getTtlPolicy()).toMatchObject({ mode: "age", listTtlSeconds: 30, baseTtlSeconds: 300 });
+      expect(client.getTtlPolicy()).toMatchObject({ mode: "fixed", listTtlSeconds: 60 });
+    });
+
+    it("should not cache at all with a base TTL of 0 in age mode", async () => {
+      const uncachedClient = new HackerNewsClient({
+        baseUrl: "https://test.com",
+        timeout: 1000,
+        cacheOptions: { ttlSeconds: 0, maxSize: 100, ttlPolicy: { mode: "age", listTtlSeconds: 30 } }
+      });
+      mockFetch.mockReset();
+      mockFetch.mockImplementation((async () => ({
+        ok: true,
+        json: async () => ({ id: 1, type: "story", time: Date.now() / 1000 - 86400 }),
+        status: 200,
+        statusText: "OK"
+      })) as unknown as typeof fetch);
+
+      await uncachedClient.getItem(1);
+      await uncachedClient.getItem(1);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(uncachedClient.getTtlPolicy()).toMatchObject({ listTtlSeconds: 0, baseTtlSeconds: 0 });
+      mockFetch.mockReset();
+    });
+
+    it("should list usernames from cached profiles and item authors", async () => {
+      mockFetch.mockReset();
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ id: "pg", karma: 1 }),
+          status: 200,
+          statusText: "OK"
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ id: 1, type: "story", by: "dang" }),
+          status: 200,
+          statusText: "OK"
+        } as Response);
+
+      await client.getUser("pg");
+      await client.getItem(1);
+
+      expect(client.getCachedUsernames()).toEqual(["pg", "dang"]);
+    });
+
+    it("should reset cache counters", async () => {
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 123, type: "story", title: "Test" }),
+        status: 200,
+        statusText: "OK"
+      } as Response);
+
+      await client.getItem(123);
+      await client.getItem(123);
+      expect(client.getCacheStats().details.items).toMatchObject({ hits: 1, misses: 1 });
+
+      client.resetCacheStats();
+
+      expect(client.getCacheStats().details.items).toMatchObject({ size: 1, hits: 0, misses: 0 });
+    });
+
     it("should clear cache", async () => {
       // Add something to cache first
       mockFetch.mockResolvedValueOnce({
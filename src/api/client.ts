@@ -7,10 +7,69 @@ import {
   SearchParams,
   StoryWithMetadata,
   UserWithStats,
-  ItemType
+  ItemType,
+  CommentNode,
+  CommentTree
 } from "../types/hackernews.js";
-import { SimpleCache } from "../utils/cache.js";
+import { join } from "node:path";
+import { SimpleCache, CacheStats } from "../utils/cache.js";
+import { CacheStore } from "../utils/cache-store.js";
+import { FileCacheStore } from "../utils/file-cache-store.js";
+import { TtlPolicy, DEFAULT_TTL_POLICY, computeItemTtl } from "../utils/ttl-policy.js";
+import { abortError, throwIfAborted } from "../utils/abort.js";
 import { logger } from "../utils/logger.js";
+import { metrics } from "../utils/metrics.js";
+import {
+  RetryOptions,
+  DEFAULT_RETRY_OPTIONS,
+  computeBackoffDelay,
+  isRetryableError,
+  isRetryableStatus,
+  parseRetryAfter,
+  sleep
+} from "../utils/retry.js";
+import { RequestCoalescer, CoalescerStats } from "../utils/coalescer.js";
+import { RequestScheduler, RequestPriority, SchedulerOptions, SchedulerStats } from "../utils/scheduler.js";
+
+const log = logger.child({ module: "api" });
+
+const upstreamRequests = metrics.counter(
+  "hackernews_api_requests_total",
+  "HTTP requests sent to the HackerNews API, by endpoint and status (HTTP code, timeout, cancelled or error)"
+);
+const upstreamDuration = metrics.histogram(
+  "hackernews_api_request_duration_seconds",
+  "Latency of HackerNews API requests, by endpoint"
+);
+
+// "item", "user", "topstories"... from an API URL, so ids don't become labels
+function endpointOf(url: string): string {
+  const match = /\/([a-z]+)(?:\/[^/]+)?\.json$/.exec(url);
+  return match ? match[1] : "other";
+}
+
+// Wraps a failed fetch for the caller. Cancellations pass through as the
+// abort error and aren't logged: the upstream didn't fail.
+function requestFailed(message: string, error: unknown, signal?: AbortSignal): Error {
+  if (signal?.aborted) {
+    return abortError(signal);
+  }
+
+  log.error(`${message}:`, error);
+  return new HackerNewsClientError(`${message}: ${error instanceof Error ? error.message : String(error)}`);
+}
+
+// Wraps item fetches so each one that settles successfully is reported to
+// options.onProgress. The total grows if more items turn up than expected:
+// descendants doesn't count deleted comments, but the crawl still fetches them.
+function progressTracker(options: RequestOptions, total?: number): <T>(request: Promise<T>) => Promise<T> {
+  let fetched = 0;
+  return request => request.then(value => {
+    fetched++;
+    options.onProgress?.(fetched, total === undefined ? undefined : Math.max(total, fetched));
+    return value;
+  });
+}
 
 export interface HackerNewsClientOptions {
   baseUrl: string;
@@ -18,9 +77,79 @@ export interface HackerNewsClientOptions {
   cacheOptions?: {
     ttlSeconds: number;
     maxSize: number;
+    // Per-cache budget for serialized entry size; 0 or unset disables it
+    maxBytes?: number;
+    // Directory for on-disk cache files; unset keeps the cache in memory only
+    persistDir?: string;
+    ttlPolicy?: Partial<TtlPolicy>;
+    // How long expired items and story lists are still served while a refresh runs
+    staleSeconds?: number;
+  };
+  retry?: Partial<RetryOptions>;
+  scheduler?: Partial<SchedulerOptions>;
+}
+
+export interface ClientCacheStats {
+  items: number;
+  users: number;
+  lists: number;
+  details: {
+    items: CacheStats;
+    users: CacheStats;
+    lists: CacheStats;
   };
 }
 
+export interface RequestOptions {
+  priority?: RequestPriority;
+  // Called when a response includes data served from the stale window
+  onStale?: (cacheKey: string) => void;
+  // Aborting rejects the call, drops its queued fetches and cancels running ones
+  signal?: AbortSignal;
+  // Skip the cache lookup and always fetch; the response still refreshes the cache
+  fresh?: boolean;
+  // Called as batch and crawl methods finish each item, with the expected
+  // total when one is known
+  onProgress?: (fetched: number, total?: number) => void;
+}
+
+export interface CommentTreeOptions extends RequestOptions {
+  // Deepest level loaded; 1 keeps only top-level comments
+  maxDepth?: number;
+  // Comments loaded at most, a level at a time: all top-level comments
+  // before any reply
+  maxComments?: number;
+  // Stop fetching after this long and return what has loaded
+  timeBudgetMs?: number;
+  // The skipped ids of an earlier call: crawl those subtrees instead of the
+  // item's comments
+  cursor?: number[];
+}
+
+// A comment id waiting for the crawl, and the node its comment goes under
+interface PendingComment {
+  id: number;
+  parent?: CommentNode;
+}
+
+// Fills in childCount and subtreeSize once the crawl is done; returns the
+// number of nodes
+function sizeSubtrees(nodes: CommentNode[]): number {
+  return nodes.reduce((sum, node) => {
+    node.childCount = node.children.length;
+    node.subtreeSize = 1 + sizeSubtrees(node.children);
+    return sum + node.subtreeSize;
+  }, 0);
+}
+
+// "evict" drops changed entries; "refresh" also re-fetches the ones that were cached
+export type InvalidationMode = "evict" | "refresh";
+
+export interface InvalidationResult {
+  items: number;
+  profiles: number;
+}
+
 export class HackerNewsClientError extends Error {
   constructor(message: string, public readonly statusCode?: number) {
     super(message);
@@ -31,141 +160,160 @@ export class HackerNewsClientError extends Error {
 export class HackerNewsClient {
   private readonly baseUrl: string;
   private readonly timeout: number;
+  private readonly retry: RetryOptions;
+  private readonly scheduler: RequestScheduler;
+  private readonly coalescer = new RequestCoalescer();
   private readonly itemCache: SimpleCache<HackerNewsItem>;
   private readonly userCache: SimpleCache<HackerNewsUser>;
   private readonly listCache: SimpleCache<number[]>;
+  private readonly ttlPolicy: TtlPolicy;
+  private readonly baseTtlSeconds: number;
 
   constructor(options: HackerNewsClientOptions) {
     this.baseUrl = options.baseUrl.replace(/\/$/, ""); // Remove trailing slash
     this.timeout = options.timeout;
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.scheduler = new RequestScheduler(options.scheduler);
     
     const cacheOptions = options.cacheOptions || { ttlSeconds: 300, maxSize: 1000 };
-    this.itemCache = new SimpleCache<HackerNewsItem>(cacheOptions.ttlSeconds, cacheOptions.maxSize);
-    this.userCache = new SimpleCache<HackerNewsUser>(cacheOptions.ttlSeconds, cacheOptions.maxSize);
-    this.listCache = new SimpleCache<number[]>(cacheOptions.ttlSeconds, Math.floor(cacheOptions.maxSize / 10));
+    const maxBytes = cacheOptions.maxBytes || 0;
+    const staleSeconds = cacheOptions.staleSeconds || 0;
+    this.ttlPolicy = { ...DEFAULT_TTL_POLICY, ...cacheOptions.ttlPolicy };
+    this.baseTtlSeconds = cacheOptions.ttlSeconds;
+    const persistDir = cacheOptions.persistDir;
+    const storeFor = <T>(name: string, storeStaleSeconds = 0): CacheStore<T> | undefined =>
+      persistDir ? new FileCacheStore<T>(join(persistDir, `${name}.jsonl`), { staleSeconds: storeStaleSeconds }) : undefined;
+
+    this.itemCache = new SimpleCache<HackerNewsItem>(cacheOptions.ttlSeconds, cacheOptions.maxSize, {
+      maxBytes,
+      staleSeconds,
+      store: storeFor<HackerNewsItem>("items", staleSeconds),
+    });
+    this.userCache = new SimpleCache<HackerNewsUser>(cacheOptions.ttlSeconds, cacheOptions.maxSize, {
+      maxBytes,
+      store: storeFor<HackerNewsUser>("users"),
+    });
+    const listTtlSeconds = cacheOptions.ttlSeconds > 0 ? this.ttlPolicy.listTtlSeconds ?? cacheOptions.ttlSeconds : 0;
+    this.listCache = new SimpleCache<number[]>(listTtlSeconds, Math.floor(cacheOptions.maxSize / 10), {
+      maxBytes: Math.floor(maxBytes / 10),
+      staleSeconds,
+      store: storeFor<number[]>("lists", staleSeconds),
+    });
   }
 
   // Core API methods
-  async getItem(id: number): Promise<APIResponse<HackerNewsItem>> {
+  async getItem(id: number, options: RequestOptions = {}): Promise<APIResponse<HackerNewsItem>> {
     const cacheKey = `item:${id}`;
-    const cached = this.itemCache.get(cacheKey);
-    if (cached) {
-      logger.debug(`Cache hit for item ${id}`);
-      return cached;
-    }
-
-    try {
-      const response = await this.fetchWithTimeout(`${this.baseUrl}/item/${id}.json`);
-      const item = await response.json() as HackerNewsItem;
+    return this.readThrough(this.itemCache, cacheKey, options, async options => {
+      try {
+        const response = await this.fetchWithTimeout(`${this.baseUrl}/item/${id}.json`, options);
+        const item = await response.json() as HackerNewsItem;
       
-      if (item) {
-        this.itemCache.set(cacheKey, item);
-      }
+        if (item) {
+          this.itemCache.set(cacheKey, item, computeItemTtl(item, this.ttlPolicy, this.baseTtlSeconds));
+        }
       
-      return item;
-    } catch (error) {
-      logger.error(`Failed to fetch item ${id}:`, error);
-      throw new HackerNewsClientError(`Failed to fetch item ${id}: ${error instanceof Error ? error.message : String(error)}`);
-    }
+        return item;
+      } catch (error) {
+        throw requestFailed(`Failed to fetch item ${id}`, error, options.signal);
+      }
+    });
   }
 
-  async getUser(id: string): Promise<APIResponse<HackerNewsUser>> {
+  async getUser(id: string, options: RequestOptions = {}): Promise<APIResponse<HackerNewsUser>> {
     const cacheKey = `user:${id}`;
-    const cached = this.userCache.get(cacheKey);
-    if (cached) {
-      logger.debug(`Cache hit for user ${id}`);
-      return cached;
-    }
-
-    try {
-      const response = await this.fetchWithTimeout(`${this.baseUrl}/user/${id}.json`);
-      const user = await response.json() as HackerNewsUser;
+    return this.readThrough(this.userCache, cacheKey, options, async options => {
+      try {
+        const response = await this.fetchWithTimeout(`${this.baseUrl}/user/${id}.json`, options);
+        const user = await response.json() as HackerNewsUser;
       
-      if (user) {
-        this.userCache.set(cacheKey, user);
-      }
+        if (user) {
+          this.userCache.set(cacheKey, user);
+        }
       
-      return user;
-    } catch (error) {
-      logger.error(`Failed to fetch user ${id}:`, error);
-      throw new HackerNewsClientError(`Failed to fetch user ${id}: ${error instanceof Error ? error.message : String(error)}`);
-    }
+        return user;
+      } catch (error) {
+        throw requestFailed(`Failed to fetch user ${id}`, error, options.signal);
+      }
+    });
   }
 
-  async getMaxItemId(): Promise<number> {
-    try {
-      const response = await this.fetchWithTimeout(`${this.baseUrl}/maxitem.json`);
-      return await response.json() as number;
-    } catch (error) {
-      logger.error("Failed to fetch max item ID:", error);
-      throw new HackerNewsClientError(`Failed to fetch max item ID: ${error instanceof Error ? error.message : String(error)}`);
-    }
+  async getMaxItemId(options: RequestOptions = {}): Promise<number> {
+    return this.coalescer.run("maxitem", async signal => {
+      try {
+        const response = await this.fetchWithTimeout(`${this.baseUrl}/maxitem.json`, { ...options, signal });
+        return await response.json() as number;
+      } catch (error) {
+        throw requestFailed("Failed to fetch max item ID", error, signal);
+      }
+    }, options.signal);
   }
 
   // Story collection methods
-  async getTopStories(): Promise<number[]> {
-    return this.getStoryList("topstories");
+  async getTopStories(options: RequestOptions = {}): Promise<number[]> {
+    return this.getStoryList("topstories", options);
   }
 
-  async getNewStories(): Promise<number[]> {
-    return this.getStoryList("newstories");
+  async getNewStories(options: RequestOptions = {}): Promise<number[]> {
+    return this.getStoryList("newstories", options);
   }
 
-  async getBestStories(): Promise<number[]> {
-    return this.getStoryList("beststories");
+  async getBestStories(options: RequestOptions = {}): Promise<number[]> {
+    return this.getStoryList("beststories", options);
   }
 
-  async getAskStories(): Promise<number[]> {
-    return this.getStoryList("askstories");
+  async getAskStories(options: RequestOptions = {}): Promise<number[]> {
+    return this.getStoryList("askstories", options);
   }
 
-  async getShowStories(): Promise<number[]> {
-    return this.getStoryList("showstories");
+  async getShowStories(options: RequestOptions = {}): Promise<number[]> {
+    return this.getStoryList("showstories", options);
   }
 
-  async getJobStories(): Promise<number[]> {
-    return this.getStoryList("jobstories");
+  async getJobStories(options: RequestOptions = {}): Promise<number[]> {
+    return this.getStoryList("jobstories", options);
   }
 
-  async getUpdates(): Promise<HackerNewsUpdates> {
-    try {
-      const response = await this.fetchWithTimeout(`${this.baseUrl}/updates.json`);
-      return await response.json() as HackerNewsUpdates;
-    } catch (error) {
-      logger.error("Failed to fetch updates:", error);
-      throw new HackerNewsClientError(`Failed to fetch updates: ${error instanceof Error ? error.message : String(error)}`);
-    }
+  async getUpdates(options: RequestOptions = {}): Promise<HackerNewsUpdates> {
+    return this.coalescer.run("updates", async signal => {
+      try {
+        const response = await this.fetchWithTimeout(`${this.baseUrl}/updates.json`, { ...options, signal });
+        return await response.json() as HackerNewsUpdates;
+      } catch (error) {
+        throw requestFailed("Failed to fetch updates", error, signal);
+      }
+    }, options.signal);
   }
 
   // Enhanced methods with metadata
-  async getStoryWithMetadata(id: number): Promise<StoryWithMetadata | null> {
-    const item = await this.getItem(id);
+  async getStoryWithMetadata(id: number, options: RequestOptions = {}): Promise<StoryWithMetadata | null> {
+    const item = await this.getItem(id, options);
     if (!item || item.type !== "story") {
       return null;
     }
 
-    const commentCount = item.descendants || 0;
-    const ageHours = item.time ? (Date.now() / 1000 - item.time) / 3600 : 0;
-    const domain = item.url ? this.extractDomain(item.url) : undefined;
+    return this.withMetadata(item);
+  }
 
-    return {
-      ...item,
-      commentCount,
-      ageHours,
-      domain,
-    };
+  // Metadata for a page of a story list, in order. Unlike
+  // getStoryWithMetadata any item type is kept (job lists hold jobs); missing,
+  // deleted and dead items are null.
+  async getStoriesWithMetadata(ids: number[], options: RequestOptions = {}): Promise<(StoryWithMetadata | null)[]> {
+    const items = await this.getMultipleItems(ids, options);
+    return items.map(item => item && !item.deleted && !item.dead ? this.withMetadata(item) : null);
   }
 
-  async getUserWithStats(id: string): Promise<UserWithStats | null> {
-    const user = await this.getUser(id);
+  async getUserWithStats(id: string, options: RequestOptions = {}): Promise<UserWithStats | null> {
+    const user = await this.getUser(id, options);
     if (!user) {
       return null;
     }
 
     // Get user's recent submissions for stats
     const recentSubmissions = user.submitted ? user.submitted.slice(0, 10) : [];
+    const tracked = progressTracker(options, recentSubmissions.length);
     const recentItems = await Promise.all(
-      recentSubmissions.map(itemId => this.getItem(itemId))
+      recentSubmissions.map(itemId => tracked(this.getItem(itemId, options)))
     );
 
     const validItems = recentItems.filter((item): item is HackerNewsItem => item !== null);
@@ -184,12 +332,14 @@ export class HackerNewsClient {
   }
 
   // Search and filter methods
-  async searchStories(params: SearchParams): Promise<HackerNewsItem[]> {
-    const topStories = await this.getTopStories();
+  async searchStories(params: SearchParams, options: RequestOptions = {}): Promise<HackerNewsItem[]> {
+    const topStories = await this.getTopStories(options);
     const storyLimit = Math.min(params.limit || 50, 100); // Limit to avoid too many API calls
     
+    const candidates = topStories.slice(0, storyLimit * 2);
+    const tracked = progressTracker(options, candidates.length);
     const stories = await Promise.all(
-      topStories.slice(0, storyLimit * 2).map(id => this.getItem(id))
+      candidates.map(id => tracked(this.getItem(id, options)))
     );
 
     const validStories = stories.filter((story): story is HackerNewsItem => 
@@ -199,71 +349,178 @@ export class HackerNewsClient {
     return this.filterStories(validStories, params).slice(0, storyLimit);
   }
 
-  async getCommentTree(itemId: number): Promise<HackerNewsItem[]> {
-    const item = await this.getItem(itemId);
-    if (!item || !item.kids) {
-      return [];
+  // Crawls breadth-first: each level of replies is fetched concurrently
+  // through the scheduler. Comments that maxComments or the time budget leave
+  // unfetched are listed in skipped; pass them back as cursor to continue.
+  async getCommentTree(itemId: number, options: CommentTreeOptions = {}): Promise<CommentTree> {
+    const tree: CommentTree = { itemId, comments: [], total: 0, truncated: false, skipped: [] };
+    const deadline = options.timeBudgetMs === undefined ? undefined : Date.now() + options.timeBudgetMs;
+
+    let roots = options.cursor;
+    let expected: number | undefined;
+    if (!roots) {
+      const item = await this.getItem(itemId, options);
+      if (!item || !item.kids) {
+        return tree;
+      }
+      roots = item.kids;
+      expected = item.descendants === undefined || options.maxComments === undefined
+        ? item.descendants
+        : Math.min(item.descendants, options.maxComments);
     }
 
-    const comments: HackerNewsItem[] = [];
-    await this.loadCommentsRecursively(item.kids, comments);
-    return comments;
-  }
-
-  // Batch operations
-  async getMultipleItems(ids: number[]): Promise<(HackerNewsItem | null)[]> {
-    const batchSize = 10;
-    const results: (HackerNewsItem | null)[] = [];
+    // The budget aborts fetches still running when it runs out
+    const budget = new AbortController();
+    const cancel = () => budget.abort(options.signal?.reason);
+    options.signal?.addEventListener("abort", cancel, { once: true });
+    const timeoutId = deadline === undefined ? undefined : setTimeout(() => budget.abort(), Math.max(deadline - Date.now(), 0));
 
-    for (let i = 0; i < ids.length; i += batchSize) {
-      const batch = ids.slice(i, i + batchSize);
-      const batchResults = await Promise.all(batch.map(id => this.getItem(id)));
-      results.push(...batchResults);
+    try {
+      await this.crawlComments(roots, tree, { ...options, signal: budget.signal }, progressTracker(options, expected));
+    } finally {
+      options.signal?.removeEventListener("abort", cancel);
+      clearTimeout(timeoutId);
     }
+    throwIfAborted(options.signal);
 
-    return results;
+    sizeSubtrees(tree.comments);
+    tree.truncated ||= tree.skipped.length > 0;
+    return tree;
+  }
+
+  // Batch operations (concurrency is bounded by the shared scheduler).
+  // An id that can't be fetched comes back null instead of failing the batch;
+  // a cancelled caller still gets the abort.
+  async getMultipleItems(ids: number[], options: RequestOptions = {}): Promise<(HackerNewsItem | null)[]> {
+    const tracked = progressTracker(options, ids.length);
+    const results = await Promise.allSettled(ids.map(id => tracked(this.getItem(id, options))));
+    throwIfAborted(options.signal);
+
+    return results.map((result, index) => {
+      if (result.status === "rejected") {
+        log.warn(`Failed to fetch item ${ids[index]}: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`);
+        return null;
+      }
+      return result.value;
+    });
   }
 
   // Private helper methods
-  private async getStoryList(endpoint: string): Promise<number[]> {
+  private async getStoryList(endpoint: string, options: RequestOptions): Promise<number[]> {
     const cacheKey = `list:${endpoint}`;
-    const cached = this.listCache.get(cacheKey);
+    return this.readThrough(this.listCache, cacheKey, options, async options => {
+      try {
+        const response = await this.fetchWithTimeout(`${this.baseUrl}/${endpoint}.json`, options);
+        const stories = await response.json() as number[];
+      
+        this.listCache.set(cacheKey, stories);
+        return stories;
+      } catch (error) {
+        throw requestFailed(`Failed to fetch ${endpoint}`, error, options.signal);
+      }
+    });
+  }
+
+  // Serves fresh entries from the cache and otherwise loads through the
+  // coalescer. Entries in the stale window are returned at once while a
+  // background refresh runs, so a failing upstream still gets an answer.
+  private async readThrough<T>(
+    cache: SimpleCache<T>,
+    cacheKey: string,
+    options: RequestOptions,
+    load: (options: RequestOptions) => Promise<T>
+  ): Promise<T> {
+    const cached = options.fresh ? undefined : cache.lookup(cacheKey);
+    if (cached && !cached.stale) {
+      log.debug(`Cache hit for ${cacheKey}`);
+      return cached.value;
+    }
+
     if (cached) {
-      logger.debug(`Cache hit for ${endpoint}`);
-      return cached;
+      log.debug(`Serving stale ${cacheKey} while revalidating`);
+      options.onStale?.(cacheKey);
+      // load() already logs failures; the stale entry stays until its window ends
+      this.coalescer.run(cacheKey, signal => load({ priority: "bulk", signal })).catch(() => undefined);
+      return cached.value;
     }
 
-    try {
-      const response = await this.fetchWithTimeout(`${this.baseUrl}/${endpoint}.json`);
-      const stories = await response.json() as number[];
-      
-      this.listCache.set(cacheKey, stories);
-      return stories;
-    } catch (error) {
-      logger.error(`Failed to fetch ${endpoint}:`, error);
-      throw new HackerNewsClientError(`Failed to fetch ${endpoint}: ${error instanceof Error ? error.message : String(error)}`);
+    // load() sees the shared signal, which aborts once every waiting caller has
+    return this.coalescer.run(cacheKey, signal => load({ ...options, signal }), options.signal);
+  }
+
+  private async fetchWithTimeout(url: string, options: RequestOptions = {}): Promise<import("node-fetch").Response> {
+    const maxAttempts = Math.max(1, this.retry.attempts);
+
+    for (let attempt = 1; ; attempt++) {
+      let lastError: HackerNewsClientError;
+      let retryable: boolean;
+      let retryAfterMs: number | undefined;
+
+      try {
+        // Each attempt takes its own scheduler slot so backoff sleeps don't hold one
+        const response = await this.scheduler.schedule(
+          () => this.fetchOnce(url, options.signal),
+          options.priority,
+          options.signal
+        );
+
+        if (response.ok) {
+          return response;
+        }
+
+        lastError = new HackerNewsClientError(`HTTP ${response.status}: ${response.statusText}`, response.status);
+        retryable = isRetryableStatus(response.status, this.retry);
+        retryAfterMs = parseRetryAfter(response.headers?.get("retry-after"));
+      } catch (error) {
+        // Cancelled by the caller: never retried
+        throwIfAborted(options.signal);
+        if (error instanceof Error && error.name === "AbortError") {
+          lastError = new HackerNewsClientError(`Request timeout after ${this.timeout}ms`);
+          retryable = isRetryableError("timeout", this.retry);
+        } else {
+          lastError = new HackerNewsClientError(error instanceof Error ? error.message : String(error));
+          retryable = isRetryableError("network", this.retry);
+        }
+      }
+
+      if (!retryable || attempt >= maxAttempts) {
+        throw lastError;
+      }
+
+      const delay = retryAfterMs !== undefined
+        ? Math.min(retryAfterMs, this.retry.maxDelayMs)
+        : computeBackoffDelay(attempt - 1, this.retry);
+      log.warn(`Retrying ${url} in ${delay}ms (attempt ${attempt + 1}/${maxAttempts}): ${lastError.message}`);
+      await sleep(delay, options.signal);
     }
   }
 
-  private async fetchWithTimeout(url: string): Promise<import("node-fetch").Response> {
+  // The caller's signal and the timeout share one controller
+  private async fetchOnce(url: string, signal?: AbortSignal): Promise<import("node-fetch").Response> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const cancel = () => controller.abort();
+    signal?.addEventListener("abort", cancel, { once: true });
+    const endpoint = endpointOf(url);
+    const stopTimer = upstreamDuration.startTimer({ endpoint });
+    let status = "error";
 
     try {
       const response = await fetch(url, { signal: controller.signal });
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new HackerNewsClientError(`HTTP ${response.status}: ${response.statusText}`, response.status);
-      }
-
+      status = String(response.status);
       return response;
     } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === "AbortError") {
-        throw new HackerNewsClientError(`Request timeout after ${this.timeout}ms`);
+      if (signal?.aborted) {
+        status = "cancelled";
+      } else if (error instanceof Error && error.name === "AbortError") {
+        status = "timeout";
       }
       throw error;
+    } finally {
+      signal?.removeEventListener("abort", cancel);
+      clearTimeout(timeoutId);
+      stopTimer();
+      upstreamRequests.inc({ endpoint, status });
     }
   }
 
@@ -297,23 +554,112 @@ export class HackerNewsClient {
     });
   }
 
-  private async loadCommentsRecursively(kidIds: number[], comments: HackerNewsItem[]): Promise<void> {
-    const batchSize = 5;
-    for (let i = 0; i < kidIds.length; i += batchSize) {
-      const batch = kidIds.slice(i, i + batchSize);
-      const batchComments = await Promise.all(batch.map(id => this.getItem(id)));
-      
-      for (const comment of batchComments) {
-        if (comment && comment.type === "comment") {
-          comments.push(comment);
-          if (comment.kids) {
-            await this.loadCommentsRecursively(comment.kids, comments);
+  // options.signal aborts when the caller cancels or the time budget runs out;
+  // a cancelled caller is rethrown by getCommentTree
+  private async crawlComments(
+    roots: number[],
+    tree: CommentTree,
+    options: CommentTreeOptions,
+    tracked: ReturnType<typeof progressTracker>
+  ): Promise<void> {
+    const maxComments = options.maxComments ?? Infinity;
+    const maxDepth = options.maxDepth ?? Infinity;
+    let level: PendingComment[] = roots.map(id => ({ id }));
+
+    while (level.length > 0) {
+      const next: PendingComment[] = [];
+      let index = 0;
+
+      // Batches only grow past one when null or non-comment results leave
+      // room under maxComments
+      while (index < level.length && tree.total < maxComments && !options.signal?.aborted) {
+        const batch = level.slice(index, index + (maxComments - tree.total));
+        index += batch.length;
+        const results = await Promise.allSettled(batch.map(({ id }) => tracked(this.getItem(id, options))));
+
+        for (const [position, result] of results.entries()) {
+          if (result.status === "rejected") {
+            if (!options.signal?.aborted) {
+              throw result.reason;
+            }
+            tree.skipped.push(batch[position].id);
+            continue;
+          }
+
+          const comment = result.value;
+          if (!comment || comment.type !== "comment") {
+            continue;
+          }
+
+          const { parent } = batch[position];
+          // The item's own kids are top-level; ids from a cursor are placed
+          // (and checked against the item) by walking up their ancestors
+          let path = parent ? [...parent.path, comment.id] : [comment.id];
+          try {
+            if (!parent && options.cursor) {
+              path = await this.commentPath(comment, tree.itemId, options);
+            }
+          } catch (error) {
+            if (!options.signal?.aborted) {
+              throw error;
+            }
+            tree.skipped.push(comment.id);
+            continue;
+          }
+          const node: CommentNode = { ...comment, depth: path.length, path, childCount: 0, subtreeSize: 1, children: [] };
+          (parent ? parent.children : tree.comments).push(node);
+          tree.total++;
+
+          if (comment.kids?.length) {
+            if (node.depth >= maxDepth) {
+              tree.truncated = true;
+            } else {
+              next.push(...comment.kids.map(id => ({ id, parent: node })));
+            }
           }
         }
       }
+
+      if (index < level.length || options.signal?.aborted || tree.total >= maxComments) {
+        tree.skipped.push(...level.slice(index).map(({ id }) => id), ...next.map(({ id }) => id));
+        return;
+      }
+      level = next;
     }
   }
 
+  // Ids from the top-level comment down to a comment resumed from a cursor,
+  // walking up through its ancestors, which the earlier crawl left in the
+  // cache. Throws when the chain ends anywhere but itemId, so a cursor can't
+  // pull in another thread.
+  private async commentPath(comment: HackerNewsItem, itemId: number, options: RequestOptions): Promise<number[]> {
+    const path = [comment.id];
+    let parentId = comment.parent;
+    while (parentId !== itemId) {
+      const parent = parentId === undefined ? null : await this.getItem(parentId, options);
+      if (!parent || parent.type !== "comment") {
+        throw new HackerNewsClientError(`Comment ${comment.id} is not in the thread of item ${itemId}`);
+      }
+      path.unshift(parent.id);
+      parentId = parent.parent;
+    }
+    return path;
+  }
+
+
+  private withMetadata(item: HackerNewsItem): StoryWithMetadata {
+    const commentCount = item.descendants || 0;
+    const ageHours = item.time ? (Date.now() / 1000 - item.time) / 3600 : 0;
+    const domain = item.url ? this.extractDomain(item.url) : undefined;
+
+    return {
+      ...item,
+      commentCount,
+      ageHours,
+      domain,
+    };
+  }
+
   private extractDomain(url: string): string | undefined {
     try {
       const urlObj = new URL(url);
@@ -323,19 +669,96 @@ export class HackerNewsClient {
     }
   }
 
+  // Usernames of cached profiles and of the authors of cached items, most
+  // recently used first; reading them never touches the network
+  getCachedUsernames(): string[] {
+    const names = new Set<string>();
+    for (const user of this.userCache.peekValues()) {
+      names.add(user.id);
+    }
+    for (const item of this.itemCache.peekValues()) {
+      if (item.by) {
+        names.add(item.by);
+      }
+    }
+    return Array.from(names);
+  }
+
+  // The cached ones among ids, in order; reading them never touches the network
+  getCachedItems(ids: number[]): HackerNewsItem[] {
+    return ids.flatMap(id => this.itemCache.peek(`item:${id}`) ?? []);
+  }
+
+  getSchedulerStats(): SchedulerStats {
+    return this.scheduler.getStats();
+  }
+
+  getCoalescingStats(): CoalescerStats {
+    return this.coalescer.getStats();
+  }
+
   // Cache management
-  getCacheStats(): { items: number; users: number; lists: number } {
+  getCacheStats(): ClientCacheStats {
+    const details = {
+      items: this.itemCache.getStats(),
+      users: this.userCache.getStats(),
+      lists: this.listCache.getStats(),
+    };
+
     return {
-      items: this.itemCache.size(),
-      users: this.userCache.size(),
-      lists: this.listCache.size(),
+      items: details.items.size,
+      users: details.users.size,
+      lists: details.lists.size,
+      details,
     };
   }
 
+  getTtlPolicy(): TtlPolicy & { baseTtlSeconds: number } {
+    return {
+      ...this.ttlPolicy,
+      listTtlSeconds: this.baseTtlSeconds > 0 ? this.ttlPolicy.listTtlSeconds ?? this.baseTtlSeconds : 0,
+      baseTtlSeconds: this.baseTtlSeconds,
+    };
+  }
+
+  resetCacheStats(): void {
+    this.itemCache.resetStats();
+    this.userCache.resetStats();
+    this.listCache.resetStats();
+    log.info("Cache statistics reset");
+  }
+
+  // Flushes and releases cache stores; call before the process exits
+  async close(): Promise<void> {
+    await Promise.all([this.itemCache.close(), this.userCache.close(), this.listCache.close()]);
+  }
+
+  // Drops cached entries named in an /updates.json payload. Entries that
+  // aren't cached are ignored, so refresh never fetches anything new.
+  async invalidate(updates: HackerNewsUpdates, mode: InvalidationMode = "evict"): Promise<InvalidationResult> {
+    const items = (updates.items || []).filter(id => this.itemCache.delete(`item:${id}`));
+    const profiles = (updates.profiles || []).filter(id => this.userCache.delete(`user:${id}`));
+
+    if (mode === "refresh") {
+      const refreshes = [
+        ...items.map(id => this.getItem(id, { priority: "bulk" })),
+        ...profiles.map(id => this.getUser(id, { priority: "bulk" })),
+      ];
+      // Failures are already logged by getItem/getUser; the entry simply stays evicted
+      await Promise.allSettled(refreshes);
+    }
+
+    if (items.length > 0 || profiles.length > 0) {
+      log.debug(`Invalidated ${items.length} item(s) and ${profiles.length} profile(s) (${mode})`);
+    }
+
+    return { items: items.length, profiles: profiles.length };
+  }
+
   clearCache(): void {
     this.itemCache.clear();
     this.userCache.clear();
     this.listCache.clear();
-    logger.info("Cache cleared");
+    log.info("Cache cleared");
   }
 } 
\ No newline at end of file
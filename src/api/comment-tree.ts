@@ -0,0 +1,17 @@
+import { CommentNode, CommentTree } from "../types/hackernews.js";
+
+// "nested" keeps replies under their parent; "flat" lists every comment in
+// reading order (each thread before the next top-level comment)
+export const COMMENT_FORMATS = ["nested", "flat"] as const;
+
+export type CommentFormat = typeof COMMENT_FORMATS[number];
+
+export type FlatComment = Omit<CommentNode, "children">;
+
+export function flattenCommentTree(nodes: CommentNode[]): FlatComment[] {
+  return nodes.flatMap(({ children, ...comment }) => [comment, ...flattenCommentTree(children)]);
+}
+
+export function formatCommentTree(tree: CommentTree, format: CommentFormat): CommentNode[] | FlatComment[] {
+  return format === "flat" ? flattenCommentTree(tree.comments) : tree.comments;
+}
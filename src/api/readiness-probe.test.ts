@@ -0,0 +1,60 @@
+// Mock node-fetch so the client module loads without the ESM build
+jest.mock("node-fetch", () => jest.fn());
+
+import { HackerNewsClient } from "./client";
+import { ReadinessProbe } from "./readiness-probe";
+import { metrics } from "../utils/metrics";
+import { logger } from "../utils/logger";
+import { StderrSink } from "../utils/log-sinks";
+
+describe("ReadinessProbe", () => {
+  let mockClient: { getMaxItemId: jest.Mock };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    logger.setSinks([]);
+    mockClient = { getMaxItemId: jest.fn().mockResolvedValue(42000000) };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    logger.setSinks([new StderrSink()]);
+  });
+
+  const createProbe = () =>
+    new ReadinessProbe(mockClient as unknown as HackerNewsClient, { intervalSeconds: 30 });
+
+  it("should not be ready before the first probe", () => {
+    expect(createProbe().getStatus()).toEqual({ ready: false, consecutiveFailures: 0 });
+  });
+
+  it("should track the last probe outcome", async () => {
+    const probe = createProbe();
+
+    await expect(probe.probe()).resolves.toMatchObject({ ready: true, maxItemId: 42000000 });
+    expect(metrics.gauge("hackernews_upstream_up", "").get()).toBe(1);
+
+    mockClient.getMaxItemId.mockRejectedValue(new Error("HTTP 503: Service Unavailable"));
+    await probe.probe();
+    const status = await probe.probe();
+
+    expect(status).toMatchObject({ ready: false, consecutiveFailures: 2, error: "HTTP 503: Service Unavailable" });
+    expect(status.lastSuccessAt).toBeDefined();
+    expect(metrics.gauge("hackernews_upstream_up", "").get()).toBe(0);
+  });
+
+  it("should probe at once and then on the interval until stopped", async () => {
+    const probe = createProbe();
+
+    probe.start();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(mockClient.getMaxItemId).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(mockClient.getMaxItemId).toHaveBeenCalledTimes(2);
+
+    await probe.stop();
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(mockClient.getMaxItemId).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,99 @@
+import { HackerNewsClient } from "./client.js";
+import { logger } from "../utils/logger.js";
+import { metrics } from "../utils/metrics.js";
+
+const log = logger.child({ module: "readiness" });
+
+const upstreamUp = metrics.gauge("hackernews_upstream_up", "1 when the last probe of maxitem.json succeeded, else 0");
+
+export interface ReadinessProbeOptions {
+  intervalSeconds: number;
+}
+
+export interface ReadinessStatus {
+  ready: boolean;
+  // Epoch ms of the last probe and the last successful one
+  lastProbeAt?: number;
+  lastSuccessAt?: number;
+  maxItemId?: number;
+  consecutiveFailures: number;
+  error?: string;
+}
+
+// Fetches maxitem.json on an interval so /readyz reflects whether the
+// HackerNews API is reachable. Not ready until the first probe succeeds.
+export class ReadinessProbe {
+  private readonly client: HackerNewsClient;
+  private readonly intervalMs: number;
+  private timer?: NodeJS.Timeout;
+  private current?: Promise<void>;
+  private running = false;
+  private status: ReadinessStatus = { ready: false, consecutiveFailures: 0 };
+
+  constructor(client: HackerNewsClient, options: ReadinessProbeOptions) {
+    this.client = client;
+    this.intervalMs = Math.max(1, options.intervalSeconds) * 1000;
+  }
+
+  // Probes right away, then on the interval
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.run();
+  }
+
+  // Stops the timer and waits for a probe that is already running
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.current;
+  }
+
+  async probe(): Promise<ReadinessStatus> {
+    const now = Date.now();
+    try {
+      const maxItemId = await this.client.getMaxItemId({ priority: "interactive" });
+      if (this.status.consecutiveFailures > 0) {
+        log.info(`HackerNews API reachable again after ${this.status.consecutiveFailures} failed probe(s)`);
+      }
+      this.status = { ready: true, lastProbeAt: now, lastSuccessAt: now, maxItemId, consecutiveFailures: 0 };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (this.status.consecutiveFailures === 0) {
+        log.warn(`Readiness probe failed: ${message}`);
+      }
+      this.status = {
+        ...this.status,
+        ready: false,
+        lastProbeAt: now,
+        consecutiveFailures: this.status.consecutiveFailures + 1,
+        error: message,
+      };
+    }
+    upstreamUp.set({}, this.status.ready ? 1 : 0);
+    return this.getStatus();
+  }
+
+  getStatus(): ReadinessStatus {
+    return { ...this.status };
+  }
+
+  // Probes are chained rather than run on a fixed interval so a slow probe never overlaps the next
+  private run(): void {
+    this.current = this.probe().then(() => {
+      this.current = undefined;
+      if (this.running) {
+        this.timer = setTimeout(() => {
+          this.timer = undefined;
+          this.run();
+        }, this.intervalMs);
+        this.timer.unref();
+      }
+    });
+  }
+}
@@ -0,0 +1,132 @@
+// Mock node-fetch so the client module loads without the ESM build
+jest.mock("node-fetch", () => jest.fn());
+
+import { HackerNewsClient } from "./client";
+import { ResourceWatcher, UnsupportedSubscriptionError } from "./resource-watcher";
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe("ResourceWatcher", () => {
+  let mockClient: { getUpdates: jest.Mock; getItem: jest.Mock; getUser: jest.Mock; getTopStories: jest.Mock };
+  let watcher: ResourceWatcher;
+
+  beforeEach(() => {
+    mockClient = {
+      getUpdates: jest.fn().mockResolvedValue({ items: [], profiles: [] }),
+      getItem: jest.fn().mockResolvedValue({ id: 1, type: "story", score: 10, descendants: 2 }),
+      getUser: jest.fn().mockResolvedValue({ id: "pg", karma: 100, submitted: [1] }),
+      getTopStories: jest.fn().mockResolvedValue([1, 2, 3]),
+    };
+    watcher = new ResourceWatcher(mockClient as unknown as HackerNewsClient, { intervalSeconds: 30 });
+  });
+
+  afterEach(async () => {
+    await watcher.stop();
+  });
+
+  it("should notify when an item named in updates changes score", async () => {
+    const listener = jest.fn();
+    watcher.subscribe("hackernews://item/1", listener);
+    watcher.subscribe("hackernews://comments/1", listener);
+    await flush();
+
+    mockClient.getUpdates.mockResolvedValue({ items: [1], profiles: [] });
+    mockClient.getItem.mockResolvedValue({ id: 1, type: "story", score: 11, descendants: 2 });
+
+    await expect(watcher.poll()).resolves.toEqual(["hackernews://item/1", "hackernews://comments/1"]);
+    expect(mockClient.getItem).toHaveBeenLastCalledWith(1, { priority: "bulk", fresh: true });
+    expect(listener.mock.calls).toEqual([["hackernews://item/1"], ["hackernews://comments/1"]]);
+
+    // Named in updates again but unchanged
+    await expect(watcher.poll()).resolves.toEqual([]);
+  });
+
+  it("should not re-read items that updates doesn't name", async () => {
+    watcher.subscribe("hackernews://story/1", jest.fn());
+    await flush();
+    mockClient.getItem.mockClear();
+
+    await watcher.poll();
+
+    expect(mockClient.getItem).not.toHaveBeenCalled();
+  });
+
+  it("should notify when the top stories order changes", async () => {
+    const listener = jest.fn();
+    watcher.subscribe("hackernews://stories/top", listener);
+    await flush();
+
+    await expect(watcher.poll()).resolves.toEqual([]);
+    expect(mockClient.getUpdates).not.toHaveBeenCalled();
+
+    mockClient.getTopStories.mockResolvedValue([2, 1, 3]);
+    await expect(watcher.poll()).resolves.toEqual(["hackernews://stories/top"]);
+    expect(listener).toHaveBeenCalledWith("hackernews://stories/top");
+  });
+
+  it("should watch story collection pages and comment formats through their source", async () => {
+    const listener = jest.fn();
+    watcher.subscribe("hackernews://stories/top?page=2&hydrate=true", listener);
+    watcher.subscribe("hackernews://comments/1?format=flat", jest.fn());
+    await flush();
+    expect(watcher.getStats().resources).toBe(2);
+
+    mockClient.getTopStories.mockResolvedValue([3, 2, 1]);
+    await expect(watcher.poll()).resolves.toEqual(["hackernews://stories/top?page=2&hydrate=true"]);
+    expect(listener).toHaveBeenCalledWith("hackernews://stories/top?page=2&hydrate=true");
+  });
+
+  it("should notify profile and updates subscribers", async () => {
+    const listener = jest.fn();
+    watcher.subscribe("hackernews://user/pg", listener);
+    watcher.subscribe("hackernews://updates", listener);
+    await flush();
+    await watcher.poll();
+
+    mockClient.getUpdates.mockResolvedValue({ items: [5], profiles: ["pg"] });
+    mockClient.getUser.mockResolvedValue({ id: "pg", karma: 101, submitted: [1] });
+
+    await expect(watcher.poll()).resolves.toEqual(["hackernews://user/pg", "hackernews://updates"]);
+  });
+
+  it("should keep other changes when one resource fails", async () => {
+    const listener = jest.fn();
+    watcher.subscribe("hackernews://item/1", listener);
+    watcher.subscribe("hackernews://stories/top", listener);
+    await flush();
+
+    mockClient.getUpdates.mockResolvedValue({ items: [1], profiles: [] });
+    mockClient.getItem.mockRejectedValue(new Error("Network error"));
+    mockClient.getTopStories.mockResolvedValue([3, 2, 1]);
+
+    await expect(watcher.poll()).resolves.toEqual(["hackernews://stories/top"]);
+    expect(watcher.getStats()).toMatchObject({ polls: 1, failures: 1, notifications: 1 });
+  });
+
+  it("should reject resources that can't be watched", () => {
+    expect(() => watcher.subscribe("hackernews://cache/stats", jest.fn())).toThrow(UnsupportedSubscriptionError);
+    expect(() => watcher.subscribe("hackernews://item/abc", jest.fn())).toThrow(UnsupportedSubscriptionError);
+    expect(() => watcher.subscribe("hackernews://item/1?page=2", jest.fn())).toThrow(UnsupportedSubscriptionError);
+    expect(watcher.getStats().running).toBe(false);
+  });
+
+  it("should poll only while something is subscribed", async () => {
+    jest.useFakeTimers();
+    try {
+      const unsubscribe = watcher.subscribe("hackernews://stories/top", jest.fn());
+      expect(watcher.getStats()).toMatchObject({ resources: 1, subscriptions: 1, running: true });
+
+      await jest.advanceTimersByTimeAsync(30000);
+      expect(watcher.getStats().polls).toBe(1);
+
+      unsubscribe();
+      expect(watcher.getStats()).toMatchObject({ resources: 0, running: false });
+
+      mockClient.getTopStories.mockClear();
+      await jest.advanceTimersByTimeAsync(90000);
+      expect(mockClient.getTopStories).not.toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,317 @@
+import { HackerNewsClient, RequestOptions } from "./client.js";
+import { HackerNewsItem, HackerNewsUpdates, HackerNewsUser } from "../types/hackernews.js";
+import { logger } from "../utils/logger.js";
+
+const log = logger.child({ module: "subscriptions" });
+
+export interface ResourceWatcherOptions {
+  intervalSeconds: number;
+}
+
+export interface ResourceWatcherStats {
+  // Subscribed URIs and the listeners on them
+  resources: number;
+  subscriptions: number;
+  polls: number;
+  failures: number;
+  notifications: number;
+  running: boolean;
+}
+
+export type ResourceListener = (uri: string) => void;
+
+// What a resource URI depends on upstream. Several URIs can share a target:
+// hackernews://item/1, story/1 and comments/1 all change with item 1.
+type WatchTarget =
+  | { kind: "item"; key: string; id: number }
+  | { kind: "user"; key: string; id: string }
+  | { kind: "list"; key: string; endpoint: string }
+  | { kind: "updates"; key: string };
+
+const LIST_ENDPOINTS: Record<string, string> = {
+  top: "topstories",
+  new: "newstories",
+  best: "beststories",
+  ask: "askstories",
+  show: "showstories",
+  jobs: "jobstories",
+};
+
+export class UnsupportedSubscriptionError extends Error {
+  constructor(uri: string) {
+    super(`Resource ${uri} does not support subscriptions`);
+    this.name = "UnsupportedSubscriptionError";
+  }
+}
+
+function targetOf(uri: string): WatchTarget | undefined {
+  // Story lists and comment trees may carry a query (a page, a format); the
+  // resource still changes with its list or item
+  const match = /^hackernews:\/\/([a-z-]+)(?:\/([^/?#]+))?(\?[^#]*)?$/.exec(uri);
+  if (!match || (match[3] !== undefined && match[1] !== "stories" && match[1] !== "comments")) {
+    return undefined;
+  }
+
+  const [, kind, arg] = match;
+  const id = arg === undefined ? undefined : decodeURIComponent(arg);
+  switch (kind) {
+    case "item":
+    case "story":
+    case "comments": {
+      const itemId = Number(id);
+      return Number.isInteger(itemId) && itemId > 0 ? { kind: "item", key: `item:${itemId}`, id: itemId } : undefined;
+    }
+    case "user":
+    case "user-stats":
+      return id ? { kind: "user", key: `user:${id}`, id } : undefined;
+    case "stories": {
+      const endpoint = id === undefined ? undefined : LIST_ENDPOINTS[id];
+      return endpoint ? { kind: "list", key: `list:${endpoint}`, endpoint } : undefined;
+    }
+    case "updates":
+      return id === undefined ? { kind: "updates", key: "updates" } : undefined;
+    default:
+      return undefined;
+  }
+}
+
+// Only the fields subscribers care about: score and comments for items,
+// karma and submissions for users, ordering for story lists
+function itemFingerprint(item: HackerNewsItem | null): string {
+  return JSON.stringify(item ? [item.score, item.descendants, item.kids, item.deleted, item.dead] : null);
+}
+
+function userFingerprint(user: HackerNewsUser | null): string {
+  return JSON.stringify(user ? [user.karma, user.submitted?.length] : null);
+}
+
+// Tells listeners when a subscribed resource changes upstream. Items and
+// profiles are re-read only when /updates.json names them; subscribed story
+// lists are re-fetched every poll. Polling runs only while something is
+// subscribed.
+export class ResourceWatcher {
+  private readonly client: HackerNewsClient;
+  private readonly intervalMs: number;
+  private readonly watched = new Map<string, { target: WatchTarget; listeners: Set<ResourceListener> }>();
+  // Last seen fingerprint per target key
+  private readonly fingerprints = new Map<string, string>();
+  private timer?: NodeJS.Timeout;
+  private current?: Promise<void>;
+  private stats = { polls: 0, failures: 0, notifications: 0 };
+
+  constructor(client: HackerNewsClient, options: ResourceWatcherOptions) {
+    this.client = client;
+    this.intervalMs = Math.max(1, options.intervalSeconds) * 1000;
+  }
+
+  // Returns a function that removes the listener again. Throws
+  // UnsupportedSubscriptionError for URIs that can't be watched.
+  subscribe(uri: string, listener: ResourceListener): () => void {
+    const target = targetOf(uri);
+    if (!target) {
+      throw new UnsupportedSubscriptionError(uri);
+    }
+
+    let entry = this.watched.get(uri);
+    if (!entry) {
+      entry = { target, listeners: new Set() };
+      this.watched.set(uri, entry);
+      void this.recordBaseline(target);
+    }
+    entry.listeners.add(listener);
+
+    if (!this.isRunning()) {
+      log.info(`Watching subscribed resources every ${this.intervalMs / 1000}s`);
+      this.scheduleNext();
+    }
+
+    return () => this.unsubscribe(uri, listener);
+  }
+
+  // Stops the timer and waits for a poll that is already running
+  async stop(): Promise<void> {
+    this.watched.clear();
+    this.fingerprints.clear();
+    this.cancelTimer();
+    await this.current;
+  }
+
+  // Checks every watched target once and notifies listeners of the URIs
+  // that changed. Returns those URIs.
+  async poll(): Promise<string[]> {
+    const targets = new Map<string, WatchTarget>();
+    for (const { target } of this.watched.values()) {
+      targets.set(target.key, target);
+    }
+
+    let updates: HackerNewsUpdates | undefined;
+    try {
+      if (Array.from(targets.values()).some(target => target.kind !== "list")) {
+        updates = await this.client.getUpdates({ priority: "bulk" });
+      }
+    } catch (error) {
+      this.stats.failures++;
+      log.warn("Resource subscription poll failed:", error);
+      return [];
+    }
+
+    // One failing target must not hold back changes to the others
+    const results = await Promise.allSettled(Array.from(targets.values()).map(target => this.check(target, updates)));
+    const changedKeys = results.flatMap(result => (result.status === "fulfilled" && result.value ? [result.value] : []));
+    const failed = results.filter((result): result is PromiseRejectedResult => result.status === "rejected");
+    if (failed.length > 0) {
+      this.stats.failures++;
+      log.warn(`Resource subscription poll failed for ${failed.length} resource(s):`, failed[0].reason);
+    }
+    this.stats.polls++;
+
+    return this.notify(changedKeys);
+  }
+
+  getStats(): ResourceWatcherStats {
+    let subscriptions = 0;
+    for (const { listeners } of this.watched.values()) {
+      subscriptions += listeners.size;
+    }
+    return { resources: this.watched.size, subscriptions, ...this.stats, running: this.isRunning() };
+  }
+
+  private unsubscribe(uri: string, listener: ResourceListener): void {
+    const entry = this.watched.get(uri);
+    if (!entry?.listeners.delete(listener) || entry.listeners.size > 0) {
+      return;
+    }
+
+    this.watched.delete(uri);
+    const key = entry.target.key;
+    if (!Array.from(this.watched.values()).some(other => other.target.key === key)) {
+      this.fingerprints.delete(key);
+    }
+    if (this.watched.size === 0) {
+      log.info("No resource subscriptions left; watching paused");
+      this.cancelTimer();
+    }
+  }
+
+  // Re-reads a target when it may have changed; returns its key if it did
+  private async check(target: WatchTarget, updates?: HackerNewsUpdates): Promise<string | undefined> {
+    const fresh: RequestOptions = { priority: "bulk", fresh: true };
+    let fingerprint: string | undefined;
+    switch (target.kind) {
+      case "item":
+        if (updates?.items?.includes(target.id)) {
+          fingerprint = itemFingerprint(await this.client.getItem(target.id, fresh));
+        }
+        break;
+      case "user":
+        if (updates?.profiles?.includes(target.id)) {
+          fingerprint = userFingerprint(await this.client.getUser(target.id, fresh));
+        }
+        break;
+      case "list":
+        fingerprint = JSON.stringify(await this.fetchList(target.endpoint, fresh));
+        break;
+      case "updates":
+        fingerprint = JSON.stringify(updates);
+        break;
+    }
+
+    return fingerprint !== undefined && this.record(target.key, fingerprint) ? target.key : undefined;
+  }
+
+  // Reads the current state through the cache, which is what the subscriber
+  // most likely saw, so the first change is measured against it
+  private async recordBaseline(target: WatchTarget): Promise<void> {
+    try {
+      switch (target.kind) {
+        case "item":
+          this.record(target.key, itemFingerprint(await this.client.getItem(target.id, { priority: "bulk" })), false);
+          break;
+        case "user":
+          this.record(target.key, userFingerprint(await this.client.getUser(target.id, { priority: "bulk" })), false);
+          break;
+        case "list":
+          this.record(target.key, JSON.stringify(await this.fetchList(target.endpoint, { priority: "bulk" })), false);
+          break;
+        case "updates":
+          // The first poll sets the baseline
+          break;
+      }
+    } catch (error) {
+      log.debug(`Could not read baseline for ${target.key}:`, error);
+    }
+  }
+
+  // Stores the fingerprint and reports whether it differs from a previous one.
+  // A baseline never overwrites a fingerprint a poll has already recorded.
+  private record(key: string, fingerprint: string, overwrite = true): boolean {
+    const previous = this.fingerprints.get(key);
+    if (previous !== undefined && !overwrite) {
+      return false;
+    }
+    this.fingerprints.set(key, fingerprint);
+    return previous !== undefined && previous !== fingerprint;
+  }
+
+  private notify(changedKeys: string[]): string[] {
+    const changed = new Set(changedKeys);
+    const uris: string[] = [];
+    for (const [uri, { target, listeners }] of this.watched) {
+      if (!changed.has(target.key)) {
+        continue;
+      }
+      uris.push(uri);
+      for (const listener of listeners) {
+        this.stats.notifications++;
+        listener(uri);
+      }
+    }
+    if (uris.length > 0) {
+      log.debug(`Subscribed resources changed: ${uris.join(", ")}`);
+    }
+    return uris;
+  }
+
+  private fetchList(endpoint: string, options: RequestOptions): Promise<number[]> {
+    switch (endpoint) {
+      case "newstories":
+        return this.client.getNewStories(options);
+      case "beststories":
+        return this.client.getBestStories(options);
+      case "askstories":
+        return this.client.getAskStories(options);
+      case "showstories":
+        return this.client.getShowStories(options);
+      case "jobstories":
+        return this.client.getJobStories(options);
+      default:
+        return this.client.getTopStories(options);
+    }
+  }
+
+  private isRunning(): boolean {
+    return this.timer !== undefined || this.current !== undefined;
+  }
+
+  private cancelTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // Polls are chained rather than run on a fixed interval so a slow poll
+  // never overlaps the next; the chain ends once nothing is subscribed
+  private scheduleNext(): void {
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.current = this.poll().then(() => {
+        this.current = undefined;
+        if (this.watched.size > 0) {
+          this.scheduleNext();
+        }
+      });
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+}
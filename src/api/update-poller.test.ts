@@ -0,0 +1,61 @@
+// Mock node-fetch so the client module loads without the ESM build
+jest.mock("node-fetch", () => jest.fn());
+
+import { HackerNewsClient } from "./client";
+import { UpdatePoller } from "./update-poller";
+
+describe("UpdatePoller", () => {
+  let mockClient: { getUpdates: jest.Mock; invalidate: jest.Mock };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockClient = {
+      getUpdates: jest.fn().mockResolvedValue({ items: [1, 2], profiles: ["pg"] }),
+      invalidate: jest.fn().mockResolvedValue({ items: 1, profiles: 1 }),
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createPoller = (mode: "evict" | "refresh" = "evict") =>
+    new UpdatePoller(mockClient as unknown as HackerNewsClient, { intervalSeconds: 30, mode });
+
+  it("should pass updates to the client with the configured mode", async () => {
+    const poller = createPoller("refresh");
+
+    const result = await poller.poll();
+
+    expect(mockClient.getUpdates).toHaveBeenCalledWith({ priority: "bulk" });
+    expect(mockClient.invalidate).toHaveBeenCalledWith({ items: [1, 2], profiles: ["pg"] }, "refresh");
+    expect(result).toEqual({ items: 1, profiles: 1 });
+    expect(poller.getStats()).toMatchObject({ polls: 1, itemsInvalidated: 1, profilesInvalidated: 1 });
+  });
+
+  it("should count failed polls without throwing", async () => {
+    mockClient.getUpdates.mockRejectedValueOnce(new Error("Network error"));
+    const poller = createPoller();
+
+    await expect(poller.poll()).resolves.toEqual({ items: 0, profiles: 0 });
+    expect(poller.getStats()).toMatchObject({ polls: 0, failures: 1 });
+    expect(mockClient.invalidate).not.toHaveBeenCalled();
+  });
+
+  it("should poll on the interval until stopped", async () => {
+    const poller = createPoller();
+    poller.start();
+
+    expect(mockClient.getUpdates).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(mockClient.getUpdates).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(mockClient.getUpdates).toHaveBeenCalledTimes(2);
+
+    await poller.stop();
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(mockClient.getUpdates).toHaveBeenCalledTimes(2);
+  });
+});
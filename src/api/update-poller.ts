@@ -0,0 +1,90 @@
+import { HackerNewsClient, InvalidationMode, InvalidationResult } from "./client.js";
+import { logger } from "../utils/logger.js";
+
+const log = logger.child({ module: "invalidation" });
+
+export interface UpdatePollerOptions {
+  intervalSeconds: number;
+  mode: InvalidationMode;
+}
+
+export interface UpdatePollerStats {
+  polls: number;
+  failures: number;
+  itemsInvalidated: number;
+  profilesInvalidated: number;
+  // Epoch ms of the last successful poll
+  lastPollAt?: number;
+}
+
+// Reads /updates.json on an interval and invalidates the matching cache
+// entries, so long TTLs don't leave stale scores and comment counts behind.
+export class UpdatePoller {
+  private readonly client: HackerNewsClient;
+  private readonly intervalMs: number;
+  private readonly mode: InvalidationMode;
+  private timer?: NodeJS.Timeout;
+  private current?: Promise<void>;
+  private running = false;
+  private stats: UpdatePollerStats = { polls: 0, failures: 0, itemsInvalidated: 0, profilesInvalidated: 0 };
+
+  constructor(client: HackerNewsClient, options: UpdatePollerOptions) {
+    this.client = client;
+    this.intervalMs = Math.max(1, options.intervalSeconds) * 1000;
+    this.mode = options.mode;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.scheduleNext();
+    log.info(`Cache invalidation polling every ${this.intervalMs / 1000}s (${this.mode})`);
+  }
+
+  // Stops the timer and waits for a poll that is already running
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.current;
+  }
+
+  async poll(): Promise<InvalidationResult> {
+    try {
+      const updates = await this.client.getUpdates({ priority: "bulk" });
+      const result = await this.client.invalidate(updates, this.mode);
+
+      this.stats.polls++;
+      this.stats.itemsInvalidated += result.items;
+      this.stats.profilesInvalidated += result.profiles;
+      this.stats.lastPollAt = Date.now();
+      return result;
+    } catch (error) {
+      this.stats.failures++;
+      log.warn("Cache invalidation poll failed:", error);
+      return { items: 0, profiles: 0 };
+    }
+  }
+
+  getStats(): UpdatePollerStats {
+    return { ...this.stats };
+  }
+
+  // Polls are chained rather than run on a fixed interval so a slow poll never overlaps the next
+  private scheduleNext(): void {
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.current = this.poll().then(() => {
+        this.current = undefined;
+        if (this.running) {
+          this.scheduleNext();
+        }
+      });
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+}
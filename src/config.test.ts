@@ -1,6 +1,8 @@
-import { config } from "./config";
+import { ConfigError, loadConfig } from "./config";
 
 describe("Configuration", () => {
+  const config = loadConfig({});
+
   describe("default values", () => {
     it("should have correct default server name", () => {
       expect(config.serverName).toBe("hackernews-mcp-server");
@@ -29,84 +31,138 @@ describe("Configuration", () => {
     it("should have correct default log level", () => {
       expect(config.logging.level).toBe("info");
     });
-  });
-
-  describe("environment variable overrides", () => {
-    const originalEnv = process.env;
 
-    beforeEach(() => {
-      // Reset environment variables
-      process.env = { ...originalEnv };
-    });
-
-    afterEach(() => {
-      // Restore original environment
-      process.env = originalEnv;
+    it("should have correct default retry settings", () => {
+      expect(config.api.retry).toEqual({
+        attempts: 3,
+        baseDelayMs: 1000,
+        maxDelayMs: 30000,
+        jitter: true,
+        retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+        retryableErrors: ["timeout", "network"]
+      });
     });
+  });
 
+  describe("environment variable overrides", () => {
     it("should override server name from environment", () => {
-      process.env.SERVER_NAME = "custom-hn-server";
-
-      // Re-import config to get updated values
-      jest.resetModules();
-      const { config: newConfig } = require("./config");
+      const newConfig = loadConfig({ SERVER_NAME: "custom-hn-server" });
 
       expect(newConfig.serverName).toBe("custom-hn-server");
     });
 
     it("should override server version from environment", () => {
-      process.env.SERVER_VERSION = "2.0.0";
-      
-      jest.resetModules();
-      const { config: newConfig } = require("./config");
-      
+      const newConfig = loadConfig({ SERVER_VERSION: "2.0.0" });
+
       expect(newConfig.serverVersion).toBe("2.0.0");
     });
 
     it("should override API base URL from environment", () => {
-      process.env.HACKERNEWS_API_BASE_URL = "https://custom-api.example.com/v1";
-      
-      jest.resetModules();
-      const { config: newConfig } = require("./config");
-      
+      const newConfig = loadConfig({ HACKERNEWS_API_BASE_URL: "https://custom-api.example.com/v1" });
+
       expect(newConfig.api.baseUrl).toBe("https://custom-api.example.com/v1");
     });
 
     it("should override API timeout from environment", () => {
-      process.env.HACKERNEWS_API_TIMEOUT = "15000";
-      
-      jest.resetModules();
-      const { config: newConfig } = require("./config");
-      
+      const newConfig = loadConfig({ HACKERNEWS_API_TIMEOUT: "15000" });
+
       expect(newConfig.api.timeout).toBe(15000);
     });
 
     it("should override cache TTL from environment", () => {
-      process.env.CACHE_TTL_SECONDS = "600";
-      
-      jest.resetModules();
-      const { config: newConfig } = require("./config");
-      
+      const newConfig = loadConfig({ CACHE_TTL_SECONDS: "600" });
+
       expect(newConfig.cache.ttlSeconds).toBe(600);
     });
 
     it("should override cache max size from environment", () => {
-      process.env.CACHE_MAX_SIZE = "2000";
-      
-      jest.resetModules();
-      const { config: newConfig } = require("./config");
-      
+      const newConfig = loadConfig({ CACHE_MAX_SIZE: "2000" });
+
       expect(newConfig.cache.maxSize).toBe(2000);
     });
 
     it("should override log level from environment", () => {
-      process.env.LOG_LEVEL = "debug";
-      
-      jest.resetModules();
-      const { config: newConfig } = require("./config");
-      
+      const newConfig = loadConfig({ LOG_LEVEL: "debug" });
+
       expect(newConfig.logging.level).toBe("debug");
     });
+
+    it("should parse retry lists and flags", () => {
+      const newConfig = loadConfig({
+        HACKERNEWS_API_RETRY_JITTER: "false",
+        HACKERNEWS_API_RETRY_STATUS_CODES: "429, 503",
+        HACKERNEWS_API_RETRY_ON: "timeout"
+      });
+
+      expect(newConfig.api.retry.jitter).toBe(false);
+      expect(newConfig.api.retry.retryableStatusCodes).toEqual([429, 503]);
+      expect(newConfig.api.retry.retryableErrors).toEqual(["timeout"]);
+    });
+
+    it("should read logging destinations", () => {
+      const newConfig = loadConfig({ LOG_DESTINATION: "stderr,file", LOG_FILE: "/tmp/hn.log", LOG_FILE_MAX_BYTES: "0" });
+
+      expect(newConfig.logging.destinations).toEqual(["stderr", "file"]);
+      expect(newConfig.logging.file).toMatchObject({ path: "/tmp/hn.log", maxBytes: 0 });
+      expect(() => loadConfig({ LOG_DESTINATION: "stdout" })).toThrow("LOG_DESTINATION");
+      expect(loadConfig({ LOG_FORMAT: "JSON" }).logging.format).toBe("json");
+    });
+
+    it("should read the transport settings", () => {
+      const newConfig = loadConfig({
+        MCP_TRANSPORT: "HTTP",
+        MCP_HTTP_PORT: "8080",
+        MCP_HTTP_HOST: "0.0.0.0",
+        MCP_ALLOWED_ORIGINS: "https://a.example, https://b.example",
+      });
+
+      expect(newConfig.transport).toMatchObject({
+        mode: "http",
+        http: { port: 8080, host: "0.0.0.0", allowedOrigins: ["https://a.example", "https://b.example"] },
+      });
+      expect(loadConfig({}).transport.mode).toBe("stdio");
+      expect(() => loadConfig({ MCP_TRANSPORT: "sse" })).toThrow("MCP_TRANSPORT");
+      expect(() => loadConfig({ MCP_ALLOWED_ORIGINS: "example.com" })).toThrow("MCP_ALLOWED_ORIGINS");
+    });
+
+    it("should read the HTTP auth settings", () => {
+      const newConfig = loadConfig({
+        MCP_API_KEYS: "key-one, key-two",
+        MCP_JWKS_FILE: "/etc/hn/jwks.json",
+        MCP_JWT_AUDIENCE: "hackernews-mcp",
+      });
+
+      expect(newConfig.transport.http.auth).toEqual({
+        apiKeys: ["key-one", "key-two"],
+        apiKeysFile: undefined,
+        jwksFile: "/etc/hn/jwks.json",
+        jwtIssuer: undefined,
+        jwtAudience: "hackernews-mcp",
+      });
+      expect(loadConfig({}).transport.http.auth.apiKeys).toEqual([]);
+      expect(loadConfig({}).transport.http.probeIntervalSeconds).toBe(30);
+      expect(loadConfig({}).transport.http.sessionIdleSeconds).toBe(1800);
+      expect(loadConfig({ MCP_HTTP_SESSION_IDLE_SECONDS: "0" }).transport.http.sessionIdleSeconds).toBe(0);
+      expect(() => loadConfig({ HEALTH_PROBE_INTERVAL_SECONDS: "0" })).toThrow("HEALTH_PROBE_INTERVAL_SECONDS");
+    });
+
+    it("should read the subscription poll interval", () => {
+      expect(loadConfig({}).subscriptions.intervalSeconds).toBe(30);
+      expect(loadConfig({ RESOURCE_WATCH_INTERVAL_SECONDS: "5" }).subscriptions.intervalSeconds).toBe(5);
+      expect(() => loadConfig({ RESOURCE_WATCH_INTERVAL_SECONDS: "0" })).toThrow("RESOURCE_WATCH_INTERVAL_SECONDS");
+    });
+
+    it("should read the shutdown deadline", () => {
+      expect(loadConfig({}).shutdown.timeoutMs).toBe(10000);
+      expect(loadConfig({ SHUTDOWN_TIMEOUT_MS: "0" }).shutdown.timeoutMs).toBe(0);
+      expect(() => loadConfig({ SHUTDOWN_TIMEOUT_MS: "-1" })).toThrow("SHUTDOWN_TIMEOUT_MS");
+    });
+
+    it("should read fractional request rates", () => {
+      const newConfig = loadConfig({ HACKERNEWS_API_REQUESTS_PER_SECOND: "0.5" });
+
+      expect(newConfig.api.requestsPerSecond).toBe(0.5);
+    });
   });
 
   describe("type safety", () => {
@@ -135,37 +191,24 @@ describe("Configuration", () => {
   });
 
   describe("validation", () => {
-    it("should handle invalid numeric environment variables", () => {
-      process.env.HACKERNEWS_API_TIMEOUT = "invalid";
-      
-      jest.resetModules();
-      const { config: newConfig } = require("./config");
-      
-      // Should fall back to default or result in NaN
-      expect(typeof newConfig.api.timeout).toBe("number");
+    it("should reject invalid numeric environment variables", () => {
+      expect(() => loadConfig({ HACKERNEWS_API_TIMEOUT: "invalid" })).toThrow(ConfigError);
+      expect(() => loadConfig({ HACKERNEWS_API_TIMEOUT: "invalid" })).toThrow(
+        'HACKERNEWS_API_TIMEOUT="invalid" must be an integer'
+      );
     });
 
     it("should handle empty environment variables", () => {
-      process.env.LOG_LEVEL = "";
-      
-      jest.resetModules();
-      const { config: newConfig } = require("./config");
-      
+      const newConfig = loadConfig({ LOG_LEVEL: "", CACHE_TTL_SECONDS: " " });
+
       // Should use defaults for empty strings
-      expect(newConfig.logging.level).toBeTruthy();
+      expect(newConfig.logging.level).toBe("info");
+      expect(newConfig.cache.ttlSeconds).toBe(300);
     });
 
     it("should handle missing environment variables gracefully", () => {
-      // Clear all HN-related env vars
-      delete process.env.HACKERNEWS_API_BASE_URL;
-      delete process.env.HACKERNEWS_API_TIMEOUT;
-      delete process.env.CACHE_TTL_SECONDS;
-      delete process.env.CACHE_MAX_SIZE;
-      delete process.env.LOG_LEVEL;
-      
-      jest.resetModules();
-      const { config: newConfig } = require("./config");
-      
+      const newConfig = loadConfig({});
+
       // Should use all defaults
       expect(newConfig.api.baseUrl).toBe("https://hacker-news.firebaseio.com/v0");
       expect(newConfig.api.timeout).toBe(10000);
@@ -173,46 +216,75 @@ describe("Configuration", () => {
       expect(newConfig.cache.maxSize).toBe(1000);
       expect(newConfig.logging.level).toBe("info");
     });
+
+    it("should reject unknown log levels", () => {
+      expect(() => loadConfig({ LOG_LEVEL: "verbose" })).toThrow(
+        'LOG_LEVEL="verbose" must be one of debug, info, warn, error'
+      );
+    });
+
+    it("should reject invalid URLs and retry settings", () => {
+      expect(() => loadConfig({ HACKERNEWS_API_BASE_URL: "not a url" })).toThrow("HACKERNEWS_API_BASE_URL");
+      expect(() => loadConfig({ HACKERNEWS_API_RETRY_STATUS_CODES: "429,abc" })).toThrow("HACKERNEWS_API_RETRY_STATUS_CODES");
+      expect(() => loadConfig({ HACKERNEWS_API_RETRY_ON: "timeout,dns" })).toThrow("HACKERNEWS_API_RETRY_ON");
+      expect(() => loadConfig({ HACKERNEWS_API_RETRY_JITTER: "maybe" })).toThrow("HACKERNEWS_API_RETRY_JITTER");
+    });
+
+    it("should reject a minimum item TTL above the maximum", () => {
+      expect(() => loadConfig({ CACHE_ITEM_MIN_TTL_SECONDS: "100", CACHE_ITEM_MAX_TTL_SECONDS: "10" })).toThrow(
+        "CACHE_ITEM_MIN_TTL_SECONDS=\"100\" must not exceed CACHE_ITEM_MAX_TTL_SECONDS"
+      );
+    });
+
+    it("should report every invalid variable at once", () => {
+      try {
+        loadConfig({ HACKERNEWS_API_TIMEOUT: "soon", CACHE_MAX_SIZE: "lots" });
+        fail("expected loadConfig to throw");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConfigError);
+        expect((error as ConfigError).issues).toHaveLength(2);
+        expect((error as ConfigError).message).toContain("HACKERNEWS_API_TIMEOUT");
+        expect((error as ConfigError).message).toContain("CACHE_MAX_SIZE");
+      }
+    });
   });
 
   describe("configuration structure", () => {
     it("should have the expected structure", () => {
       expect(config).toHaveProperty("serverName");
       expect(config).toHaveProperty("serverVersion");
+      expect(config).toHaveProperty("transport");
       expect(config).toHaveProperty("api");
       expect(config).toHaveProperty("cache");
       expect(config).toHaveProperty("logging");
-      
+
       expect(config.api).toHaveProperty("baseUrl");
       expect(config.api).toHaveProperty("timeout");
-      
+
       expect(config.cache).toHaveProperty("ttlSeconds");
       expect(config.cache).toHaveProperty("maxSize");
-      
+
       expect(config.logging).toHaveProperty("level");
     });
 
-    it("should be immutable at runtime", () => {
-      // Note: This test may not work as expected since JavaScript objects are mutable by default
-      // In a real implementation, you might use Object.freeze() or similar
-      expect(() => {
-        // @ts-expect-error - Testing runtime immutability
-        config.serverName = "modified";
-      }).not.toThrow(); // This will pass since objects are mutable
+    it("should return a fresh object on every load", () => {
+      const first = loadConfig({});
+      first.serverName = "modified";
+
+      expect(loadConfig({}).serverName).toBe("hackernews-mcp-server");
     });
   });
 
   describe("realistic configurations", () => {
     it("should handle production-like configuration", () => {
-      process.env.SERVER_NAME = "hn-mcp-prod";
-      process.env.HACKERNEWS_API_TIMEOUT = "30000";
-      process.env.CACHE_TTL_SECONDS = "600";
-      process.env.CACHE_MAX_SIZE = "5000";
-      process.env.LOG_LEVEL = "warn";
-      
-      jest.resetModules();
-      const { config: newConfig } = require("./config");
-      
+      const newConfig = loadConfig({
+        SERVER_NAME: "hn-mcp-prod",
+        HACKERNEWS_API_TIMEOUT: "30000",
+        CACHE_TTL_SECONDS: "600",
+        CACHE_MAX_SIZE: "5000",
+        LOG_LEVEL: "warn"
+      });
+
       expect(newConfig.serverName).toBe("hn-mcp-prod");
       expect(newConfig.api.timeout).toBe(30000);
       expect(newConfig.cache.ttlSeconds).toBe(600);
@@ -221,16 +293,15 @@ describe("Configuration", () => {
     });
 
     it("should handle development-like configuration", () => {
-      process.env.SERVER_NAME = "hn-mcp-dev";
-      process.env.HACKERNEWS_API_BASE_URL = "http://localhost:3000/api/v0";
-      process.env.HACKERNEWS_API_TIMEOUT = "5000";
-      process.env.CACHE_TTL_SECONDS = "60";
-      process.env.CACHE_MAX_SIZE = "100";
-      process.env.LOG_LEVEL = "debug";
-      
-      jest.resetModules();
-      const { config: newConfig } = require("./config");
-      
+      const newConfig = loadConfig({
+        SERVER_NAME: "hn-mcp-dev",
+        HACKERNEWS_API_BASE_URL: "http://localhost:3000/api/v0",
+        HACKERNEWS_API_TIMEOUT: "5000",
+        CACHE_TTL_SECONDS: "60",
+        CACHE_MAX_SIZE: "100",
+        LOG_LEVEL: "debug"
+      });
+
       expect(newConfig.serverName).toBe("hn-mcp-dev");
       expect(newConfig.api.baseUrl).toBe("http://localhost:3000/api/v0");
       expect(newConfig.api.timeout).toBe(5000);
@@ -242,55 +313,45 @@ describe("Configuration", () => {
 
   describe("edge cases", () => {
     it("should handle very large numeric values", () => {
-      process.env.HACKERNEWS_API_TIMEOUT = "999999999";
-      process.env.CACHE_TTL_SECONDS = "86400";
-      process.env.CACHE_MAX_SIZE = "1000000";
-      
-      jest.resetModules();
-      const { config: newConfig } = require("./config");
-      
+      const newConfig = loadConfig({
+        HACKERNEWS_API_TIMEOUT: "999999999",
+        CACHE_TTL_SECONDS: "86400",
+        CACHE_MAX_SIZE: "1000000"
+      });
+
       expect(newConfig.api.timeout).toBe(999999999);
       expect(newConfig.cache.ttlSeconds).toBe(86400);
       expect(newConfig.cache.maxSize).toBe(1000000);
     });
 
-    it("should handle zero values", () => {
-      process.env.HACKERNEWS_API_TIMEOUT = "0";
-      process.env.CACHE_TTL_SECONDS = "0";
-      process.env.CACHE_MAX_SIZE = "0";
-      
-      jest.resetModules();
-      const { config: newConfig } = require("./config");
-      
-      expect(newConfig.api.timeout).toBe(0);
+    it("should allow zero to disable caching but not as a timeout", () => {
+      const newConfig = loadConfig({ CACHE_TTL_SECONDS: "0", CACHE_MAX_SIZE: "0" });
+
       expect(newConfig.cache.ttlSeconds).toBe(0);
       expect(newConfig.cache.maxSize).toBe(0);
+      expect(() => loadConfig({ HACKERNEWS_API_TIMEOUT: "0" })).toThrow(
+        'HACKERNEWS_API_TIMEOUT="0" must be at least 1'
+      );
     });
 
-    it("should handle negative values", () => {
-      process.env.HACKERNEWS_API_TIMEOUT = "-1000";
-      process.env.CACHE_TTL_SECONDS = "-300";
-      process.env.CACHE_MAX_SIZE = "-100";
-      
-      jest.resetModules();
-      const { config: newConfig } = require("./config");
-      
-      expect(newConfig.api.timeout).toBe(-1000);
-      expect(newConfig.cache.ttlSeconds).toBe(-300);
-      expect(newConfig.cache.maxSize).toBe(-100);
+    it("should reject negative values", () => {
+      expect(() => loadConfig({
+        HACKERNEWS_API_TIMEOUT: "-1000",
+        CACHE_TTL_SECONDS: "-300",
+        CACHE_MAX_SIZE: "-100"
+      })).toThrow(/HACKERNEWS_API_TIMEOUT[\s\S]*CACHE_TTL_SECONDS[\s\S]*CACHE_MAX_SIZE/);
     });
 
     it("should handle special string values", () => {
-      process.env.SERVER_NAME = "server-with-special-chars-123_test";
-      process.env.HACKERNEWS_API_BASE_URL = "https://api.example.com/v1/hackernews";
-      process.env.LOG_LEVEL = "ERROR"; // Different case
-      
-      jest.resetModules();
-      const { config: newConfig } = require("./config");
-      
+      const newConfig = loadConfig({
+        SERVER_NAME: "server-with-special-chars-123_test",
+        HACKERNEWS_API_BASE_URL: "https://api.example.com/v1/hackernews",
+        LOG_LEVEL: "ERROR" // Different case
+      });
+
       expect(newConfig.serverName).toBe("server-with-special-chars-123_test");
       expect(newConfig.api.baseUrl).toBe("https://api.example.com/v1/hackernews");
-      expect(newConfig.logging.level).toBe("ERROR");
+      expect(newConfig.logging.level).toBe("error");
     });
   });
-}); 
\ No newline at end of file
+});
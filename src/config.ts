@@ -1,23 +1,248 @@
 import { config as dotenvConfig } from "dotenv";
+import { z } from "zod";
+import { MCP_LOG_LEVELS } from "./utils/log-sinks.js";
 
 // Load environment variables
 dotenvConfig();
 
-export const config = {
-  serverName: process.env.SERVER_NAME || "hackernews-mcp-server",
-  serverVersion: process.env.SERVER_VERSION || "1.0.0",
-  
-  api: {
-    baseUrl: process.env.HACKERNEWS_API_BASE_URL || "https://hacker-news.firebaseio.com/v0",
-    timeout: parseInt(process.env.HACKERNEWS_API_TIMEOUT || "10000", 10),
-  },
-  
-  cache: {
-    ttlSeconds: parseInt(process.env.CACHE_TTL_SECONDS || "300", 10),
-    maxSize: parseInt(process.env.CACHE_MAX_SIZE || "1000", 10),
-  },
-  
-  logging: {
-    level: process.env.LOG_LEVEL || "info",
-  },
-} as const; 
\ No newline at end of file
+export class ConfigError extends Error {
+  constructor(message: string, public readonly issues: string[]) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+// Unset and empty variables both fall back to the default
+const blankToUndefined = (value: unknown) =>
+  typeof value === "string" && value.trim() === "" ? undefined : value;
+
+const integer = (min: number, defaultValue: number) =>
+  z.preprocess(
+    blankToUndefined,
+    z
+      .string()
+      .trim()
+      .regex(/^-?\d+$/, { message: "must be an integer" })
+      .transform(Number)
+      .pipe(z.number().min(min, { message: `must be at least ${min}` }))
+      .default(String(defaultValue))
+  );
+
+const decimal = (min: number, defaultValue: number) =>
+  z.preprocess(
+    blankToUndefined,
+    z
+      .string()
+      .trim()
+      .regex(/^-?\d+(\.\d+)?$/, { message: "must be a number" })
+      .transform(Number)
+      .pipe(z.number().min(min, { message: `must be at least ${min}` }))
+      .default(String(defaultValue))
+  );
+
+const boolean = (defaultValue: boolean) =>
+  z.preprocess(
+    blankToUndefined,
+    z
+      .enum(["true", "false", "1", "0"], { message: "must be true or false" })
+      .transform(value => value === "true" || value === "1")
+      .default(defaultValue ? "true" : "false")
+  );
+
+// Case-insensitive so LOG_LEVEL=WARN works the same as warn
+const choice = <const T extends string>(values: [T, ...T[]], defaultValue: T) =>
+  z.preprocess(
+    value => {
+      const blank = blankToUndefined(value);
+      return typeof blank === "string" ? blank.trim().toLowerCase() : blank;
+    },
+    z.enum(values, { message: `must be one of ${values.join(", ")}` }).default(defaultValue)
+  );
+
+const list = <T extends z.ZodTypeAny>(item: T, defaultValue: string) =>
+  z.preprocess(
+    blankToUndefined,
+    z
+      .string()
+      .default(defaultValue)
+      .transform(value => value.split(",").map(part => part.trim()).filter(Boolean))
+      .pipe(z.array(item))
+  );
+
+const text = (defaultValue: string) => z.preprocess(blankToUndefined, z.string().default(defaultValue));
+
+const envSchema = z.object({
+  SERVER_NAME: text("hackernews-mcp-server"),
+  SERVER_VERSION: text("1.0.0"),
+
+  MCP_TRANSPORT: choice(["stdio", "http"], "stdio"),
+  MCP_HTTP_PORT: integer(0, 3000),
+  MCP_HTTP_HOST: text("127.0.0.1"),
+  MCP_ALLOWED_ORIGINS: list(z.string().url({ message: "must list origins such as https://example.com" }), ""),
+  MCP_API_KEYS: list(z.string(), ""),
+  MCP_API_KEYS_FILE: z.preprocess(blankToUndefined, z.string().optional()),
+  MCP_JWKS_FILE: z.preprocess(blankToUndefined, z.string().optional()),
+  MCP_JWT_ISSUER: z.preprocess(blankToUndefined, z.string().optional()),
+  MCP_JWT_AUDIENCE: z.preprocess(blankToUndefined, z.string().optional()),
+  MCP_HTTP_SESSION_IDLE_SECONDS: integer(0, 1800),
+  HEALTH_PROBE_INTERVAL_SECONDS: integer(1, 30),
+
+  HACKERNEWS_API_BASE_URL: z.preprocess(
+    blankToUndefined,
+    z.string().url({ message: "must be a URL" }).default("https://hacker-news.firebaseio.com/v0")
+  ),
+  HACKERNEWS_API_TIMEOUT: integer(1, 10000),
+  HACKERNEWS_API_RETRY_ATTEMPTS: integer(1, 3),
+  HACKERNEWS_API_RETRY_DELAY: integer(0, 1000),
+  HACKERNEWS_API_RETRY_MAX_DELAY: integer(0, 30000),
+  HACKERNEWS_API_RETRY_JITTER: boolean(true),
+  HACKERNEWS_API_RETRY_STATUS_CODES: list(
+    z.string().regex(/^[1-5]\d\d$/, { message: "must be HTTP status codes" }).transform(Number),
+    "408,429,500,502,503,504"
+  ),
+  HACKERNEWS_API_RETRY_ON: list(
+    z.enum(["timeout", "network"], { message: "must list timeout and/or network" }),
+    "timeout,network"
+  ),
+  HACKERNEWS_API_MAX_CONCURRENCY: integer(1, 10),
+  HACKERNEWS_API_REQUESTS_PER_SECOND: decimal(0, 20),
+
+  CACHE_TTL_SECONDS: integer(0, 300),
+  CACHE_MAX_SIZE: integer(0, 1000),
+  CACHE_MAX_BYTES: integer(0, 0),
+  CACHE_DIR: z.preprocess(blankToUndefined, z.string().optional()),
+  CACHE_TTL_POLICY: choice(["age", "fixed"], "age"),
+  CACHE_ITEM_MIN_TTL_SECONDS: integer(0, 15),
+  CACHE_ITEM_MAX_TTL_SECONDS: integer(0, 604800),
+  CACHE_LIST_TTL_SECONDS: integer(0, 60),
+  CACHE_STALE_SECONDS: integer(0, 300),
+  CACHE_INVALIDATION_INTERVAL_SECONDS: integer(0, 0),
+  CACHE_INVALIDATION_MODE: choice(["evict", "refresh"], "evict"),
+
+  RESOURCE_WATCH_INTERVAL_SECONDS: integer(1, 30),
+
+  SHUTDOWN_TIMEOUT_MS: integer(0, 10000),
+
+  LOG_LEVEL: choice(["debug", "info", "warn", "error"], "info"),
+  LOG_FORMAT: choice(["text", "json"], "text"),
+  LOG_DESTINATION: list(
+    z.enum(["stderr", "file", "mcp"], { message: "must list stderr, file and/or mcp" }),
+    "stderr,mcp"
+  ),
+  // Minimum level sent to MCP clients until they call logging/setLevel
+  LOG_MCP_LEVEL: choice([...MCP_LOG_LEVELS], "warning"),
+  LOG_FILE: text("logs/hackernews-mcp.log"),
+  LOG_FILE_MAX_BYTES: integer(0, 10485760),
+  LOG_FILE_MAX_FILES: integer(1, 5),
+}).superRefine((env, ctx) => {
+  if (env.CACHE_ITEM_MIN_TTL_SECONDS > env.CACHE_ITEM_MAX_TTL_SECONDS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["CACHE_ITEM_MIN_TTL_SECONDS"],
+      message: "must not exceed CACHE_ITEM_MAX_TTL_SECONDS",
+    });
+  }
+});
+
+// Validates the environment and maps it onto the shape the server uses.
+// Throws a ConfigError naming every invalid variable.
+export function loadConfig(env: Env = process.env) {
+  const result = envSchema.safeParse(env);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => {
+      const name = String(issue.path[0]);
+      return `${name}=${JSON.stringify(env[name] ?? "")} ${issue.message}`;
+    });
+    throw new ConfigError(`Invalid configuration:\n  ${issues.join("\n  ")}`, issues);
+  }
+
+  const vars = result.data;
+  return {
+    serverName: vars.SERVER_NAME,
+    serverVersion: vars.SERVER_VERSION,
+
+    transport: {
+      mode: vars.MCP_TRANSPORT,
+      http: {
+        port: vars.MCP_HTTP_PORT,
+        host: vars.MCP_HTTP_HOST,
+        // Empty accepts browser requests from localhost pages only
+        allowedOrigins: vars.MCP_ALLOWED_ORIGINS,
+        // With no keys and no JWKS file the HTTP endpoint is unauthenticated
+        auth: {
+          apiKeys: vars.MCP_API_KEYS,
+          apiKeysFile: vars.MCP_API_KEYS_FILE,
+          jwksFile: vars.MCP_JWKS_FILE,
+          jwtIssuer: vars.MCP_JWT_ISSUER,
+          jwtAudience: vars.MCP_JWT_AUDIENCE,
+        },
+        // Closes sessions left without an open request or stream this long (0 never does)
+        sessionIdleSeconds: vars.MCP_HTTP_SESSION_IDLE_SECONDS,
+        // How often /readyz re-checks that maxitem.json answers
+        probeIntervalSeconds: vars.HEALTH_PROBE_INTERVAL_SECONDS,
+      },
+    },
+
+    api: {
+      baseUrl: vars.HACKERNEWS_API_BASE_URL,
+      timeout: vars.HACKERNEWS_API_TIMEOUT,
+      retry: {
+        attempts: vars.HACKERNEWS_API_RETRY_ATTEMPTS,
+        baseDelayMs: vars.HACKERNEWS_API_RETRY_DELAY,
+        maxDelayMs: vars.HACKERNEWS_API_RETRY_MAX_DELAY,
+        jitter: vars.HACKERNEWS_API_RETRY_JITTER,
+        retryableStatusCodes: vars.HACKERNEWS_API_RETRY_STATUS_CODES,
+        retryableErrors: vars.HACKERNEWS_API_RETRY_ON,
+      },
+      maxConcurrency: vars.HACKERNEWS_API_MAX_CONCURRENCY,
+      requestsPerSecond: vars.HACKERNEWS_API_REQUESTS_PER_SECOND,
+    },
+
+    cache: {
+      ttlSeconds: vars.CACHE_TTL_SECONDS,
+      maxSize: vars.CACHE_MAX_SIZE,
+      maxBytes: vars.CACHE_MAX_BYTES,
+      persistDir: vars.CACHE_DIR,
+      ttlPolicy: {
+        mode: vars.CACHE_TTL_POLICY,
+        minItemTtlSeconds: vars.CACHE_ITEM_MIN_TTL_SECONDS,
+        maxItemTtlSeconds: vars.CACHE_ITEM_MAX_TTL_SECONDS,
+        listTtlSeconds: vars.CACHE_LIST_TTL_SECONDS,
+      },
+      // Expired items and story lists are served this long while a refresh runs
+      staleSeconds: vars.CACHE_STALE_SECONDS,
+      invalidation: {
+        // 0 disables polling /updates.json
+        intervalSeconds: vars.CACHE_INVALIDATION_INTERVAL_SECONDS,
+        mode: vars.CACHE_INVALIDATION_MODE,
+      },
+    },
+
+    subscriptions: {
+      // How often subscribed resources are checked for changes
+      intervalSeconds: vars.RESOURCE_WATCH_INTERVAL_SECONDS,
+    },
+
+    shutdown: {
+      // In-flight tool calls get this long to finish before they are aborted
+      timeoutMs: vars.SHUTDOWN_TIMEOUT_MS,
+    },
+
+    logging: {
+      level: vars.LOG_LEVEL,
+      format: vars.LOG_FORMAT,
+      destinations: vars.LOG_DESTINATION,
+      mcpLevel: vars.LOG_MCP_LEVEL,
+      file: {
+        path: vars.LOG_FILE,
+        // 0 appends to a single file without rotating
+        maxBytes: vars.LOG_FILE_MAX_BYTES,
+        maxFiles: vars.LOG_FILE_MAX_FILES,
+      },
+    },
+  };
+}
+
+export type Config = ReturnType<typeof loadConfig>;
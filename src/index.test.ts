@@ -1,8 +1,22 @@
+// Mock node-fetch so the client module loads without the ESM build
+jest.mock("node-fetch", () => jest.fn());
+
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp";
 import { HackerNewsClient } from "./api/client";
+import { loadConfig } from "./config";
 import { setupResources } from "./resources/index";
 import { setupTools } from "./tools/index";
 import { setupPrompts } from "./prompts/index";
+import { logger } from "./utils/logger";
+import {
+  createMockItem,
+  createMockUser,
+  createMockStoryWithMetadata,
+  createMockUserWithStats,
+  createMockComment,
+  createMockCacheStats,
+  createMockCommentTree
+} from "./test-helpers";
 
 // Mock the dependencies
 jest.mock("@modelcontextprotocol/sdk/server/mcp");
@@ -17,9 +31,23 @@ const mockSetupResources = setupResources as jest.MockedFunction<typeof setupRes
 const mockSetupTools = setupTools as jest.MockedFunction<typeof setupTools>;
 const mockSetupPrompts = setupPrompts as jest.MockedFunction<typeof setupPrompts>;
 
+// The modules above are mocked; the end-to-end tests register the real components
+const real = {
+  setupResources: jest.requireActual<typeof import("./resources/index")>("./resources/index").setupResources,
+  setupTools: jest.requireActual<typeof import("./tools/index")>("./tools/index").setupTools,
+  setupPrompts: jest.requireActual<typeof import("./prompts/index")>("./prompts/index").setupPrompts
+};
+
+const createMockFrontPage = () => ({
+  stories: jest.fn().mockResolvedValue([]),
+  watch: jest.fn(),
+  close: jest.fn()
+});
+
 describe("HackerNews MCP Server Integration", () => {
   let mockServer: jest.Mocked<McpServer>;
   let mockClient: jest.Mocked<HackerNewsClient>;
+  let mockFrontPage: ReturnType<typeof createMockFrontPage>;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -36,16 +64,14 @@ describe("HackerNews MCP Server Integration", () => {
     MockedMcpServer.mockImplementation(() => mockServer);
 
     // Mock HackerNewsClient instance
-    mockClient = {
-      getItem: jest.fn(),
-      getUser: jest.fn(),
-      getTopStories: jest.fn(),
-      searchStories: jest.fn(),
-      getCacheStats: jest.fn(),
-      clearCache: jest.fn()
-    } as any;
-
+    MockedHackerNewsClient.mockReset();
+    mockClient = new MockedHackerNewsClient({
+      baseUrl: "https://test.com",
+      timeout: 5000
+    }) as jest.Mocked<HackerNewsClient>;
+    MockedHackerNewsClient.mockClear();
     MockedHackerNewsClient.mockImplementation(() => mockClient);
+    mockFrontPage = createMockFrontPage();
 
     // Mock setup functions
     mockSetupResources.mockResolvedValue(undefined);
@@ -54,9 +80,7 @@ describe("HackerNews MCP Server Integration", () => {
   });
 
   describe("server initialization", () => {
-    it("should create MCP server with correct configuration", async () => {
-      const { main } = await import("./index");
-      
+    it("should create MCP server with correct configuration", () => {
       // Mock process.argv to simulate CLI usage
       const originalArgv = process.argv;
       process.argv = ["node", "dist/index.js"];
@@ -89,11 +113,11 @@ describe("HackerNews MCP Server Integration", () => {
   describe("component integration", () => {
     it("should setup all MCP components", async () => {
       // Simulate the setup process
-      await setupResources(mockServer, mockClient);
+      await setupResources(mockServer, mockClient, mockFrontPage);
       await setupTools(mockServer, mockClient);
       await setupPrompts(mockServer, mockClient);
 
-      expect(mockSetupResources).toHaveBeenCalledWith(mockServer, mockClient);
+      expect(mockSetupResources).toHaveBeenCalledWith(mockServer, mockClient, mockFrontPage);
       expect(mockSetupTools).toHaveBeenCalledWith(mockServer, mockClient);
       expect(mockSetupPrompts).toHaveBeenCalledWith(mockServer, mockClient);
     });
@@ -101,57 +125,38 @@ describe("HackerNews MCP Server Integration", () => {
     it("should handle setup errors gracefully", async () => {
       mockSetupResources.mockRejectedValue(new Error("Resource setup failed"));
 
-      await expect(setupResources(mockServer, mockClient)).rejects.toThrow("Resource setup failed");
+      await expect(setupResources(mockServer, mockClient, mockFrontPage)).rejects.toThrow("Resource setup failed");
     });
   });
 
   describe("end-to-end workflows", () => {
-    beforeEach(() => {
-      // Reset mocks to their original implementations for e2e tests
-      jest.unmock("./resources/index");
-      jest.unmock("./tools/index");
-      jest.unmock("./prompts/index");
-    });
-
-    afterEach(() => {
-      // Re-mock for other tests
-      jest.mock("./resources/index");
-      jest.mock("./tools/index");
-      jest.mock("./prompts/index");
-    });
-
     it("should support complete story analysis workflow", async () => {
-      const mockStory = {
-        id: 123,
+      const mockStory = createMockStoryWithMetadata({
         title: "Revolutionary AI Development",
         by: "researcher",
         score: 300,
         commentCount: 75,
         ageHours: 4,
         url: "https://example.com/ai-dev",
-        domain: "example.com",
         text: "Breakthrough in AI technology..."
-      };
+      });
 
       const mockComments = [
-        { id: 456, by: "expert1", text: "This is groundbreaking work!" },
-        { id: 789, by: "expert2", text: "I have some concerns about the methodology." }
+        createMockComment({ id: 456, by: "expert1", text: "This is groundbreaking work!" }),
+        createMockComment({ id: 789, by: "expert2", text: "I have some concerns about the methodology." })
       ];
 
       mockClient.getStoryWithMetadata.mockResolvedValue(mockStory);
-      mockClient.getCommentTree.mockResolvedValue(mockComments);
+      mockClient.getCommentTree.mockResolvedValue(createMockCommentTree(123, mockComments));
 
       // Test resource access
-      const { setupResources: realSetupResources } = await import("./resources/index");
-      await realSetupResources(mockServer, mockClient);
+      await real.setupResources(mockServer, mockClient, mockFrontPage);
 
       // Test tool execution
-      const { setupTools: realSetupTools } = await import("./tools/index");
-      await realSetupTools(mockServer, mockClient);
+      await real.setupTools(mockServer, mockClient);
 
       // Test prompt generation
-      const { setupPrompts: realSetupPrompts } = await import("./prompts/index");
-      await realSetupPrompts(mockServer, mockClient);
+      await real.setupPrompts(mockServer, mockClient);
 
       // Verify all components were set up
       expect(mockServer.registerResource).toHaveBeenCalled();
@@ -160,35 +165,31 @@ describe("HackerNews MCP Server Integration", () => {
     });
 
     it("should support user analysis workflow", async () => {
-      const mockUser = {
+      const mockUser = createMockUser({
         id: "techexpert",
         karma: 2500,
         created: 1577836800,
         about: "AI researcher",
         submitted: [123, 456, 789]
-      };
+      });
 
-      const mockUserStats = {
+      const mockUserStats = createMockUserWithStats({
         ...mockUser,
         averageScore: 150,
         topStories: [
-          { id: 123, title: "AI Paper", score: 300, descendants: 50 }
+          createMockItem({ id: 123, title: "AI Paper", score: 300, descendants: 50 })
         ],
         recentActivity: [
-          { id: 456, type: "comment", text: "Great insight!", score: 25 }
+          createMockComment({ id: 456, text: "Great insight!", score: 25 })
         ]
-      };
+      });
 
       mockClient.getUser.mockResolvedValue(mockUser);
       mockClient.getUserWithStats.mockResolvedValue(mockUserStats);
 
-      const { setupResources: realSetupResources } = await import("./resources/index");
-      const { setupTools: realSetupTools } = await import("./tools/index");
-      const { setupPrompts: realSetupPrompts } = await import("./prompts/index");
-
-      await realSetupResources(mockServer, mockClient);
-      await realSetupTools(mockServer, mockClient);
-      await realSetupPrompts(mockServer, mockClient);
+      await real.setupResources(mockServer, mockClient, mockFrontPage);
+      await real.setupTools(mockServer, mockClient);
+      await real.setupPrompts(mockServer, mockClient);
 
       // Verify user-related functionality is available
       expect(mockServer.registerResource).toHaveBeenCalled();
@@ -199,21 +200,19 @@ describe("HackerNews MCP Server Integration", () => {
     it("should support trending analysis workflow", async () => {
       const mockStoryIds = [123, 456, 789, 101, 102];
       const mockStories = [
-        { id: 123, type: "story", title: "AI Breakthrough", by: "researcher1" },
-        { id: 456, type: "story", title: "Machine Learning Update", by: "researcher2" },
-        { id: 789, type: "story", title: "Deep Learning Advances", by: "researcher3" },
-        { id: 101, type: "story", title: "Neural Network Innovation", by: "researcher4" },
-        { id: 102, type: "story", title: "AI Ethics Discussion", by: "ethicist" }
+        createMockItem({ id: 123, title: "AI Breakthrough", by: "researcher1" }),
+        createMockItem({ id: 456, title: "Machine Learning Update", by: "researcher2" }),
+        createMockItem({ id: 789, title: "Deep Learning Advances", by: "researcher3" }),
+        createMockItem({ id: 101, title: "Neural Network Innovation", by: "researcher4" }),
+        createMockItem({ id: 102, title: "AI Ethics Discussion", by: "ethicist" })
       ];
 
       mockClient.getTopStories.mockResolvedValue(mockStoryIds);
       mockClient.getMultipleItems.mockResolvedValue(mockStories);
 
-      const { setupTools: realSetupTools } = await import("./tools/index");
-      const { setupPrompts: realSetupPrompts } = await import("./prompts/index");
 
-      await realSetupTools(mockServer, mockClient);
-      await realSetupPrompts(mockServer, mockClient);
+      await real.setupTools(mockServer, mockClient);
+      await real.setupPrompts(mockServer, mockClient);
 
       // Verify trending analysis tools and prompts are available
       expect(mockServer.registerTool).toHaveBeenCalled();
@@ -238,8 +237,7 @@ describe("HackerNews MCP Server Integration", () => {
     it("should handle network connectivity issues", async () => {
       mockClient.getTopStories.mockRejectedValue(new Error("Network error"));
 
-      const { setupResources: realSetupResources } = await import("./resources/index");
-      await realSetupResources(mockServer, mockClient);
+      await real.setupResources(mockServer, mockClient, mockFrontPage);
 
       // The setup should succeed even if the client has network issues
       expect(mockServer.registerResource).toHaveBeenCalled();
@@ -247,8 +245,7 @@ describe("HackerNews MCP Server Integration", () => {
 
     it("should handle partial component failures", async () => {
       // Simulate resources setup succeeding but tools failing
-      const { setupResources: realSetupResources } = await import("./resources/index");
-      await realSetupResources(mockServer, mockClient);
+      await real.setupResources(mockServer, mockClient, mockFrontPage);
       expect(mockServer.registerResource).toHaveBeenCalled();
 
       // Tools setup fails
@@ -262,59 +259,39 @@ describe("HackerNews MCP Server Integration", () => {
 
   describe("configuration and environment", () => {
     it("should respect environment configuration", () => {
-      const originalEnv = process.env;
-      
-      try {
-        process.env.HACKERNEWS_API_BASE_URL = "https://custom-api.example.com";
-        process.env.HACKERNEWS_API_TIMEOUT = "15000";
-        process.env.CACHE_TTL_SECONDS = "600";
-
-        // Re-import config to get updated values
-        jest.resetModules();
-        const { config } = require("./config");
+      const config = loadConfig({
+        HACKERNEWS_API_BASE_URL: "https://custom-api.example.com",
+        HACKERNEWS_API_TIMEOUT: "15000",
+        CACHE_TTL_SECONDS: "600"
+      });
 
-        expect(config.api.baseUrl).toBe("https://custom-api.example.com");
-        expect(config.api.timeout).toBe(15000);
-        expect(config.cache.ttlSeconds).toBe(600);
-      } finally {
-        process.env = originalEnv;
-      }
+      expect(config.api.baseUrl).toBe("https://custom-api.example.com");
+      expect(config.api.timeout).toBe(15000);
+      expect(config.cache.ttlSeconds).toBe(600);
     });
 
     it("should handle missing environment variables gracefully", () => {
-      const originalEnv = process.env;
-      
-      try {
-        // Clear all HN-related env vars
-        delete process.env.HACKERNEWS_API_BASE_URL;
-        delete process.env.HACKERNEWS_API_TIMEOUT;
-        delete process.env.CACHE_TTL_SECONDS;
-
-        jest.resetModules();
-        const { config } = require("./config");
-
-        // Should use defaults
-        expect(config.api.baseUrl).toBe("https://hacker-news.firebaseio.com/v0");
-        expect(config.api.timeout).toBe(10000);
-        expect(config.cache.ttlSeconds).toBe(300);
-      } finally {
-        process.env = originalEnv;
-      }
+      // No HN-related env vars
+      const config = loadConfig({});
+
+      // Should use defaults
+      expect(config.api.baseUrl).toBe("https://hacker-news.firebaseio.com/v0");
+      expect(config.api.timeout).toBe(10000);
+      expect(config.cache.ttlSeconds).toBe(300);
     });
   });
 
   describe("performance and scalability", () => {
     it("should handle multiple concurrent operations", async () => {
-      const mockStory = { id: 123, title: "Test", score: 100 };
+      const mockStory = createMockStoryWithMetadata({ title: "Test" });
       mockClient.getStoryWithMetadata.mockResolvedValue(mockStory);
 
-      const { setupResources: realSetupResources } = await import("./resources/index");
-      await realSetupResources(mockServer, mockClient);
+      await real.setupResources(mockServer, mockClient, mockFrontPage);
 
       // Simulate multiple concurrent resource registrations
       const promises = [];
       for (let i = 0; i < 10; i++) {
-        promises.push(realSetupResources(mockServer, mockClient));
+        promises.push(real.setupResources(mockServer, mockClient, mockFrontPage));
       }
 
       await Promise.all(promises);
@@ -324,13 +301,10 @@ describe("HackerNews MCP Server Integration", () => {
     it("should complete initialization in reasonable time", async () => {
       const startTime = Date.now();
 
-      const { setupResources: realSetupResources } = await import("./resources/index");
-      const { setupTools: realSetupTools } = await import("./tools/index");
-      const { setupPrompts: realSetupPrompts } = await import("./prompts/index");
 
-      await realSetupResources(mockServer, mockClient);
-      await realSetupTools(mockServer, mockClient);
-      await realSetupPrompts(mockServer, mockClient);
+      await real.setupResources(mockServer, mockClient, mockFrontPage);
+      await real.setupTools(mockServer, mockClient);
+      await real.setupPrompts(mockServer, mockClient);
 
       const duration = Date.now() - startTime;
       expect(duration).toBeLessThan(1000); // Should complete in less than 1 second
@@ -355,27 +329,22 @@ describe("HackerNews MCP Server Integration", () => {
 
   describe("logging and monitoring", () => {
     it("should log initialization steps", async () => {
-      // Mock logger
-      const mockLogger = {
-        info: jest.fn(),
-        error: jest.fn(),
-        warn: jest.fn(),
-        debug: jest.fn()
-      };
-
-      jest.doMock("./utils/logger", () => ({
-        logger: mockLogger
-      }));
+      // Capture log lines
+      const sink = { write: jest.fn() };
+      logger.addSink(sink);
 
-      const { setupResources: realSetupResources } = await import("./resources/index");
-      await realSetupResources(mockServer, mockClient);
+      try {
+        await real.setupResources(mockServer, mockClient, mockFrontPage);
+      } finally {
+        logger.removeSink(sink);
+      }
 
       // Logger should be called during setup
-      expect(mockLogger.info).toHaveBeenCalled();
+      expect(sink.write).toHaveBeenCalledWith("info", expect.stringContaining("Setting up MCP resources"), expect.anything());
     });
 
     it("should provide cache statistics", () => {
-      const mockStats = { items: 100, users: 25, lists: 10 };
+      const mockStats = createMockCacheStats();
       mockClient.getCacheStats.mockReturnValue(mockStats);
 
       const stats = mockClient.getCacheStats();
@@ -1,60 +1,208 @@
 #!/usr/bin/env node
 
+import { parseArgs } from "node:util";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { config } from "./config.js";
+import { Config, ConfigError, loadConfig } from "./config.js";
 import { setupResources } from "./resources/index.js";
+import { attachSubscriptions } from "./resources/subscriptions.js";
+import { FrontPage } from "./resources/front-page.js";
 import { setupTools } from "./tools/index.js";
 import { setupPrompts } from "./prompts/index.js";
 import { HackerNewsClient } from "./api/client.js";
+import { UpdatePoller } from "./api/update-poller.js";
+import { ResourceWatcher } from "./api/resource-watcher.js";
+import { ReadinessProbe } from "./api/readiness-probe.js";
+import { registerClientMetrics } from "./api/client-metrics.js";
 import { logger } from "./utils/logger.js";
+import { metrics } from "./utils/metrics.js";
+import { FileSink, LogSink, RotatingFileSink, StderrSink } from "./utils/log-sinks.js";
+import { attachMcpLogging } from "./utils/mcp-logging.js";
+import { ShutdownCoordinator } from "./utils/shutdown.js";
+import { startHttpTransport } from "./transports/http.js";
+import { loadAuthenticator } from "./transports/auth.js";
+import { createHealthEndpoints } from "./transports/health.js";
 
-async function main() {
-  try {
-    // Initialize the MCP server
-    const server = new McpServer({
+const log = logger.child({ module: "server" });
+
+let coordinator: ShutdownCoordinator | undefined;
+
+// Sinks shared by every session; MCP sinks are added per connected client
+function createLogSinks(config: Config): LogSink[] {
+  const logging = config.logging;
+  return logging.destinations.flatMap(destination => {
+    switch (destination) {
+      case "file":
+        return [logging.file.maxBytes > 0
+          ? new RotatingFileSink(logging.file.path, logging.file)
+          : new FileSink(logging.file.path)];
+      case "mcp":
+        return [];
+      default:
+        return [new StderrSink()];
+    }
+  });
+}
+
+// --transport stdio|http overrides MCP_TRANSPORT
+function readCliOverrides(): Record<string, string> {
+  const { values } = parseArgs({ options: { transport: { type: "string" } }, strict: false });
+  return typeof values.transport === "string" ? { MCP_TRANSPORT: values.transport } : {};
+}
+
+// Builds one MCP server. stdio has a single server; over HTTP every session
+// gets its own, all backed by the same HackerNews client, cache and watcher.
+async function createMcpServer(
+  config: Config,
+  client: HackerNewsClient,
+  shutdown: ShutdownCoordinator,
+  watcher: ResourceWatcher,
+  frontPage: FrontPage
+): Promise<McpServer> {
+  const forwardLogs = config.logging.destinations.includes("mcp");
+  const server = new McpServer(
+    {
       name: config.serverName,
       version: config.serverVersion,
-    });
+    },
+    {
+      // notifications/message requires the logging capability
+      capabilities: forwardLogs ? { logging: {} } : {},
+    }
+  );
+
+  // Watches the front page only once this client lists it
+  const clientFrontPage = frontPage.forClient(() => server.sendResourceListChanged());
+
+  // Undone when the client disconnects
+  const cleanups = [
+    attachSubscriptions(server, watcher),
+    () => clientFrontPage.close(),
+  ];
+  if (forwardLogs) {
+    const sink = attachMcpLogging(server, config.serverName, config.logging.mcpLevel, config.transport.mode === "http");
+    logger.addSink(sink);
+    cleanups.push(() => logger.removeSink(sink));
+  }
+  server.server.onclose = () => cleanups.forEach(cleanup => cleanup());
+
+  // Setup MCP components
+  await setupResources(server, client, clientFrontPage, shutdown);
+  await setupTools(server, client, shutdown);
+  await setupPrompts(server, client, shutdown);
+
+  return server;
+}
+
+async function main() {
+  try {
+    const config = loadConfig({ ...process.env, ...readCliOverrides() });
+
+    logger.setSinks(createLogSinks(config));
+    logger.setLevel(config.logging.level);
+    logger.setFormat(config.logging.format);
+    log.debug("Effective configuration:", config);
+
+    const shutdown = new ShutdownCoordinator(config.shutdown);
+    coordinator = shutdown;
 
     // Initialize the HackerNews API client
-    const hnClient = new HackerNewsClient({
+    const client = new HackerNewsClient({
       baseUrl: config.api.baseUrl,
       timeout: config.api.timeout,
+      cacheOptions: config.cache,
+      retry: config.api.retry,
+      scheduler: {
+        maxConcurrency: config.api.maxConcurrency,
+        requestsPerSecond: config.api.requestsPerSecond,
+      },
     });
 
-    // Setup MCP components
-    await setupResources(server, hnClient);
-    await setupTools(server, hnClient);
-    await setupPrompts(server, hnClient);
+    if (config.cache.invalidation.intervalSeconds > 0) {
+      const updatePoller = new UpdatePoller(client, config.cache.invalidation);
+      updatePoller.start();
+      // Stop invalidation before flushing so no refresh lands in a closed store
+      shutdown.register("resources", "update poller", () => updatePoller.stop());
+    }
 
-    // Connect to stdio transport
-    const transport = new StdioServerTransport();
-    
-    logger.info(`Starting ${config.serverName} v${config.serverVersion}`);
-    
-    await server.connect(transport);
+    // Polls upstream only while some client is subscribed to a resource
+    const watcher = new ResourceWatcher(client, config.subscriptions);
+    shutdown.register("resources", "resource watcher", () => watcher.stop());
+    const frontPage = new FrontPage(client, watcher);
+
+    log.info(`Starting ${config.serverName} v${config.serverVersion} (${config.transport.mode} transport)`);
+
+    if (config.transport.mode === "http") {
+      const authenticate = await loadAuthenticator(config.transport.http.auth);
+      if (!authenticate) {
+        log.warn("HTTP transport has no API keys or JWKS configured; every caller can use every tool");
+      }
+
+      registerClientMetrics(client);
+      const probe = new ReadinessProbe(client, { intervalSeconds: config.transport.http.probeIntervalSeconds });
+      probe.start();
+      shutdown.register("resources", "readiness probe", () => probe.stop());
+      // Load balancers should stop routing here as soon as shutdown begins
+      const readiness = () => (shutdown.isShuttingDown() ? { ...probe.getStatus(), ready: false } : probe.getStatus());
+
+      const httpTransport = await startHttpTransport(
+        {
+          ...config.transport.http,
+          authenticate,
+          endpoints: createHealthEndpoints({ readiness, metrics }),
+        },
+        () => createMcpServer(config, client, shutdown, watcher, frontPage)
+      );
+      shutdown.register("intake", "HTTP listener", () => httpTransport.stopAccepting());
+      shutdown.register("transport", "HTTP transport", () => httpTransport.close());
+    } else {
+      const server = await createMcpServer(config, client, shutdown, watcher, frontPage);
+      await server.connect(new StdioServerTransport());
+      // Stop reading requests; responses to in-flight ones still go out on stdout
+      shutdown.register("intake", "stdio input", () => {
+        process.stdin.pause();
+      });
+      shutdown.register("transport", "stdio transport", () => server.close());
+    }
+
+    // Flush persistent cache stores once nothing can write to them
+    shutdown.register("resources", "cache stores", () => client.close());
     
-    logger.info("HackerNews MCP server is running");
+    log.info("HackerNews MCP server is running");
   } catch (error) {
-    logger.error("Failed to start server:", error);
+    if (error instanceof ConfigError) {
+      log.error(error.message);
+    } else {
+      log.error("Failed to start server:", error);
+    }
     process.exit(1);
   }
 }
 
-// Handle graceful shutdown
-process.on("SIGINT", () => {
-  logger.info("Received SIGINT, shutting down gracefully");
+// Handle graceful shutdown; a second signal skips the drain
+async function handleSignal(signal: string): Promise<void> {
+  if (coordinator?.isShuttingDown()) {
+    log.warn(`Received ${signal} again, exiting immediately`);
+    await logger.close();
+    process.exit(1);
+  }
+
+  log.info(`Received ${signal}, shutting down gracefully`);
+  await coordinator?.shutdown(signal);
+  await logger.close();
   process.exit(0);
+}
+
+process.on("SIGINT", () => {
+  void handleSignal("SIGINT");
 });
 
 process.on("SIGTERM", () => {
-  logger.info("Received SIGTERM, shutting down gracefully");
-  process.exit(0);
+  void handleSignal("SIGTERM");
 });
 
 // Start the server
 main().catch((error) => {
-  logger.error("Unhandled error:", error);
+  log.error("Unhandled error:", error);
   process.exit(1);
 }); 
\ No newline at end of file
@@ -1,5 +1,15 @@
+// Mock node-fetch so the client module loads without the ESM build
+jest.mock("node-fetch", () => jest.fn());
+
 import { setupPrompts } from "./index";
 import { HackerNewsClient } from "../api/client";
+import {
+  createMockItem,
+  createMockStoryWithMetadata,
+  createMockUserWithStats,
+  createMockComment,
+  createMockCommentTree
+} from "../test-helpers";
 
 // Mock the HackerNews client
 jest.mock("../api/client");
@@ -10,6 +20,14 @@ const mockMcpServer = {
   registerPrompt: jest.fn()
 };
 
+// The request extra the SDK passes every prompt handler
+const createExtra = () => ({
+  signal: new AbortController().signal,
+  requestId: 1,
+  sendNotification: jest.fn(),
+  sendRequest: jest.fn()
+});
+
 describe("MCP Prompts", () => {
   let mockHnClient: jest.Mocked<HackerNewsClient>;
 
@@ -52,17 +70,15 @@ describe("MCP Prompts", () => {
 
     describe("analyze-story prompt", () => {
       it("should generate story analysis prompt without comments", async () => {
-        const mockStory = {
-          id: 123,
+        const mockStory = createMockStoryWithMetadata({
           title: "Revolutionary AI Breakthrough",
           by: "researcher",
           score: 250,
           commentCount: 45,
           ageHours: 3.5,
           url: "https://example.com/ai-breakthrough",
-          domain: "example.com",
           text: "This is the story content describing the breakthrough."
-        };
+        });
 
         mockHnClient.getStoryWithMetadata.mockResolvedValue(mockStory);
 
@@ -70,9 +86,9 @@ describe("MCP Prompts", () => {
           storyId: "123",
           includeComments: "false",
           analysisDepth: "detailed"
-        });
+        }, createExtra());
 
-        expect(mockHnClient.getStoryWithMetadata).toHaveBeenCalledWith(123);
+        expect(mockHnClient.getStoryWithMetadata).toHaveBeenCalledWith(123, { signal: expect.any(AbortSignal) });
         expect(result.messages).toHaveLength(1);
         expect(result.messages[0].role).toBe("user");
         
@@ -88,33 +104,34 @@ describe("MCP Prompts", () => {
       });
 
       it("should generate story analysis prompt with comments", async () => {
-        const mockStory = {
-          id: 123,
-          title: "Test Story",
+        const mockStory = createMockStoryWithMetadata({
           by: "author",
-          score: 100,
           commentCount: 5,
           ageHours: 2,
           url: "https://test.com",
           domain: "test.com"
-        };
+        });
 
         const mockComments = [
-          { id: 456, by: "user1", text: "Great article! This really explains the concept well." },
-          { id: 789, by: "user2", text: "I have some concerns about the methodology used in this study." },
-          { id: 101, by: "user3", text: "Has anyone tried implementing this approach?" }
+          createMockComment({ id: 456, by: "user1", text: "Great article! This really explains the concept well." }),
+          createMockComment({ id: 789, by: "user2", text: "I have some concerns about the methodology used in this study." }),
+          createMockComment({ id: 101, by: "user3", text: "Has anyone tried implementing this approach?" })
         ];
 
         mockHnClient.getStoryWithMetadata.mockResolvedValue(mockStory);
-        mockHnClient.getCommentTree.mockResolvedValue(mockComments);
+        mockHnClient.getCommentTree.mockResolvedValue(createMockCommentTree(123, mockComments));
 
         const result = await promptHandlers["analyze-story"]({
           storyId: "123",
           includeComments: "true",
           analysisDepth: "comprehensive"
-        });
+        }, createExtra());
 
-        expect(mockHnClient.getCommentTree).toHaveBeenCalledWith(123);
+        expect(mockHnClient.getCommentTree).toHaveBeenCalledWith(123, {
+          signal: expect.any(AbortSignal),
+          maxDepth: 1,
+          maxComments: 5
+        });
         
         const promptText = result.messages[0].content.text;
         expect(promptText).toContain("Top Comments for Context:");
@@ -126,14 +143,14 @@ describe("MCP Prompts", () => {
       });
 
       it("should handle different analysis depths", async () => {
-        const mockStory = { id: 123, title: "Test", by: "user", score: 50, commentCount: 0, ageHours: 1 };
+        const mockStory = createMockStoryWithMetadata({ title: "Test", by: "user", score: 50, commentCount: 0, ageHours: 1 });
         mockHnClient.getStoryWithMetadata.mockResolvedValue(mockStory);
 
         // Test basic depth
         const basicResult = await promptHandlers["analyze-story"]({
           storyId: "123",
           analysisDepth: "basic"
-        });
+        }, createExtra());
         const basicPrompt = basicResult.messages[0].content.text;
         expect(basicPrompt).not.toContain("Analyze the posting timing");
         expect(basicPrompt).not.toContain("strategic insights");
@@ -142,7 +159,7 @@ describe("MCP Prompts", () => {
         const detailedResult = await promptHandlers["analyze-story"]({
           storyId: "123",
           analysisDepth: "detailed"
-        });
+        }, createExtra());
         const detailedPrompt = detailedResult.messages[0].content.text;
         expect(detailedPrompt).toContain("Analyze the posting timing");
         expect(detailedPrompt).not.toContain("strategic insights");
@@ -151,23 +168,35 @@ describe("MCP Prompts", () => {
         const comprehensiveResult = await promptHandlers["analyze-story"]({
           storyId: "123",
           analysisDepth: "comprehensive"
-        });
+        }, createExtra());
         const comprehensivePrompt = comprehensiveResult.messages[0].content.text;
         expect(comprehensivePrompt).toContain("strategic insights");
       });
 
+      it("should default to a detailed analysis with comments", async () => {
+        mockHnClient.getStoryWithMetadata.mockResolvedValue(createMockStoryWithMetadata());
+        mockHnClient.getCommentTree.mockResolvedValue(createMockCommentTree(123, [createMockComment()]));
+
+        const result = await promptHandlers["analyze-story"]({ storyId: "123" }, createExtra());
+
+        const promptText = result.messages[0].content.text;
+        expect(promptText).toContain("Analyze the posting timing");
+        expect(promptText).not.toContain("strategic insights");
+        expect(promptText).toContain("Top Comments for Context:");
+      });
+
       it("should handle non-existent stories", async () => {
         mockHnClient.getStoryWithMetadata.mockResolvedValue(null);
 
         await expect(
-          promptHandlers["analyze-story"]({ storyId: "999" })
+          promptHandlers["analyze-story"]({ storyId: "999" }, createExtra())
         ).rejects.toThrow("Story 999 not found");
       });
     });
 
     describe("analyze-user-profile prompt", () => {
       it("should generate user analysis prompt", async () => {
-        const mockUserStats = {
+        const mockUserStats = createMockUserWithStats({
           id: "techexpert",
           karma: 2500,
           created: 1577836800, // 2020-01-01
@@ -175,14 +204,14 @@ describe("MCP Prompts", () => {
           submitted: [123, 456, 789, 101, 102],
           averageScore: 125,
           topStories: [
-            { id: 123, title: "Building Scalable ML Systems", score: 300, descendants: 75 },
-            { id: 456, title: "The Future of Neural Networks", score: 250, descendants: 50 }
+            createMockItem({ id: 123, title: "Building Scalable ML Systems", score: 300, descendants: 75 }),
+            createMockItem({ id: 456, title: "The Future of Neural Networks", score: 250, descendants: 50 })
           ],
           recentActivity: [
-            { id: 789, type: "story", title: "Recent AI Paper Review", score: 150 },
-            { id: 101, type: "comment", text: "Interesting perspective on this approach", score: 25 }
+            createMockItem({ id: 789, title: "Recent AI Paper Review", score: 150 }),
+            createMockComment({ id: 101, text: "Interesting perspective on this approach", score: 25 })
           ]
-        };
+        });
 
         mockHnClient.getUserWithStats.mockResolvedValue(mockUserStats);
 
@@ -190,9 +219,9 @@ describe("MCP Prompts", () => {
           username: "techexpert",
           includeRecentActivity: "true",
           focusArea: "expertise"
-        });
+        }, createExtra());
 
-        expect(mockHnClient.getUserWithStats).toHaveBeenCalledWith("techexpert");
+        expect(mockHnClient.getUserWithStats).toHaveBeenCalledWith("techexpert", { signal: expect.any(AbortSignal) });
         expect(result.messages).toHaveLength(1);
         
         const promptText = result.messages[0].content.text;
@@ -207,15 +236,12 @@ describe("MCP Prompts", () => {
       });
 
       it("should handle different focus areas", async () => {
-        const mockUserStats = {
-          id: "testuser",
-          karma: 1000,
-          created: 1640995200,
+        const mockUserStats = createMockUserWithStats({
           submitted: [123],
           averageScore: 100,
           topStories: [],
           recentActivity: []
-        };
+        });
 
         mockHnClient.getUserWithStats.mockResolvedValue(mockUserStats);
 
@@ -223,48 +249,47 @@ describe("MCP Prompts", () => {
         const expertiseResult = await promptHandlers["analyze-user-profile"]({
           username: "testuser",
           focusArea: "expertise"
-        });
+        }, createExtra());
         expect(expertiseResult.messages[0].content.text).toContain("areas of expertise");
 
         // Test engagement focus
         const engagementResult = await promptHandlers["analyze-user-profile"]({
           username: "testuser",
           focusArea: "engagement"
-        });
+        }, createExtra());
         expect(engagementResult.messages[0].content.text).toContain("community engagement level");
 
         // Test influence focus
         const influenceResult = await promptHandlers["analyze-user-profile"]({
           username: "testuser",
           focusArea: "influence"
-        });
+        }, createExtra());
         expect(influenceResult.messages[0].content.text).toContain("influence within the HackerNews community");
 
         // Test general focus (default)
         const generalResult = await promptHandlers["analyze-user-profile"]({
           username: "testuser",
           focusArea: "general"
-        });
+        }, createExtra());
         expect(generalResult.messages[0].content.text).toContain("overall assessment");
       });
 
       it("should handle users without recent activity", async () => {
-        const mockUserStats = {
+        const mockUserStats = createMockUserWithStats({
           id: "quietuser",
           karma: 50,
-          created: 1640995200,
           submitted: [],
           averageScore: 0,
           topStories: [],
           recentActivity: []
-        };
+        });
 
         mockHnClient.getUserWithStats.mockResolvedValue(mockUserStats);
 
         const result = await promptHandlers["analyze-user-profile"]({
           username: "quietuser",
           includeRecentActivity: "false"
-        });
+        }, createExtra());
 
         const promptText = result.messages[0].content.text;
         expect(promptText).toContain("quietuser");
@@ -276,7 +301,7 @@ describe("MCP Prompts", () => {
         mockHnClient.getUserWithStats.mockResolvedValue(null);
 
         await expect(
-          promptHandlers["analyze-user-profile"]({ username: "nonexistent" })
+          promptHandlers["analyze-user-profile"]({ username: "nonexistent" }, createExtra())
         ).rejects.toThrow("User nonexistent not found");
       });
     });
@@ -285,11 +310,11 @@ describe("MCP Prompts", () => {
       it("should generate trending topics summary prompt", async () => {
         const mockStoryIds = [123, 456, 789, 101, 102];
         const mockStories = [
-          { id: 123, type: "story", title: "AI Revolution in Healthcare", by: "medtech" },
-          { id: 456, type: "story", title: "Machine Learning Breakthrough", by: "researcher" },
-          { id: 789, type: "story", title: "Artificial Intelligence Ethics", by: "ethicist" },
-          { id: 101, type: "story", title: "Quantum Computing Advances", by: "physicist" },
-          { id: 102, type: "story", title: "Blockchain Technology Update", by: "cryptodev" }
+          createMockItem({ id: 123, title: "AI Revolution in Healthcare", by: "medtech" }),
+          createMockItem({ id: 456, title: "Machine Learning Breakthrough", by: "researcher" }),
+          createMockItem({ id: 789, title: "Artificial Intelligence Ethics", by: "ethicist" }),
+          createMockItem({ id: 101, title: "Quantum Computing Advances", by: "physicist" }),
+          createMockItem({ id: 102, title: "Blockchain Technology Update", by: "cryptodev" })
         ];
 
         mockHnClient.getTopStories.mockResolvedValue(mockStoryIds);
@@ -299,10 +324,10 @@ describe("MCP Prompts", () => {
           timeframe: "current",
           storyCount: "30",
           includeAnalysis: "true"
-        });
+        }, createExtra());
 
         expect(mockHnClient.getTopStories).toHaveBeenCalled();
-        expect(mockHnClient.getMultipleItems).toHaveBeenCalledWith(mockStoryIds);
+        expect(mockHnClient.getMultipleItems).toHaveBeenCalledWith(mockStoryIds, { priority: "bulk", signal: expect.any(AbortSignal) });
         expect(result.messages).toHaveLength(1);
         
         const promptText = result.messages[0].content.text;
@@ -319,7 +344,7 @@ describe("MCP Prompts", () => {
 
       it("should handle different timeframes and analysis options", async () => {
         const mockStoryIds = [123];
-        const mockStories = [{ id: 123, type: "story", title: "Test Story", by: "user" }];
+        const mockStories = [createMockItem({ by: "user" })];
 
         mockHnClient.getTopStories.mockResolvedValue(mockStoryIds);
         mockHnClient.getMultipleItems.mockResolvedValue(mockStories);
@@ -329,7 +354,7 @@ describe("MCP Prompts", () => {
           timeframe: "week",
           storyCount: "50",
           includeAnalysis: "false"
-        });
+        }, createExtra());
         const noAnalysisPrompt = noAnalysisResult.messages[0].content.text;
         expect(noAnalysisPrompt).toContain("Timeframe: week");
         expect(noAnalysisPrompt).not.toContain("Analysis Tasks:");
@@ -337,7 +362,7 @@ describe("MCP Prompts", () => {
         // Test with analysis (default)
         const withAnalysisResult = await promptHandlers["summarize-trending-topics"]({
           timeframe: "today"
-        });
+        }, createExtra());
         const withAnalysisPrompt = withAnalysisResult.messages[0].content.text;
         expect(withAnalysisPrompt).toContain("Analysis Tasks:");
       });
@@ -346,7 +371,7 @@ describe("MCP Prompts", () => {
         mockHnClient.getTopStories.mockResolvedValue([]);
         mockHnClient.getMultipleItems.mockResolvedValue([]);
 
-        const result = await promptHandlers["summarize-trending-topics"]({});
+        const result = await promptHandlers["summarize-trending-topics"]({}, createExtra());
 
         const promptText = result.messages[0].content.text;
         expect(promptText).toContain("Stories Analyzed: 0");
@@ -356,14 +381,14 @@ describe("MCP Prompts", () => {
       it("should extract trending keywords correctly", async () => {
         const mockStoryIds = [123, 456];
         const mockStories = [
-          { id: 123, type: "story", title: "Machine Learning Revolution", by: "user1" },
-          { id: 456, type: "story", title: "Machine Learning Applications", by: "user2" }
+          createMockItem({ id: 123, title: "Machine Learning Revolution", by: "user1" }),
+          createMockItem({ id: 456, title: "Machine Learning Applications", by: "user2" })
         ];
 
         mockHnClient.getTopStories.mockResolvedValue(mockStoryIds);
         mockHnClient.getMultipleItems.mockResolvedValue(mockStories);
 
-        const result = await promptHandlers["summarize-trending-topics"]({});
+        const result = await promptHandlers["summarize-trending-topics"]({}, createExtra());
 
         const promptText = result.messages[0].content.text;
         // Should identify "machine" and "learning" as trending keywords
@@ -417,19 +442,19 @@ describe("MCP Prompts", () => {
       mockHnClient.getStoryWithMetadata.mockRejectedValue(new Error("Network error"));
 
       await expect(
-        promptHandlers["analyze-story"]({ storyId: "123" })
+        promptHandlers["analyze-story"]({ storyId: "123" }, createExtra())
       ).rejects.toThrow("Network error");
     });
 
     it("should handle invalid story IDs", async () => {
       await expect(
-        promptHandlers["analyze-story"]({ storyId: "invalid" })
+        promptHandlers["analyze-story"]({ storyId: "invalid" }, createExtra())
       ).rejects.toThrow();
     });
 
     it("should handle missing required parameters", async () => {
       await expect(
-        promptHandlers["analyze-user-profile"]({})
+        promptHandlers["analyze-user-profile"]({}, createExtra())
       ).rejects.toThrow("Username is required");
     });
   });
@@ -448,20 +473,13 @@ describe("MCP Prompts", () => {
     });
 
     it("should generate well-structured prompts", async () => {
-      const mockStory = {
-        id: 123,
-        title: "Test Story",
-        by: "author",
-        score: 100,
-        commentCount: 25,
-        ageHours: 2,
-        url: "https://example.com",
-        domain: "example.com"
-      };
+      const mockStory = createMockStoryWithMetadata({ by: "author", ageHours: 2 });
 
       mockHnClient.getStoryWithMetadata.mockResolvedValue(mockStory);
+      // Comments are included by default
+      mockHnClient.getCommentTree.mockResolvedValue(createMockCommentTree(123, []));
 
-      const result = await promptHandlers["analyze-story"]({ storyId: "123" });
+      const result = await promptHandlers["analyze-story"]({ storyId: "123" }, createExtra());
       const promptText = result.messages[0].content.text;
 
       // Check for proper structure
@@ -472,22 +490,19 @@ describe("MCP Prompts", () => {
     });
 
     it("should include relevant context in prompts", async () => {
-      const mockUserStats = {
-        id: "testuser",
-        karma: 1000,
-        created: 1640995200,
+      const mockUserStats = createMockUserWithStats({
         submitted: [123],
         averageScore: 100,
-        topStories: [{ id: 123, title: "Top Story", score: 200, descendants: 50 }],
+        topStories: [createMockItem({ title: "Top Story", score: 200, descendants: 50 })],
         recentActivity: []
-      };
+      });
 
       mockHnClient.getUserWithStats.mockResolvedValue(mockUserStats);
 
       const result = await promptHandlers["analyze-user-profile"]({
         username: "testuser",
         focusArea: "expertise"
-      });
+      }, createExtra());
       const promptText = result.messages[0].content.text;
 
       // Should include calculated metrics
@@ -511,23 +526,23 @@ describe("MCP Prompts", () => {
     });
 
     it("should generate prompts efficiently", async () => {
-      const mockStory = { id: 123, title: "Test", by: "user", score: 50, commentCount: 0, ageHours: 1 };
+      const mockStory = createMockStoryWithMetadata({ title: "Test", by: "user", score: 50, commentCount: 0, ageHours: 1 });
       mockHnClient.getStoryWithMetadata.mockResolvedValue(mockStory);
 
       const startTime = Date.now();
-      await promptHandlers["analyze-story"]({ storyId: "123" });
+      await promptHandlers["analyze-story"]({ storyId: "123" }, createExtra());
       const duration = Date.now() - startTime;
 
       expect(duration).toBeLessThan(100); // Should complete in less than 100ms
     });
 
     it("should handle concurrent prompt generation", async () => {
-      const mockStory = { id: 123, title: "Test", by: "user", score: 50, commentCount: 0, ageHours: 1 };
+      const mockStory = createMockStoryWithMetadata({ title: "Test", by: "user", score: 50, commentCount: 0, ageHours: 1 });
       mockHnClient.getStoryWithMetadata.mockResolvedValue(mockStory);
 
       const promises = [];
       for (let i = 0; i < 5; i++) {
-        promises.push(promptHandlers["analyze-story"]({ storyId: "123" }));
+        promises.push(promptHandlers["analyze-story"]({ storyId: "123" }, createExtra()));
       }
 
       const results = await Promise.all(promises);
@@ -1,10 +1,28 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { HackerNewsClient } from "../api/client.js";
 import { logger } from "../utils/logger.js";
+import { withRequestContext } from "../utils/request-context.js";
+import { ShutdownCoordinator, trackHandler } from "../utils/shutdown.js";
+import { completeFrom, createCompleters, optionalCompletable } from "../resources/completions.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
 import { z } from "zod";
 
-export async function setupPrompts(server: McpServer, hnClient: HackerNewsClient): Promise<void> {
-  logger.info("Setting up MCP prompts for HackerNews...");
+const log = logger.child({ module: "prompts" });
+
+// Values the prompt handlers switch on, offered as completions
+const ANALYSIS_DEPTHS = ["basic", "detailed", "comprehensive"];
+const FOCUS_AREAS = ["general", "expertise", "engagement", "influence"];
+const TIMEFRAMES = ["current", "today", "week"];
+const BOOLEANS = ["true", "false"];
+
+// With a shutdown coordinator, prompt requests are drained like tool calls
+export async function setupPrompts(server: McpServer, hnClient: HackerNewsClient, shutdown?: ShutdownCoordinator): Promise<void> {
+  log.info("Setting up MCP prompts for HackerNews...");
+
+  const prompt = <A extends unknown[], R>(name: string, handler: (...args: A) => Promise<R>) =>
+    withRequestContext("prompt", name, trackHandler(shutdown, handler));
+
+  const completers = createCompleters(hnClient);
 
   // Story analysis prompt
   server.registerPrompt(
@@ -13,14 +31,16 @@ export async function setupPrompts(server: McpServer, hnClient: HackerNewsClient
       title: "Analyze HackerNews Story",
       description: "Generate a comprehensive analysis of a HackerNews story including content, engagement, and discussion patterns",
       argsSchema: {
-        storyId: z.string().describe("The HackerNews story ID to analyze"),
-        includeComments: z.string().optional().describe("Whether to include comment analysis (true/false)"),
-        analysisDepth: z.string().optional().describe("Level of analysis detail (basic/detailed/comprehensive)")
+        storyId: completable(z.string(), completers.storyId).describe("The HackerNews story ID to analyze"),
+        includeComments: optionalCompletable(completeFrom(BOOLEANS))
+          .describe("Whether to include comment analysis (true/false)"),
+        analysisDepth: optionalCompletable(completeFrom(ANALYSIS_DEPTHS))
+          .describe("Level of analysis detail (basic/detailed/comprehensive)")
       }
     },
-    async ({ storyId, includeComments, analysisDepth }) => {
+    prompt("analyze-story", async ({ storyId, includeComments, analysisDepth }, { signal }) => {
       try {
-        const story = await hnClient.getStoryWithMetadata(parseInt(storyId, 10));
+        const story = await hnClient.getStoryWithMetadata(parseInt(storyId, 10), { signal });
         if (!story) {
           throw new Error(`Story ${storyId} not found`);
         }
@@ -64,8 +84,11 @@ ${story.text ? `"${story.text}"` : "No additional content (link post)"}
         }
 
         if (shouldIncludeComments && story.commentCount > 0) {
-          const comments = await hnClient.getCommentTree(parseInt(storyId, 10));
-          const topComments = comments.slice(0, 5);
+          const { comments: topComments } = await hnClient.getCommentTree(parseInt(storyId, 10), {
+            signal,
+            maxDepth: 1,
+            maxComments: 5
+          });
           
           analysisPrompt += `
 
@@ -92,10 +115,10 @@ ${topComments.map((comment, index) =>
           }]
         };
       } catch (error) {
-        logger.error(`Failed to create story analysis prompt for ${storyId}:`, error);
+        log.error(`Failed to create story analysis prompt for ${storyId}:`, error);
         throw error;
       }
-    }
+    })
   );
 
   // User profile analysis prompt
@@ -105,18 +128,20 @@ ${topComments.map((comment, index) =>
       title: "Analyze HackerNews User Profile",
       description: "Generate insights about a HackerNews user's activity patterns, expertise, and community engagement",
       argsSchema: {
-        username: z.string().describe("The HackerNews username to analyze"),
-        includeRecentActivity: z.string().optional().describe("Whether to include recent submissions and comments (true/false)"),
-        focusArea: z.string().optional().describe("Analysis focus area (general/expertise/engagement/influence)")
+        username: completable(z.string(), completers.username).describe("The HackerNews username to analyze"),
+        includeRecentActivity: optionalCompletable(completeFrom(BOOLEANS))
+          .describe("Whether to include recent submissions and comments (true/false)"),
+        focusArea: optionalCompletable(completeFrom(FOCUS_AREAS))
+          .describe("Analysis focus area (general/expertise/engagement/influence)")
       }
     },
-    async ({ username, includeRecentActivity, focusArea }) => {
+    prompt("analyze-user-profile", async ({ username, includeRecentActivity, focusArea }, { signal }) => {
       try {
         if (!username) {
           throw new Error("Username is required");
         }
 
-        const userStats = await hnClient.getUserWithStats(username);
+        const userStats = await hnClient.getUserWithStats(username, { signal });
         if (!userStats) {
           throw new Error(`User ${username} not found`);
         }
@@ -209,10 +234,10 @@ ${userStats.topStories.slice(0, 3).map((story, index) =>
           }]
         };
       } catch (error) {
-        logger.error(`Failed to create user analysis prompt for ${username}:`, error);
+        log.error(`Failed to create user analysis prompt for ${username}:`, error);
         throw error;
       }
-    }
+    })
   );
 
   // Trending topics summary prompt
@@ -222,20 +247,22 @@ ${userStats.topStories.slice(0, 3).map((story, index) =>
       title: "Summarize HackerNews Trending Topics",
       description: "Generate a comprehensive summary of current trending topics and discussions on HackerNews",
       argsSchema: {
-        timeframe: z.string().optional().describe("Timeframe for trending analysis (current/today/week)"),
+        timeframe: optionalCompletable(completeFrom(TIMEFRAMES))
+          .describe("Timeframe for trending analysis (current/today/week)"),
         storyCount: z.string().optional().describe("Number of top stories to analyze (10-100)"),
-        includeAnalysis: z.string().optional().describe("Whether to include trend analysis and insights (true/false)")
+        includeAnalysis: optionalCompletable(completeFrom(BOOLEANS))
+          .describe("Whether to include trend analysis and insights (true/false)")
       }
     },
-    async ({ timeframe, storyCount, includeAnalysis }) => {
+    prompt("summarize-trending-topics", async ({ timeframe, storyCount, includeAnalysis }, { signal }) => {
       try {
         const count = parseInt(storyCount || "30", 10);
         const shouldAnalyze = includeAnalysis === "true" || includeAnalysis === undefined;
         const frame = timeframe || "current";
 
-        const topStoryIds = await hnClient.getTopStories();
+        const topStoryIds = await hnClient.getTopStories({ priority: "bulk", signal });
         const storiesToAnalyze = topStoryIds.slice(0, count);
-        const stories = await hnClient.getMultipleItems(storiesToAnalyze);
+        const stories = await hnClient.getMultipleItems(storiesToAnalyze, { priority: "bulk", signal });
         const validStories = stories.filter(story => story && story.title && story.type === "story");
 
         // Extract trending topics
@@ -307,13 +334,13 @@ ${validStories.slice(0, 10).map((story, index) =>
           }]
         };
       } catch (error) {
-        logger.error("Failed to create trending topics summary prompt:", error);
+        log.error("Failed to create trending topics summary prompt:", error);
         throw error;
       }
-    }
+    })
   );
 
 
 
-  logger.info("Successfully registered all HackerNews MCP prompts");
+  log.info("Successfully registered all HackerNews MCP prompts");
 } 
\ No newline at end of file
@@ -0,0 +1,126 @@
+// Mock node-fetch so the client module loads without the ESM build
+jest.mock("node-fetch", () => jest.fn());
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { HackerNewsClient } from "../api/client";
+import {
+  findCollection,
+  parseCollectionQuery,
+  readStoryCollection,
+  StoryCollectionTemplate
+} from "./collections";
+
+describe("story collections", () => {
+  const ids = Array.from({ length: 75 }, (_, index) => index + 1);
+  let mockClient: { getTopStories: jest.Mock; getJobStories: jest.Mock; getStoriesWithMetadata: jest.Mock };
+
+  beforeEach(() => {
+    mockClient = {
+      getTopStories: jest.fn().mockResolvedValue(ids),
+      getJobStories: jest.fn().mockResolvedValue([900, 901]),
+      getStoriesWithMetadata: jest.fn(async (pageIds: number[]) => pageIds.map(id => id === 33 ? null : {
+        id,
+        type: "story",
+        title: `Story ${id}`,
+        by: "pg",
+        score: id * 2,
+        url: `https://example.com/${id}`,
+        domain: "example.com",
+        ageHours: 1.26,
+        commentCount: 4,
+      })),
+    };
+  });
+
+  const read = (list: string, query: string) => readStoryCollection(
+    mockClient as unknown as HackerNewsClient,
+    findCollection(list)!,
+    parseCollectionQuery(new URLSearchParams(query))
+  );
+
+  it("should default to the first 30 ids without metadata", async () => {
+    const result = await read("top", "");
+
+    expect(result).toMatchObject({ page: 1, page_size: 30, total: 75, total_pages: 3, count: 30, first_rank: 1 });
+    expect(result.story_ids).toEqual(ids.slice(0, 30));
+    expect(result).not.toHaveProperty("stories");
+    expect(mockClient.getStoriesWithMetadata).not.toHaveBeenCalled();
+  });
+
+  it("should hydrate a page with ranks in the whole list", async () => {
+    const result = await read("top", "page=7&pageSize=5&hydrate=true");
+    const stories = result.stories as Array<Record<string, unknown>>;
+
+    expect(result.story_ids).toEqual([31, 32, 33, 34, 35]);
+    expect(mockClient.getStoriesWithMetadata).toHaveBeenCalledWith([31, 32, 33, 34, 35], {});
+    // Story 33 is gone but keeps its rank
+    expect(stories.map(story => story.rank)).toEqual([31, 32, 34, 35]);
+    expect(stories[0]).toEqual({
+      rank: 31,
+      id: 31,
+      type: "story",
+      title: "Story 31",
+      by: "pg",
+      score: 62,
+      url: "https://example.com/31",
+      domain: "example.com",
+      age_hours: 1.3,
+      comment_count: 4,
+    });
+  });
+
+  it("should return an empty page past the end of the list", async () => {
+    const result = await read("jobs", "page=3&hydrate=1");
+
+    expect(result).toMatchObject({ title: "Job Stories", count: 0, story_ids: [], stories: [] });
+  });
+
+  it("should reject invalid query parameters", () => {
+    expect(() => parseCollectionQuery(new URLSearchParams("page=0"))).toThrow("Invalid page");
+    expect(() => parseCollectionQuery(new URLSearchParams("pageSize=101"))).toThrow("Invalid pageSize");
+    expect(() => parseCollectionQuery(new URLSearchParams("pageSize=ten"))).toThrow("Invalid pageSize");
+    expect(() => parseCollectionQuery(new URLSearchParams("hydrate=yes"))).toThrow("Invalid hydrate");
+    expect(() => parseCollectionQuery(new URLSearchParams("page_size=10"))).toThrow("Unknown query parameter");
+  });
+
+  it("should match any query on a known list", () => {
+    const template = new StoryCollectionTemplate();
+
+    expect(template.toString()).toBe("hackernews://stories/{list}{?page,pageSize,hydrate}");
+    expect(template.match("hackernews://stories/show?hydrate=true")).toEqual({ list: "show", hydrate: "true" });
+    expect(template.match("hackernews://stories/top")).toEqual({ list: "top" });
+    expect(template.match("hackernews://stories/polls?page=2")).toBeNull();
+    expect(template.match("hackernews://item/1?page=2")).toBeNull();
+  });
+
+  it("should be readable through an MCP resource template", async () => {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    server.registerResource(
+      "story-collection",
+      new ResourceTemplate(new StoryCollectionTemplate(), { list: undefined }),
+      { mimeType: "application/json" },
+      async (uri, { list }) => ({
+        contents: [{
+          uri: uri.href,
+          text: JSON.stringify(await readStoryCollection(
+            mockClient as unknown as HackerNewsClient,
+            findCollection(list as string)!,
+            parseCollectionQuery(uri.searchParams)
+          ))
+        }]
+      })
+    );
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const result = await client.readResource({ uri: "hackernews://stories/top?hydrate=true&page=3" });
+    const collection = JSON.parse(result.contents[0].text as string);
+
+    expect(collection.first_rank).toBe(61);
+    expect(collection.stories).toHaveLength(15);
+    await client.close();
+  });
+});
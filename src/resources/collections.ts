@@ -0,0 +1,167 @@
+import { UriTemplate, Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { HackerNewsClient, RequestOptions } from "../api/client.js";
+import { positiveInteger, rejectUnknownParams } from "./query.js";
+
+export const DEFAULT_PAGE_SIZE = 30;
+export const MAX_PAGE_SIZE = 100;
+
+const COLLECTION_PREFIX = "hackernews://stories/";
+
+export interface StoryCollection {
+  // Last segment of hackernews://stories/{list}
+  list: string;
+  name: string;
+  resourceTitle: string;
+  // Title inside the collection's JSON
+  title: string;
+  description: string;
+  fetch: (client: HackerNewsClient, options: RequestOptions) => Promise<number[]>;
+}
+
+export const STORY_COLLECTIONS: readonly StoryCollection[] = [
+  {
+    list: "top",
+    name: "top-stories",
+    resourceTitle: "HackerNews Top Stories",
+    title: "Top Stories",
+    description: "Current top stories from HackerNews front page",
+    fetch: (client, options) => client.getTopStories(options),
+  },
+  {
+    list: "new",
+    name: "new-stories",
+    resourceTitle: "HackerNews New Stories",
+    title: "New Stories",
+    description: "Latest new stories from HackerNews",
+    fetch: (client, options) => client.getNewStories(options),
+  },
+  {
+    list: "best",
+    name: "best-stories",
+    resourceTitle: "HackerNews Best Stories",
+    title: "Best Stories",
+    description: "Best stories from HackerNews",
+    fetch: (client, options) => client.getBestStories(options),
+  },
+  {
+    list: "ask",
+    name: "ask-stories",
+    resourceTitle: "Ask HackerNews Stories",
+    title: "Ask HN Stories",
+    description: "Latest Ask HN stories and discussions",
+    fetch: (client, options) => client.getAskStories(options),
+  },
+  {
+    list: "show",
+    name: "show-stories",
+    resourceTitle: "Show HackerNews Stories",
+    title: "Show HN Stories",
+    description: "Latest Show HN stories and projects",
+    fetch: (client, options) => client.getShowStories(options),
+  },
+  {
+    list: "jobs",
+    name: "job-stories",
+    resourceTitle: "HackerNews Job Postings",
+    title: "Job Stories",
+    description: "Latest job postings from HackerNews",
+    fetch: (client, options) => client.getJobStories(options),
+  },
+];
+
+export interface CollectionQuery {
+  page: number;
+  pageSize: number;
+  hydrate: boolean;
+}
+
+export function findCollection(list: string): StoryCollection | undefined {
+  return STORY_COLLECTIONS.find(collection => collection.list === list);
+}
+
+// page, pageSize and hydrate from a collection URI
+export function parseCollectionQuery(params: URLSearchParams): CollectionQuery {
+  rejectUnknownParams(params, ["page", "pageSize", "hydrate"]);
+  const hydrate = params.get("hydrate");
+  if (hydrate !== null && !["", "true", "false", "1", "0"].includes(hydrate)) {
+    throw new Error(`Invalid hydrate: ${hydrate} (expected true or false)`);
+  }
+
+  return {
+    page: positiveInteger(params, "page", 1),
+    pageSize: positiveInteger(params, "pageSize", DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+    hydrate: hydrate === "" || hydrate === "true" || hydrate === "1",
+  };
+}
+
+// hackernews://stories/{list}{?page,pageSize,hydrate} as advertised, but the
+// SDK's matcher wants every query variable present and in order, so any
+// query on a known list matches and the read handler validates it
+export class StoryCollectionTemplate extends UriTemplate {
+  constructor() {
+    super(`${COLLECTION_PREFIX}{list}{?page,pageSize,hydrate}`);
+  }
+
+  override match(uri: string): Variables | null {
+    if (!uri.startsWith(COLLECTION_PREFIX)) {
+      return null;
+    }
+
+    const [list, query] = uri.slice(COLLECTION_PREFIX.length).split("?", 2);
+    if (!findCollection(list)) {
+      return null;
+    }
+
+    const variables: Variables = { list };
+    new URLSearchParams(query).forEach((value, name) => {
+      variables[name] = value;
+    });
+    return variables;
+  }
+}
+
+// One page of a collection. Ranks are positions in the whole list, so page 2
+// of 30 starts at rank 31; hydrated pages carry each story's metadata and
+// leave out stories that are gone.
+export async function readStoryCollection(
+  client: HackerNewsClient,
+  collection: StoryCollection,
+  query: CollectionQuery,
+  options: RequestOptions = {}
+): Promise<Record<string, unknown>> {
+  const storyIds = await collection.fetch(client, options);
+  const offset = (query.page - 1) * query.pageSize;
+  const pageIds = storyIds.slice(offset, offset + query.pageSize);
+
+  const result: Record<string, unknown> = {
+    type: "story_collection",
+    title: collection.title,
+    collection: collection.list,
+    page: query.page,
+    page_size: query.pageSize,
+    total_pages: Math.ceil(storyIds.length / query.pageSize),
+    total: storyIds.length,
+    count: pageIds.length,
+    first_rank: offset + 1,
+    story_ids: pageIds,
+  };
+
+  if (query.hydrate) {
+    const stories = await client.getStoriesWithMetadata(pageIds, options);
+    result.stories = stories.flatMap((story, index) => story ? [{
+      rank: offset + index + 1,
+      id: story.id,
+      type: story.type,
+      title: story.title,
+      by: story.by,
+      score: story.score ?? 0,
+      url: story.url,
+      domain: story.domain,
+      age_hours: Math.round(story.ageHours * 10) / 10,
+      comment_count: story.commentCount,
+    }] : []);
+  }
+
+  result.last_updated = new Date().toISOString();
+  return result;
+}
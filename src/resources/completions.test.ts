@@ -0,0 +1,91 @@
+// Mock node-fetch so the client module loads without the ESM build
+jest.mock("node-fetch", () => jest.fn());
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { HackerNewsClient } from "../api/client";
+import { completeFrom, createCompleters, optionalCompletable } from "./completions";
+
+describe("completions", () => {
+  const items: Record<number, { id: number; title: string }> = {
+    101: { id: 101, title: "Show HN: A tiny Rust database" },
+    102: { id: 102, title: "Why SQLite is everywhere" },
+    201: { id: 201, title: "Ask HN: Favorite Rust crates?" },
+  };
+  let mockClient: {
+    getTopStories: jest.Mock;
+    getNewStories: jest.Mock;
+    getBestStories: jest.Mock;
+    getCachedItems: jest.Mock;
+    getCachedUsernames: jest.Mock;
+  };
+
+  beforeEach(() => {
+    mockClient = {
+      getTopStories: jest.fn().mockResolvedValue([101, 102]),
+      getNewStories: jest.fn().mockResolvedValue([201, 101]),
+      getBestStories: jest.fn().mockRejectedValue(new Error("Network error")),
+      // 201 hasn't been fetched yet
+      getCachedItems: jest.fn((ids: number[]) => ids.flatMap(id => (id === 201 ? [] : [items[id]]))),
+      getCachedUsernames: jest.fn().mockReturnValue(["pg", "patio11", "dang"]),
+    };
+  });
+
+  const completers = () => createCompleters(mockClient as unknown as HackerNewsClient);
+
+  it("should complete story ids by prefix from the current lists", async () => {
+    await expect(completers().storyId("10")).resolves.toEqual(["101", "102"]);
+    await expect(completers().storyId("")).resolves.toEqual(["101", "102", "201"]);
+    expect(mockClient.getCachedItems).not.toHaveBeenCalled();
+    expect(mockClient.getTopStories).toHaveBeenCalledWith({ priority: "bulk" });
+  });
+
+  it("should complete story ids by the titles of cached stories", async () => {
+    await expect(completers().storyId("rust")).resolves.toEqual(["101"]);
+    expect(mockClient.getCachedItems).toHaveBeenCalledWith([101, 102, 201]);
+  });
+
+  it("should complete usernames seen in the cache", () => {
+    expect(completers().username("PA")).toEqual(["patio11"]);
+  });
+
+  it("should complete fixed values by prefix", () => {
+    const complete = completeFrom(["basic", "detailed", "comprehensive"]);
+
+    expect(complete("de")).toEqual(["detailed"]);
+    expect(complete(undefined)).toEqual(["basic", "detailed", "comprehensive"]);
+  });
+
+  it("should keep optional completable arguments optional and completable", async () => {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    server.registerPrompt(
+      "depth",
+      {
+        argsSchema: {
+          depth: optionalCompletable(completeFrom(["basic", "detailed"])).describe("Level of detail")
+        }
+      },
+      ({ depth }) => ({ messages: [{ role: "user", content: { type: "text", text: depth ?? "basic" } }] })
+    );
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts[0].arguments).toEqual([{ name: "depth", description: "Level of detail", required: false }]);
+
+    const result = await client.complete({
+      ref: { type: "ref/prompt", name: "depth" },
+      argument: { name: "depth", value: "b" }
+    });
+    expect(result.completion.values).toEqual(["basic"]);
+
+    const prompt = await client.getPrompt({ name: "depth", arguments: {} });
+    expect(prompt.messages[0].content).toEqual({ type: "text", text: "basic" });
+    await expect(client.getPrompt({ name: "depth", arguments: { depth: "detailed" } })).resolves.toMatchObject({
+      messages: [{ content: { text: "detailed" } }]
+    });
+    await client.close();
+  });
+});
@@ -0,0 +1,71 @@
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { z } from "zod";
+import { HackerNewsClient } from "../api/client.js";
+import { logger } from "../utils/logger.js";
+
+const log = logger.child({ module: "completions" });
+
+// Stories considered from each of the top, new and best lists
+const STORIES_PER_LIST = 30;
+
+export interface Completers {
+  // Ids of current top, new and best stories: by id prefix, or by title (of
+  // stories already cached) when the value isn't a number
+  storyId: (value: string) => Promise<string[]>;
+  // Usernames already in the cache, by prefix
+  username: (value: string) => string[];
+}
+
+// Case-insensitive prefix match against a fixed set of values, for prompt
+// arguments the handlers switch on
+export function completeFrom(values: readonly string[]): (value: string | undefined) => string[] {
+  return value => {
+    const prefix = (value || "").toLowerCase();
+    return values.filter(candidate => candidate.toLowerCase().startsWith(prefix));
+  };
+}
+
+// An optional prompt argument with completions; handlers apply its default.
+// The SDK only completes arguments that are completable themselves (not one
+// inside ZodOptional), so the optional string goes inside. Prompt argument
+// types only admit string schemas, hence the cast; parsing is unchanged.
+export function optionalCompletable(complete: (value: string | undefined) => string[]): z.ZodOptional<z.ZodString> {
+  return completable(z.string().optional(), complete) as unknown as z.ZodOptional<z.ZodString>;
+}
+
+export function createCompleters(client: HackerNewsClient): Completers {
+  const currentStoryIds = async (): Promise<number[]> => {
+    const lists = await Promise.allSettled([
+      client.getTopStories({ priority: "bulk" }),
+      client.getNewStories({ priority: "bulk" }),
+      client.getBestStories({ priority: "bulk" }),
+    ]);
+    const ids = new Set<number>();
+    for (const list of lists) {
+      if (list.status === "fulfilled") {
+        list.value.slice(0, STORIES_PER_LIST).forEach(id => ids.add(id));
+      } else {
+        log.debug("Story list unavailable for completion:", list.reason);
+      }
+    }
+    return Array.from(ids);
+  };
+
+  return {
+    storyId: async value => {
+      const query = value.trim().toLowerCase();
+      const ids = await currentStoryIds();
+      if (/^\d*$/.test(query)) {
+        return ids.map(String).filter(id => id.startsWith(query));
+      }
+
+      // Keystrokes shouldn't fetch up to 90 stories, so titles come from the cache
+      return client.getCachedItems(ids).flatMap(story => (story.title?.toLowerCase().includes(query) ? [String(story.id)] : []));
+    },
+
+    username: value => {
+      const prefix = value.trim().toLowerCase();
+      return client.getCachedUsernames().filter(name => name.toLowerCase().startsWith(prefix));
+    },
+  };
+}
@@ -0,0 +1,96 @@
+// Mock node-fetch so the client module loads without the ESM build
+jest.mock("node-fetch", () => jest.fn());
+
+import { HackerNewsClient } from "../api/client";
+import { ResourceListener, ResourceWatcher } from "../api/resource-watcher";
+import { FrontPage } from "./front-page";
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe("FrontPage", () => {
+  let mockClient: { getTopStories: jest.Mock; getMultipleItems: jest.Mock };
+  let watcherListener: ResourceListener | undefined;
+  const unsubscribe = jest.fn();
+  const mockWatcher = {
+    subscribe: jest.fn((_uri: string, listener: ResourceListener) => {
+      watcherListener = listener;
+      return unsubscribe;
+    }),
+  };
+
+  beforeEach(() => {
+    watcherListener = undefined;
+    unsubscribe.mockClear();
+    mockWatcher.subscribe.mockClear();
+    mockClient = {
+      getTopStories: jest.fn().mockResolvedValue([1, 2, 3]),
+      getMultipleItems: jest.fn().mockResolvedValue([
+        { id: 1, type: "story", title: "One" },
+        null,
+        { id: 3, type: "story", title: "Three", deleted: true },
+      ]),
+    };
+  });
+
+  const createFrontPage = () =>
+    new FrontPage(mockClient as unknown as HackerNewsClient, mockWatcher as unknown as ResourceWatcher);
+
+  it("should return the live stories of the top 30", async () => {
+    mockClient.getTopStories.mockResolvedValue(Array.from({ length: 40 }, (_, index) => index + 1));
+
+    const stories = await createFrontPage().stories();
+
+    expect(mockClient.getMultipleItems.mock.calls[0][0]).toHaveLength(30);
+    expect(stories.map(story => story.id)).toEqual([1]);
+  });
+
+  it("should notify when the set of front-page stories changes", async () => {
+    const frontPage = createFrontPage();
+    const listener = jest.fn();
+    frontPage.onChange(listener);
+    await flush();
+
+    expect(mockWatcher.subscribe).toHaveBeenCalledWith("hackernews://stories/top", expect.any(Function));
+
+    // Reordering keeps the same listing
+    mockClient.getTopStories.mockResolvedValue([3, 1, 2]);
+    watcherListener!("hackernews://stories/top");
+    await flush();
+    expect(listener).not.toHaveBeenCalled();
+
+    mockClient.getTopStories.mockResolvedValue([4, 1, 2]);
+    await expect(frontPage.check()).resolves.toBe(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop watching once the last listener leaves", async () => {
+    const frontPage = createFrontPage();
+    const removeFirst = frontPage.onChange(jest.fn());
+    const removeSecond = frontPage.onChange(jest.fn());
+    await flush();
+
+    expect(mockWatcher.subscribe).toHaveBeenCalledTimes(1);
+    removeFirst();
+    expect(unsubscribe).not.toHaveBeenCalled();
+    removeSecond();
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it("should only watch for a client once it lists the front page", async () => {
+    const frontPage = createFrontPage();
+    const listener = jest.fn();
+    const view = frontPage.forClient(listener);
+    await flush();
+    expect(mockWatcher.subscribe).not.toHaveBeenCalled();
+
+    await view.stories();
+    await view.stories();
+    view.watch();
+    expect(mockWatcher.subscribe).toHaveBeenCalledTimes(1);
+
+    view.close();
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+    await view.stories();
+    expect(mockWatcher.subscribe).toHaveBeenCalledTimes(1);
+  });
+});
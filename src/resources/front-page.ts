@@ -0,0 +1,105 @@
+import { HackerNewsClient, RequestOptions } from "../api/client.js";
+import { ResourceWatcher } from "../api/resource-watcher.js";
+import { HackerNewsItem } from "../types/hackernews.js";
+import { logger } from "../utils/logger.js";
+
+const log = logger.child({ module: "resources" });
+
+// Stories listed by resources/list, as on news.ycombinator.com
+export const FRONT_PAGE_SIZE = 30;
+
+const TOP_STORIES_URI = "hackernews://stories/top";
+
+// The front page as one client sees it. Change notifications only start once
+// the client lists resources or reads the top stories, so clients that never
+// do don't keep top stories polling, and close() stops them when it goes away.
+export interface ClientFrontPage {
+  stories(options?: RequestOptions): Promise<HackerNewsItem[]>;
+  watch(): void;
+  close(): void;
+}
+
+// The current front page for resource listings. While anyone listens for
+// changes it rides on the watcher's top-stories polling and reports when the
+// set of front-page stories changes; reordering alone changes no listing.
+export class FrontPage {
+  private readonly client: HackerNewsClient;
+  private readonly watcher: ResourceWatcher;
+  private readonly listeners = new Set<() => void>();
+  private unsubscribe?: () => void;
+  // Sorted ids of the front page last seen
+  private lastSeen?: string;
+
+  constructor(client: HackerNewsClient, watcher: ResourceWatcher) {
+    this.client = client;
+    this.watcher = watcher;
+  }
+
+  async stories(options: RequestOptions = {}): Promise<HackerNewsItem[]> {
+    const ids = (await this.client.getTopStories(options)).slice(0, FRONT_PAGE_SIZE);
+    const items = await this.client.getMultipleItems(ids, options);
+    return items.filter((item): item is HackerNewsItem => item !== null && !item.deleted && !item.dead);
+  }
+
+  // Returns a function that removes the listener again
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    if (!this.unsubscribe) {
+      this.unsubscribe = this.watcher.subscribe(TOP_STORIES_URI, () => void this.check());
+      void this.check();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.unsubscribe) {
+        this.unsubscribe();
+        this.unsubscribe = undefined;
+        this.lastSeen = undefined;
+      }
+    };
+  }
+
+  // A view for one client that calls listener when the front page changes
+  forClient(listener: () => void): ClientFrontPage {
+    let remove: (() => void) | undefined;
+    let closed = false;
+    const watch = () => {
+      if (!closed && !remove) {
+        remove = this.onChange(listener);
+      }
+    };
+
+    return {
+      stories: options => {
+        watch();
+        return this.stories(options);
+      },
+      watch,
+      close: () => {
+        closed = true;
+        remove?.();
+        remove = undefined;
+      },
+    };
+  }
+
+  // Compares the front page with the last one seen; the first check only
+  // records a baseline
+  async check(): Promise<boolean> {
+    try {
+      const ids = (await this.client.getTopStories({ priority: "bulk" })).slice(0, FRONT_PAGE_SIZE);
+      const seen = [...ids].sort((a, b) => a - b).join(",");
+      const changed = this.lastSeen !== undefined && this.lastSeen !== seen;
+      this.lastSeen = seen;
+
+      if (changed) {
+        log.debug("Front page changed; notifying resource list listeners");
+        this.listeners.forEach(listener => listener());
+      }
+      return changed;
+    } catch (error) {
+      log.debug("Could not check the front page:", error);
+      return false;
+    }
+  }
+}
@@ -1,5 +1,20 @@
+// Mock node-fetch so the client module loads without the ESM build
+jest.mock("node-fetch", () => jest.fn());
+
 import { setupResources } from "./index";
 import { HackerNewsClient } from "../api/client";
+import { formatCommentTree } from "../api/comment-tree";
+import {
+  createMockItem,
+  createMockUser,
+  createMockStoryWithMetadata,
+  createMockUserWithStats,
+  createMockComment,
+  createMockCacheStats,
+  createMockSchedulerStats,
+  createMockCoalescingStats,
+  createMockCommentTree
+} from "../test-helpers";
 
 // Mock the HackerNews client
 jest.mock("../api/client");
@@ -10,11 +25,27 @@ const mockMcpServer = {
   registerResource: jest.fn()
 };
 
+// The request extra the SDK passes every resource handler
+const createExtra = () => ({
+  signal: new AbortController().signal,
+  requestId: 1,
+  sendNotification: jest.fn(),
+  sendRequest: jest.fn()
+});
+
+const createMockFrontPage = () => ({
+  stories: jest.fn().mockResolvedValue([]),
+  watch: jest.fn(),
+  close: jest.fn()
+});
+
 describe("MCP Resources", () => {
   let mockHnClient: jest.Mocked<HackerNewsClient>;
+  let mockFrontPage: ReturnType<typeof createMockFrontPage>;
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockFrontPage = createMockFrontPage();
     mockHnClient = new MockedHackerNewsClient({
       baseUrl: "https://test.com",
       timeout: 5000
@@ -23,10 +54,10 @@ describe("MCP Resources", () => {
 
   describe("setupResources", () => {
     it("should register all expected resources", async () => {
-      await setupResources(mockMcpServer as any, mockHnClient);
+      await setupResources(mockMcpServer as any, mockHnClient, mockFrontPage);
 
       // Verify all resources are registered
-      expect(mockMcpServer.registerResource).toHaveBeenCalledTimes(14);
+      expect(mockMcpServer.registerResource).toHaveBeenCalledTimes(15);
       
       // Check that specific resources are registered
       const registeredResources = mockMcpServer.registerResource.mock.calls.map(call => call[0]);
@@ -40,6 +71,7 @@ describe("MCP Resources", () => {
       expect(registeredResources).toContain("ask-stories");
       expect(registeredResources).toContain("show-stories");
       expect(registeredResources).toContain("job-stories");
+      expect(registeredResources).toContain("story-collection");
       expect(registeredResources).toContain("comments");
       expect(registeredResources).toContain("updates");
       expect(registeredResources).toContain("max-item");
@@ -51,7 +83,7 @@ describe("MCP Resources", () => {
     let resourceHandlers: { [key: string]: Function };
 
     beforeEach(async () => {
-      await setupResources(mockMcpServer as any, mockHnClient);
+      await setupResources(mockMcpServer as any, mockHnClient, mockFrontPage);
       
       // Extract handlers from registerResource calls
       resourceHandlers = {};
@@ -63,19 +95,13 @@ describe("MCP Resources", () => {
 
     describe("item resource", () => {
       it("should fetch and return item data", async () => {
-        const mockItem = {
-          id: 123,
-          type: "story",
-          title: "Test Story",
-          by: "testuser",
-          score: 100
-        };
+        const mockItem = createMockItem();
 
         mockHnClient.getItem.mockResolvedValue(mockItem);
 
-        const result = await resourceHandlers["item"]({ href: "hackernews://item/123" }, { id: "123" });
+        const result = await resourceHandlers["item"](new URL("hackernews://item/123"), { id: "123" }, createExtra());
 
-        expect(mockHnClient.getItem).toHaveBeenCalledWith(123);
+        expect(mockHnClient.getItem).toHaveBeenCalledWith(123, { signal: expect.any(AbortSignal) });
         expect(result.contents).toHaveLength(1);
         expect(result.contents[0].mimeType).toBe("application/json");
         expect(JSON.parse(result.contents[0].text)).toEqual(mockItem);
@@ -85,35 +111,26 @@ describe("MCP Resources", () => {
         mockHnClient.getItem.mockResolvedValue(null);
 
         await expect(
-          resourceHandlers["item"]({ href: "hackernews://item/999" }, { id: "999" })
+          resourceHandlers["item"](new URL("hackernews://item/999"), { id: "999" }, createExtra())
         ).rejects.toThrow("Item 999 not found");
       });
 
       it("should handle invalid item IDs", async () => {
         await expect(
-          resourceHandlers["item"]({ href: "hackernews://item/invalid" }, { id: "invalid" })
+          resourceHandlers["item"](new URL("hackernews://item/invalid"), { id: "invalid" }, createExtra())
         ).rejects.toThrow("Invalid item ID: invalid");
       });
     });
 
     describe("story resource", () => {
       it("should fetch story with metadata", async () => {
-        const mockStory = {
-          id: 123,
-          type: "story",
-          title: "Test Story",
-          by: "testuser",
-          score: 100,
-          domain: "example.com",
-          ageHours: 2.5,
-          commentCount: 25
-        };
+        const mockStory = createMockStoryWithMetadata();
 
         mockHnClient.getStoryWithMetadata.mockResolvedValue(mockStory);
 
-        const result = await resourceHandlers["story"]({ href: "hackernews://story/123" }, { id: "123" });
+        const result = await resourceHandlers["story"](new URL("hackernews://story/123"), { id: "123" }, createExtra());
 
-        expect(mockHnClient.getStoryWithMetadata).toHaveBeenCalledWith(123);
+        expect(mockHnClient.getStoryWithMetadata).toHaveBeenCalledWith(123, { signal: expect.any(AbortSignal) });
         expect(result.contents).toHaveLength(1);
         expect(JSON.parse(result.contents[0].text)).toEqual(mockStory);
       });
@@ -122,26 +139,20 @@ describe("MCP Resources", () => {
         mockHnClient.getStoryWithMetadata.mockResolvedValue(null);
 
         await expect(
-          resourceHandlers["story"]({ href: "hackernews://story/123" }, { id: "123" })
+          resourceHandlers["story"](new URL("hackernews://story/123"), { id: "123" }, createExtra())
         ).rejects.toThrow("Story 123 not found or is not a story");
       });
     });
 
     describe("user resource", () => {
       it("should fetch user profile", async () => {
-        const mockUser = {
-          id: "testuser",
-          created: 1640995200,
-          karma: 1000,
-          about: "Test user",
-          submitted: [123, 456, 789]
-        };
+        const mockUser = createMockUser();
 
         mockHnClient.getUser.mockResolvedValue(mockUser);
 
-        const result = await resourceHandlers["user"]({ href: "hackernews://user/testuser" }, { username: "testuser" });
+        const result = await resourceHandlers["user"](new URL("hackernews://user/testuser"), { username: "testuser" }, createExtra());
 
-        expect(mockHnClient.getUser).toHaveBeenCalledWith("testuser");
+        expect(mockHnClient.getUser).toHaveBeenCalledWith("testuser", { signal: expect.any(AbortSignal) });
         expect(result.contents).toHaveLength(1);
         expect(JSON.parse(result.contents[0].text)).toEqual(mockUser);
       });
@@ -150,29 +161,20 @@ describe("MCP Resources", () => {
         mockHnClient.getUser.mockResolvedValue(null);
 
         await expect(
-          resourceHandlers["user"]({ href: "hackernews://user/nonexistent" }, { username: "nonexistent" })
+          resourceHandlers["user"](new URL("hackernews://user/nonexistent"), { username: "nonexistent" }, createExtra())
         ).rejects.toThrow("User nonexistent not found");
       });
     });
 
     describe("user-stats resource", () => {
       it("should fetch user with statistics", async () => {
-        const mockUserStats = {
-          id: "testuser",
-          created: 1640995200,
-          karma: 1000,
-          about: "Test user",
-          submitted: [123, 456, 789],
-          averageScore: 150,
-          topStories: [{ id: 123, title: "Top Story", score: 200 }],
-          recentActivity: [{ id: 456, type: "comment", text: "Recent comment" }]
-        };
+        const mockUserStats = createMockUserWithStats();
 
         mockHnClient.getUserWithStats.mockResolvedValue(mockUserStats);
 
-        const result = await resourceHandlers["user-stats"]({ href: "hackernews://user-stats/testuser" }, { username: "testuser" });
+        const result = await resourceHandlers["user-stats"](new URL("hackernews://user-stats/testuser"), { username: "testuser" }, createExtra());
 
-        expect(mockHnClient.getUserWithStats).toHaveBeenCalledWith("testuser");
+        expect(mockHnClient.getUserWithStats).toHaveBeenCalledWith("testuser", { signal: expect.any(AbortSignal) });
         expect(result.contents).toHaveLength(1);
         expect(JSON.parse(result.contents[0].text)).toEqual(mockUserStats);
       });
@@ -180,20 +182,20 @@ describe("MCP Resources", () => {
 
     describe("story collection resources", () => {
       const storyCollectionTests = [
-        { name: "top-stories", method: "getTopStories", title: "Top Stories" },
-        { name: "new-stories", method: "getNewStories", title: "New Stories" },
-        { name: "best-stories", method: "getBestStories", title: "Best Stories" },
-        { name: "ask-stories", method: "getAskStories", title: "Ask HN Stories" },
-        { name: "show-stories", method: "getShowStories", title: "Show HN Stories" },
-        { name: "job-stories", method: "getJobStories", title: "Job Stories" }
+        { name: "top-stories", list: "top", method: "getTopStories", title: "Top Stories" },
+        { name: "new-stories", list: "new", method: "getNewStories", title: "New Stories" },
+        { name: "best-stories", list: "best", method: "getBestStories", title: "Best Stories" },
+        { name: "ask-stories", list: "ask", method: "getAskStories", title: "Ask HN Stories" },
+        { name: "show-stories", list: "show", method: "getShowStories", title: "Show HN Stories" },
+        { name: "job-stories", list: "jobs", method: "getJobStories", title: "Job Stories" }
       ];
 
-      storyCollectionTests.forEach(({ name, method, title }) => {
+      storyCollectionTests.forEach(({ name, list, method, title }) => {
         it(`should fetch ${name}`, async () => {
-          const mockStoryIds = [123, 456, 789, 101112];
+          const mockStoryIds = Array.from({ length: 40 }, (_, i) => i + 1);
           (mockHnClient as any)[method].mockResolvedValue(mockStoryIds);
 
-          const result = await resourceHandlers[name]({ href: `hackernews://stories/${name.split('-')[1]}` });
+          const result = await resourceHandlers[name](new URL(`hackernews://stories/${list}`), createExtra());
 
           expect((mockHnClient as any)[method]).toHaveBeenCalled();
           expect(result.contents).toHaveLength(1);
@@ -205,27 +207,39 @@ describe("MCP Resources", () => {
           expect(parsedContent.count).toBe(30);
         });
       });
+
+      it("should watch the front page once the top stories are read", async () => {
+        mockHnClient.getTopStories.mockResolvedValue([123]);
+        mockHnClient.getNewStories.mockResolvedValue([123]);
+
+        await resourceHandlers["new-stories"](new URL("hackernews://stories/new"), createExtra());
+        expect(mockFrontPage.watch).not.toHaveBeenCalled();
+
+        await resourceHandlers["top-stories"](new URL("hackernews://stories/top"), createExtra());
+        expect(mockFrontPage.watch).toHaveBeenCalled();
+      });
     });
 
     describe("comments resource", () => {
       it("should fetch comment tree", async () => {
         const mockComments = [
-          { id: 456, type: "comment", text: "First comment", parent: 123 },
-          { id: 789, type: "comment", text: "Second comment", parent: 123 }
+          createMockComment({ id: 456, text: "First comment" }),
+          createMockComment({ id: 789, text: "Second comment" })
         ];
 
-        mockHnClient.getCommentTree.mockResolvedValue(mockComments);
+        const mockTree = createMockCommentTree(123, mockComments);
+        mockHnClient.getCommentTree.mockResolvedValue(mockTree);
 
-        const result = await resourceHandlers["comments"]({ href: "hackernews://comments/123" }, { id: "123" });
+        const result = await resourceHandlers["comments"](new URL("hackernews://comments/123"), { id: "123" }, createExtra());
 
-        expect(mockHnClient.getCommentTree).toHaveBeenCalledWith(123);
+        expect(mockHnClient.getCommentTree).toHaveBeenCalledWith(123, expect.objectContaining({ signal: expect.any(AbortSignal) }));
         expect(result.contents).toHaveLength(1);
         
         const parsedContent = JSON.parse(result.contents[0].text);
         expect(parsedContent.type).toBe("comment_tree");
         expect(parsedContent.item_id).toBe(123);
         expect(parsedContent.comment_count).toBe(2);
-        expect(parsedContent.comments).toEqual(mockComments);
+        expect(parsedContent.comments).toEqual(formatCommentTree(mockTree, "nested"));
       });
     });
 
@@ -238,7 +252,7 @@ describe("MCP Resources", () => {
 
         mockHnClient.getUpdates.mockResolvedValue(mockUpdates);
 
-        const result = await resourceHandlers["updates"]({ href: "hackernews://updates" });
+        const result = await resourceHandlers["updates"](new URL("hackernews://updates"), createExtra());
 
         expect(mockHnClient.getUpdates).toHaveBeenCalled();
         expect(result.contents).toHaveLength(1);
@@ -256,7 +270,7 @@ describe("MCP Resources", () => {
 
         mockHnClient.getMaxItemId.mockResolvedValue(mockMaxId);
 
-        const result = await resourceHandlers["max-item"]({ href: "hackernews://max-item" });
+        const result = await resourceHandlers["max-item"](new URL("hackernews://max-item"), createExtra());
 
         expect(mockHnClient.getMaxItemId).toHaveBeenCalled();
         expect(result.contents).toHaveLength(1);
@@ -269,15 +283,16 @@ describe("MCP Resources", () => {
 
     describe("cache-stats resource", () => {
       it("should fetch cache statistics", async () => {
-        const mockCacheStats = {
-          items: 150,
-          users: 25,
-          lists: 10
-        };
+        const mockCacheStats = { ...createMockCacheStats(), items: 150 };
 
-        mockHnClient.getCacheStats.mockResolvedValue(mockCacheStats);
+        mockHnClient.getCacheStats.mockReturnValue(mockCacheStats);
+        mockHnClient.getSchedulerStats.mockReturnValue(createMockSchedulerStats());
+        mockHnClient.getCoalescingStats.mockReturnValue(createMockCoalescingStats());
+        mockHnClient.getTtlPolicy.mockReturnValue({
+          mode: "age", minItemTtlSeconds: 15, maxItemTtlSeconds: 604800, listTtlSeconds: 60, baseTtlSeconds: 300
+        });
 
-        const result = await resourceHandlers["cache-stats"]({ href: "hackernews://cache/stats" });
+        const result = await resourceHandlers["cache-stats"](new URL("hackernews://cache/stats"), createExtra());
 
         expect(mockHnClient.getCacheStats).toHaveBeenCalled();
         expect(result.contents).toHaveLength(1);
@@ -286,6 +301,12 @@ describe("MCP Resources", () => {
         expect(parsedContent.type).toBe("cache_statistics");
         expect(parsedContent.cache_stats).toEqual(mockCacheStats);
         expect(parsedContent.total_cached_items).toBe(185); // 150 + 25 + 10
+        expect(parsedContent.scheduler.queue_depth).toBe(5);
+        expect(parsedContent.scheduler.queue_depth_by_priority.bulk).toBe(2);
+        expect(parsedContent.coalescing.coalesced_requests).toBe(30);
+        expect(parsedContent.hit_ratio).toEqual({ items: 0.8, users: 0.667, lists: 0.9, overall: 0.8 });
+        expect(parsedContent.uptime_seconds).toEqual(expect.any(Number));
+        expect(parsedContent.ttl_policy.mode).toBe("age");
       });
     });
   });
@@ -294,7 +315,7 @@ describe("MCP Resources", () => {
     let resourceHandlers: { [key: string]: Function };
 
     beforeEach(async () => {
-      await setupResources(mockMcpServer as any, mockHnClient);
+      await setupResources(mockMcpServer as any, mockHnClient, mockFrontPage);
       
       resourceHandlers = {};
       mockMcpServer.registerResource.mock.calls.forEach(call => {
@@ -307,26 +328,26 @@ describe("MCP Resources", () => {
       mockHnClient.getItem.mockRejectedValue(new Error("Network error"));
 
       await expect(
-        resourceHandlers["item"]({ href: "hackernews://item/123" }, { id: "123" })
+        resourceHandlers["item"](new URL("hackernews://item/123"), { id: "123" }, createExtra())
       ).rejects.toThrow("Network error");
     });
 
     it("should handle malformed parameters", async () => {
       await expect(
-        resourceHandlers["item"]({ href: "hackernews://item/abc" }, { id: "abc" })
+        resourceHandlers["item"](new URL("hackernews://item/abc"), { id: "abc" }, createExtra())
       ).rejects.toThrow("Invalid item ID: abc");
     });
 
     it("should handle missing parameters", async () => {
       await expect(
-        resourceHandlers["item"]({ href: "hackernews://item/" }, { id: undefined })
+        resourceHandlers["item"](new URL("hackernews://item/"), { id: undefined }, createExtra())
       ).rejects.toThrow();
     });
   });
 
   describe("resource metadata", () => {
     it("should register resources with correct metadata", async () => {
-      await setupResources(mockMcpServer as any, mockHnClient);
+      await setupResources(mockMcpServer as any, mockHnClient, mockFrontPage);
 
       const itemResourceCall = mockMcpServer.registerResource.mock.calls.find(call => call[0] === "item");
       expect(itemResourceCall).toBeDefined();
@@ -338,7 +359,7 @@ describe("MCP Resources", () => {
     });
 
     it("should register story resource with correct metadata", async () => {
-      await setupResources(mockMcpServer as any, mockHnClient);
+      await setupResources(mockMcpServer as any, mockHnClient, mockFrontPage);
 
       const storyResourceCall = mockMcpServer.registerResource.mock.calls.find(call => call[0] === "story");
       expect(storyResourceCall).toBeDefined();
@@ -354,7 +375,7 @@ describe("MCP Resources", () => {
     let resourceHandlers: { [key: string]: Function };
 
     beforeEach(async () => {
-      await setupResources(mockMcpServer as any, mockHnClient);
+      await setupResources(mockMcpServer as any, mockHnClient, mockFrontPage);
       
       resourceHandlers = {};
       mockMcpServer.registerResource.mock.calls.forEach(call => {
@@ -364,13 +385,13 @@ describe("MCP Resources", () => {
     });
 
     it("should handle multiple concurrent resource requests", async () => {
-      const mockItem = { id: 123, type: "story", title: "Test" };
+      const mockItem = createMockItem({ title: "Test" });
       mockHnClient.getItem.mockResolvedValue(mockItem);
 
       const promises = [];
       for (let i = 0; i < 10; i++) {
         promises.push(
-          resourceHandlers["item"]({ href: `hackernews://item/${i}` }, { id: String(i) })
+          resourceHandlers["item"](new URL(`hackernews://item/${i}`), { id: String(i) }, createExtra())
         );
       }
 
@@ -384,7 +405,7 @@ describe("MCP Resources", () => {
       mockHnClient.getTopStories.mockResolvedValue(mockStoryIds);
 
       const startTime = Date.now();
-      await resourceHandlers["top-stories"]({ href: "hackernews://stories/top" });
+      await resourceHandlers["top-stories"](new URL("hackernews://stories/top"), createExtra());
       const duration = Date.now() - startTime;
 
       expect(duration).toBeLessThan(100); // Should complete in less than 100ms
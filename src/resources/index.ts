@@ -1,27 +1,85 @@
 import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { HackerNewsClient } from "../api/client.js";
+import { COMMENT_FORMATS, formatCommentTree } from "../api/comment-tree.js";
+import { HackerNewsItem } from "../types/hackernews.js";
+import { CacheStats, hitRatio } from "../utils/cache.js";
 import { logger } from "../utils/logger.js";
-
-export async function setupResources(server: McpServer, hnClient: HackerNewsClient): Promise<void> {
-  logger.info("Setting up MCP resources for HackerNews...");
+import { withRequestContext } from "../utils/request-context.js";
+import { ShutdownCoordinator, trackHandler } from "../utils/shutdown.js";
+import {
+  findCollection,
+  MAX_PAGE_SIZE,
+  parseCollectionQuery,
+  readStoryCollection,
+  StoryCollection,
+  StoryCollectionTemplate,
+  STORY_COLLECTIONS
+} from "./collections.js";
+import { completeFrom, createCompleters } from "./completions.js";
+import { ClientFrontPage } from "./front-page.js";
+import { idList, oneOf, positiveInteger, rejectUnknownParams } from "./query.js";
+
+const log = logger.child({ module: "resources" });
+
+// "412 points by pg, 87 comments"
+function describeStory(story: HackerNewsItem): string {
+  const parts = [`${story.score ?? 0} points`];
+  if (story.by) {
+    parts[0] += ` by ${story.by}`;
+  }
+  parts.push(`${story.descendants ?? 0} comments`);
+  return parts.join(", ");
+}
+
+// Rounded for display; the metrics gauge reports the same ratio unrounded
+function roundedHitRatio(stats: Pick<CacheStats, "hits" | "staleHits" | "misses">): number {
+  return Math.round(hitRatio(stats) * 1000) / 1000;
+}
+
+// resources/list enumerates the front page through the story, item and user
+// templates; once the client has listed it or read the top stories,
+// list_changed is sent when it changes (see ClientFrontPage). With a shutdown
+// coordinator, reads and lists are drained like tool calls.
+export async function setupResources(
+  server: McpServer,
+  hnClient: HackerNewsClient,
+  frontPage: ClientFrontPage,
+  shutdown?: ShutdownCoordinator
+): Promise<void> {
+  log.info("Setting up MCP resources for HackerNews...");
+
+  const resource = <A extends unknown[], R>(name: string, handler: (...args: A) => Promise<R>) =>
+    withRequestContext("resource", name, trackHandler(shutdown, handler));
+
+  const completers = createCompleters(hnClient);
 
   // Individual item resource (stories, comments, jobs, polls)
   server.registerResource(
     "item",
-    new ResourceTemplate("hackernews://item/{id}", { list: undefined }),
+    new ResourceTemplate("hackernews://item/{id}", {
+      list: trackHandler(shutdown, async ({ signal }) => ({
+        resources: (await frontPage.stories({ signal })).map(story => ({
+          uri: `hackernews://item/${story.id}`,
+          name: story.title || `Item ${story.id}`,
+          description: describeStory(story),
+          mimeType: "application/json"
+        }))
+      })),
+      complete: { id: completers.storyId }
+    }),
     {
       title: "HackerNews Item",
       description: "Access individual HackerNews items (stories, comments, jobs, polls) by ID",
       mimeType: "application/json"
     },
-    async (uri, { id }) => {
+    resource("item", async (uri, { id }, { signal }) => {
       try {
         const itemId = parseInt(id as string, 10);
         if (isNaN(itemId)) {
           throw new Error(`Invalid item ID: ${id}`);
         }
 
-        const item = await hnClient.getItem(itemId);
+        const item = await hnClient.getItem(itemId, { signal });
         if (!item) {
           throw new Error(`Item ${itemId} not found`);
         }
@@ -34,29 +92,39 @@ export async function setupResources(server: McpServer, hnClient: HackerNewsClie
           }]
         };
       } catch (error) {
-        logger.error(`Failed to fetch item ${id}:`, error);
+        log.error(`Failed to fetch item ${id}:`, error);
         throw error;
       }
-    }
+    })
   );
 
   // Story with enhanced metadata
   server.registerResource(
     "story",
-    new ResourceTemplate("hackernews://story/{id}", { list: undefined }),
+    new ResourceTemplate("hackernews://story/{id}", {
+      list: trackHandler(shutdown, async ({ signal }) => ({
+        resources: (await frontPage.stories({ signal })).map(story => ({
+          uri: `hackernews://story/${story.id}`,
+          name: story.title || `Story ${story.id}`,
+          description: describeStory(story),
+          mimeType: "application/json"
+        }))
+      })),
+      complete: { id: completers.storyId }
+    }),
     {
       title: "HackerNews Story with Metadata",
       description: "Access HackerNews stories with enhanced metadata (age, domain, comment count)",
       mimeType: "application/json"
     },
-    async (uri, { id }) => {
+    resource("story", async (uri, { id }, { signal }) => {
       try {
         const itemId = parseInt(id as string, 10);
         if (isNaN(itemId)) {
           throw new Error(`Invalid story ID: ${id}`);
         }
 
-        const story = await hnClient.getStoryWithMetadata(itemId);
+        const story = await hnClient.getStoryWithMetadata(itemId, { signal });
         if (!story) {
           throw new Error(`Story ${itemId} not found or is not a story`);
         }
@@ -69,24 +137,38 @@ export async function setupResources(server: McpServer, hnClient: HackerNewsClie
           }]
         };
       } catch (error) {
-        logger.error(`Failed to fetch story ${id}:`, error);
+        log.error(`Failed to fetch story ${id}:`, error);
         throw error;
       }
-    }
+    })
   );
 
   // User profile resource
   server.registerResource(
     "user",
-    new ResourceTemplate("hackernews://user/{username}", { list: undefined }),
+    new ResourceTemplate("hackernews://user/{username}", {
+      // Authors of front-page stories
+      list: trackHandler(shutdown, async ({ signal }) => {
+        const authors = new Set((await frontPage.stories({ signal })).flatMap(story => (story.by ? [story.by] : [])));
+        return {
+          resources: Array.from(authors, author => ({
+            uri: `hackernews://user/${encodeURIComponent(author)}`,
+            name: author,
+            description: `Profile of ${author}, who has a story on the front page`,
+            mimeType: "application/json"
+          }))
+        };
+      }),
+      complete: { username: completers.username }
+    }),
     {
       title: "HackerNews User Profile",
       description: "Access HackerNews user profiles and activity",
       mimeType: "application/json"
     },
-    async (uri, { username }) => {
+    resource("user", async (uri, { username }, { signal }) => {
       try {
-        const user = await hnClient.getUser(username as string);
+        const user = await hnClient.getUser(username as string, { signal });
         if (!user) {
           throw new Error(`User ${username} not found`);
         }
@@ -99,24 +181,27 @@ export async function setupResources(server: McpServer, hnClient: HackerNewsClie
           }]
         };
       } catch (error) {
-        logger.error(`Failed to fetch user ${username}:`, error);
+        log.error(`Failed to fetch user ${username}:`, error);
         throw error;
       }
-    }
+    })
   );
 
   // User with statistics
   server.registerResource(
     "user-stats",
-    new ResourceTemplate("hackernews://user-stats/{username}", { list: undefined }),
+    new ResourceTemplate("hackernews://user-stats/{username}", {
+      list: undefined,
+      complete: { username: completers.username }
+    }),
     {
       title: "HackerNews User with Statistics",
       description: "Access HackerNews user profiles with calculated statistics and recent activity",
       mimeType: "application/json"
     },
-    async (uri, { username }) => {
+    resource("user-stats", async (uri, { username }, { signal }) => {
       try {
-        const userStats = await hnClient.getUserWithStats(username as string);
+        const userStats = await hnClient.getUserWithStats(username as string, { signal });
         if (!userStats) {
           throw new Error(`User ${username} not found`);
         }
@@ -129,233 +214,97 @@ export async function setupResources(server: McpServer, hnClient: HackerNewsClie
           }]
         };
       } catch (error) {
-        logger.error(`Failed to fetch user stats for ${username}:`, error);
-        throw error;
-      }
-    }
-  );
-
-  // Top stories collection
-  server.registerResource(
-    "top-stories",
-    "hackernews://stories/top",
-    {
-      title: "HackerNews Top Stories",
-      description: "Current top stories from HackerNews front page",
-      mimeType: "application/json"
-    },
-    async (uri) => {
-      try {
-        const storyIds = await hnClient.getTopStories();
-        const topStories = storyIds.slice(0, 30); // Limit to top 30
-
-        return {
-          contents: [{
-            uri: uri.href,
-            mimeType: "application/json",
-            text: JSON.stringify({
-              type: "story_collection",
-              title: "Top Stories",
-              count: topStories.length,
-              story_ids: topStories,
-              last_updated: new Date().toISOString()
-            }, null, 2)
-          }]
-        };
-      } catch (error) {
-        logger.error("Failed to fetch top stories:", error);
-        throw error;
-      }
-    }
-  );
-
-  // New stories collection
-  server.registerResource(
-    "new-stories",
-    "hackernews://stories/new",
-    {
-      title: "HackerNews New Stories",
-      description: "Latest new stories from HackerNews",
-      mimeType: "application/json"
-    },
-    async (uri) => {
-      try {
-        const storyIds = await hnClient.getNewStories();
-        const newStories = storyIds.slice(0, 30); // Limit to top 30
-
-        return {
-          contents: [{
-            uri: uri.href,
-            mimeType: "application/json",
-            text: JSON.stringify({
-              type: "story_collection",
-              title: "New Stories",
-              count: newStories.length,
-              story_ids: newStories,
-              last_updated: new Date().toISOString()
-            }, null, 2)
-          }]
-        };
-      } catch (error) {
-        logger.error("Failed to fetch new stories:", error);
+        log.error(`Failed to fetch user stats for ${username}:`, error);
         throw error;
       }
-    }
+    })
   );
 
-  // Best stories collection
-  server.registerResource(
-    "best-stories",
-    "hackernews://stories/best",
-    {
-      title: "HackerNews Best Stories",
-      description: "Best stories from HackerNews",
-      mimeType: "application/json"
-    },
-    async (uri) => {
-      try {
-        const storyIds = await hnClient.getBestStories();
-        const bestStories = storyIds.slice(0, 30); // Limit to top 30
-
-        return {
-          contents: [{
-            uri: uri.href,
-            mimeType: "application/json",
-            text: JSON.stringify({
-              type: "story_collection",
-              title: "Best Stories",
-              count: bestStories.length,
-              story_ids: bestStories,
-              last_updated: new Date().toISOString()
-            }, null, 2)
-          }]
-        };
-      } catch (error) {
-        logger.error("Failed to fetch best stories:", error);
-        throw error;
-      }
+  // Story collections: the first 30 ids of each list, or any page of it
+  // (optionally hydrated) through the story-collection template
+  const readCollection = async (uri: URL, collection: StoryCollection, signal: AbortSignal) => {
+    if (collection.list === "top") {
+      frontPage.watch();
     }
-  );
-
-  // Ask HN stories
-  server.registerResource(
-    "ask-stories",
-    "hackernews://stories/ask",
-    {
-      title: "Ask HackerNews Stories",
-      description: "Latest Ask HN stories and discussions",
-      mimeType: "application/json"
-    },
-    async (uri) => {
-      try {
-        const storyIds = await hnClient.getAskStories();
-        const askStories = storyIds.slice(0, 30); // Limit to top 30
-
-        return {
-          contents: [{
-            uri: uri.href,
-            mimeType: "application/json",
-            text: JSON.stringify({
-              type: "story_collection",
-              title: "Ask HN Stories",
-              count: askStories.length,
-              story_ids: askStories,
-              last_updated: new Date().toISOString()
-            }, null, 2)
-          }]
-        };
-      } catch (error) {
-        logger.error("Failed to fetch Ask HN stories:", error);
-        throw error;
-      }
+    try {
+      const query = parseCollectionQuery(uri.searchParams);
+      const result = await readStoryCollection(hnClient, collection, query, { signal });
+
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error) {
+      log.error(`Failed to fetch ${collection.title}:`, error);
+      throw error;
     }
-  );
+  };
+
+  for (const collection of STORY_COLLECTIONS) {
+    server.registerResource(
+      collection.name,
+      `hackernews://stories/${collection.list}`,
+      {
+        title: collection.resourceTitle,
+        description: collection.description,
+        mimeType: "application/json"
+      },
+      resource(collection.name, async (uri, { signal }) => readCollection(uri, collection, signal))
+    );
+  }
 
-  // Show HN stories
   server.registerResource(
-    "show-stories",
-    "hackernews://stories/show",
-    {
-      title: "Show HackerNews Stories",
-      description: "Latest Show HN stories and projects",
-      mimeType: "application/json"
-    },
-    async (uri) => {
-      try {
-        const storyIds = await hnClient.getShowStories();
-        const showStories = storyIds.slice(0, 30); // Limit to top 30
-
-        return {
-          contents: [{
-            uri: uri.href,
-            mimeType: "application/json",
-            text: JSON.stringify({
-              type: "story_collection",
-              title: "Show HN Stories",
-              count: showStories.length,
-              story_ids: showStories,
-              last_updated: new Date().toISOString()
-            }, null, 2)
-          }]
-        };
-      } catch (error) {
-        logger.error("Failed to fetch Show HN stories:", error);
-        throw error;
+    "story-collection",
+    new ResourceTemplate(new StoryCollectionTemplate(), {
+      list: undefined,
+      complete: {
+        list: completeFrom(STORY_COLLECTIONS.map(collection => collection.list)),
+        hydrate: completeFrom(["true", "false"])
       }
-    }
-  );
-
-  // Job stories
-  server.registerResource(
-    "job-stories",
-    "hackernews://stories/jobs",
+    }),
     {
-      title: "HackerNews Job Postings",
-      description: "Latest job postings from HackerNews",
+      title: "HackerNews Story Collection Page",
+      description: `A page of top, new, best, ask, show or jobs stories; pageSize up to ${MAX_PAGE_SIZE}, and hydrate=true adds each story's title, score, domain, age and comment count with its rank`,
       mimeType: "application/json"
     },
-    async (uri) => {
-      try {
-        const storyIds = await hnClient.getJobStories();
-        const jobStories = storyIds.slice(0, 30); // Limit to top 30
-
-        return {
-          contents: [{
-            uri: uri.href,
-            mimeType: "application/json",
-            text: JSON.stringify({
-              type: "story_collection",
-              title: "Job Stories",
-              count: jobStories.length,
-              story_ids: jobStories,
-              last_updated: new Date().toISOString()
-            }, null, 2)
-          }]
-        };
-      } catch (error) {
-        logger.error("Failed to fetch job stories:", error);
-        throw error;
-      }
-    }
+    resource("story-collection", async (uri, { list }, { signal }) =>
+      readCollection(uri, findCollection(list as string)!, signal)
+    )
   );
 
   // Comment tree for a story
   server.registerResource(
     "comments",
-    new ResourceTemplate("hackernews://comments/{id}", { list: undefined }),
+    new ResourceTemplate("hackernews://comments/{id}", {
+      list: undefined,
+      complete: { id: completers.storyId }
+    }),
     {
       title: "HackerNews Comment Tree",
-      description: "Complete comment tree for a HackerNews story or item",
+      description: "Comment tree for a HackerNews story or item, in rank order. Query parameters: format (nested or flat), maxDepth, maxComments (filled a level at a time: every top-level comment before any reply), timeBudgetMs, and cursor (comma-separated skipped ids from an earlier read)",
       mimeType: "application/json"
     },
-    async (uri, { id }) => {
+    resource("comments", async (uri, { id }, { signal }) => {
       try {
-        const itemId = parseInt(id as string, 10);
+        // {id} also captures any query string; the options come from searchParams
+        const itemId = parseInt(String(id).split("?")[0], 10);
         if (isNaN(itemId)) {
           throw new Error(`Invalid item ID: ${id}`);
         }
 
-        const comments = await hnClient.getCommentTree(itemId);
+        const params = uri.searchParams;
+        rejectUnknownParams(params, ["format", "maxDepth", "maxComments", "timeBudgetMs", "cursor"]);
+        const format = oneOf(params, "format", COMMENT_FORMATS, "nested");
+        const tree = await hnClient.getCommentTree(itemId, {
+          signal,
+          maxDepth: positiveInteger(params, "maxDepth", undefined),
+          maxComments: positiveInteger(params, "maxComments", undefined),
+          timeBudgetMs: positiveInteger(params, "timeBudgetMs", undefined),
+          cursor: idList(params, "cursor")
+        });
 
         return {
           contents: [{
@@ -364,17 +313,20 @@ export async function setupResources(server: McpServer, hnClient: HackerNewsClie
             text: JSON.stringify({
               type: "comment_tree",
               item_id: itemId,
-              comment_count: comments.length,
-              comments: comments,
+              comment_count: tree.total,
+              format,
+              truncated: tree.truncated,
+              skipped: tree.skipped,
+              comments: formatCommentTree(tree, format),
               last_updated: new Date().toISOString()
             }, null, 2)
           }]
         };
       } catch (error) {
-        logger.error(`Failed to fetch comments for item ${id}:`, error);
+        log.error(`Failed to fetch comments for item ${id}:`, error);
         throw error;
       }
-    }
+    })
   );
 
   // Live updates resource
@@ -386,9 +338,9 @@ export async function setupResources(server: McpServer, hnClient: HackerNewsClie
       description: "Recently changed items and user profiles on HackerNews",
       mimeType: "application/json"
     },
-    async (uri) => {
+    resource("updates", async (uri, { signal }) => {
       try {
-        const updates = await hnClient.getUpdates();
+        const updates = await hnClient.getUpdates({ signal });
 
         return {
           contents: [{
@@ -403,10 +355,10 @@ export async function setupResources(server: McpServer, hnClient: HackerNewsClie
           }]
         };
       } catch (error) {
-        logger.error("Failed to fetch live updates:", error);
+        log.error("Failed to fetch live updates:", error);
         throw error;
       }
-    }
+    })
   );
 
   // Max item ID resource
@@ -418,9 +370,9 @@ export async function setupResources(server: McpServer, hnClient: HackerNewsClie
       description: "The current maximum item ID on HackerNews",
       mimeType: "application/json"
     },
-    async (uri) => {
+    resource("max-item", async (uri, { signal }) => {
       try {
-        const maxId = await hnClient.getMaxItemId();
+        const maxId = await hnClient.getMaxItemId({ signal });
 
         return {
           contents: [{
@@ -434,10 +386,10 @@ export async function setupResources(server: McpServer, hnClient: HackerNewsClie
           }]
         };
       } catch (error) {
-        logger.error("Failed to fetch max item ID:", error);
+        log.error("Failed to fetch max item ID:", error);
         throw error;
       }
-    }
+    })
   );
 
   // Cache statistics resource
@@ -449,9 +401,20 @@ export async function setupResources(server: McpServer, hnClient: HackerNewsClie
       description: "Current cache statistics and performance metrics",
       mimeType: "application/json"
     },
-    async (uri) => {
+    resource("cache-stats", async (uri) => {
       try {
         const cacheStats = hnClient.getCacheStats();
+        const schedulerStats = hnClient.getSchedulerStats();
+        const coalescingStats = hnClient.getCoalescingStats();
+        const caches: CacheStats[] = Object.values(cacheStats.details);
+        const totals = caches.reduce(
+          (sum, stats) => ({
+            hits: sum.hits + stats.hits,
+            staleHits: sum.staleHits + stats.staleHits,
+            misses: sum.misses + stats.misses
+          }),
+          { hits: 0, staleHits: 0, misses: 0 }
+        );
 
         return {
           contents: [{
@@ -461,16 +424,39 @@ export async function setupResources(server: McpServer, hnClient: HackerNewsClie
               type: "cache_statistics",
               cache_stats: cacheStats,
               total_cached_items: cacheStats.items + cacheStats.users + cacheStats.lists,
+              hit_ratio: {
+                items: roundedHitRatio(cacheStats.details.items),
+                users: roundedHitRatio(cacheStats.details.users),
+                lists: roundedHitRatio(cacheStats.details.lists),
+                overall: roundedHitRatio(totals)
+              },
+              ttl_policy: hnClient.getTtlPolicy(),
+              stats_since: new Date(Math.min(...caches.map(stats => stats.since))).toISOString(),
+              uptime_seconds: Math.round(process.uptime()),
+              scheduler: {
+                active_requests: schedulerStats.active,
+                queue_depth: schedulerStats.queued,
+                queue_depth_by_priority: schedulerStats.queuedByPriority,
+                completed_requests: schedulerStats.completed,
+                max_concurrency: schedulerStats.maxConcurrency,
+                requests_per_second: schedulerStats.requestsPerSecond
+              },
+              coalescing: {
+                in_flight: coalescingStats.inFlight,
+                upstream_fetches: coalescingStats.started,
+                coalesced_requests: coalescingStats.coalesced,
+                coalesced_by_kind: coalescingStats.coalescedByKind
+              },
               last_updated: new Date().toISOString()
             }, null, 2)
           }]
         };
       } catch (error) {
-        logger.error("Failed to fetch cache stats:", error);
+        log.error("Failed to fetch cache stats:", error);
         throw error;
       }
-    }
+    })
   );
 
-  logger.info("Successfully registered all HackerNews MCP resources");
+  log.info("Successfully registered all HackerNews MCP resources");
 } 
\ No newline at end of file
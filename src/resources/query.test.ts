@@ -0,0 +1,28 @@
+import { idList, oneOf, positiveInteger, rejectUnknownParams } from "./query";
+
+describe("resource query parameters", () => {
+  const params = (query: string) => new URLSearchParams(query);
+
+  it("should read positive integers with a fallback and a maximum", () => {
+    expect(positiveInteger(params("maxDepth=3"), "maxDepth", undefined)).toBe(3);
+    expect(positiveInteger(params(""), "maxDepth", undefined)).toBeUndefined();
+    expect(() => positiveInteger(params("maxDepth=-1"), "maxDepth", 5)).toThrow("Invalid maxDepth");
+    expect(() => positiveInteger(params("pageSize=500"), "pageSize", 30, 100)).toThrow("from 1 to 100");
+  });
+
+  it("should read one of a fixed set of values", () => {
+    expect(oneOf(params("format=flat"), "format", ["nested", "flat"], "nested")).toBe("flat");
+    expect(oneOf(params(""), "format", ["nested", "flat"], "nested")).toBe("nested");
+    expect(() => oneOf(params("format=tree"), "format", ["nested", "flat"], "nested")).toThrow("expected nested or flat");
+  });
+
+  it("should read comma-separated ids", () => {
+    expect(idList(params("cursor=3,4,10"), "cursor")).toEqual([3, 4, 10]);
+    expect(idList(params(""), "cursor")).toBeUndefined();
+    expect(() => idList(params("cursor=3,,4"), "cursor")).toThrow("Invalid cursor");
+  });
+
+  it("should reject unknown parameters", () => {
+    expect(() => rejectUnknownParams(params("format=flat&depth=2"), ["format"])).toThrow("Unknown query parameter: depth");
+  });
+});
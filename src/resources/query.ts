@@ -0,0 +1,53 @@
+// Query parameters of resource URIs such as hackernews://stories/top?page=2.
+// Invalid values throw, like invalid ids in the read handlers.
+
+// Rejects parameters outside known, so a misspelt one doesn't silently fall
+// back to its default
+export function rejectUnknownParams(params: URLSearchParams, known: readonly string[]): void {
+  for (const name of params.keys()) {
+    if (!known.includes(name)) {
+      throw new Error(`Unknown query parameter: ${name}`);
+    }
+  }
+}
+
+export function positiveInteger<F extends number | undefined>(
+  params: URLSearchParams,
+  name: string,
+  fallback: F,
+  max?: number
+): number | F {
+  const raw = params.get(name);
+  if (raw === null) {
+    return fallback;
+  }
+
+  const value = /^\d+$/.test(raw) ? parseInt(raw, 10) : NaN;
+  if (!(value >= 1) || (max !== undefined && value > max)) {
+    throw new Error(`Invalid ${name}: ${raw} (expected an integer from 1${max !== undefined ? ` to ${max}` : ""})`);
+  }
+  return value;
+}
+
+export function oneOf<T extends string>(params: URLSearchParams, name: string, choices: readonly T[], fallback: T): T {
+  const raw = params.get(name);
+  if (raw === null) {
+    return fallback;
+  }
+  if (!(choices as readonly string[]).includes(raw)) {
+    throw new Error(`Invalid ${name}: ${raw} (expected ${choices.join(" or ")})`);
+  }
+  return raw as T;
+}
+
+// "1,2,3" as [1, 2, 3]
+export function idList(params: URLSearchParams, name: string): number[] | undefined {
+  const raw = params.get(name);
+  if (raw === null) {
+    return undefined;
+  }
+  if (!/^\d+(,\d+)*$/.test(raw)) {
+    throw new Error(`Invalid ${name}: ${raw} (expected comma-separated ids)`);
+  }
+  return raw.split(",").map(id => parseInt(id, 10));
+}
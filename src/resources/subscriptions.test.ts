@@ -0,0 +1,78 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { ResourceListener, ResourceWatcher, UnsupportedSubscriptionError } from "../api/resource-watcher";
+import { attachSubscriptions } from "./subscriptions";
+
+describe("attachSubscriptions", () => {
+  const listeners = new Map<string, ResourceListener>();
+  const unsubscribe = jest.fn();
+  const mockWatcher = {
+    subscribe: jest.fn((uri: string, listener: ResourceListener) => {
+      if (uri === "hackernews://cache/stats") {
+        throw new UnsupportedSubscriptionError(uri);
+      }
+      listeners.set(uri, listener);
+      return () => unsubscribe(uri);
+    }),
+  };
+
+  beforeEach(() => {
+    listeners.clear();
+    unsubscribe.mockClear();
+    mockWatcher.subscribe.mockClear();
+  });
+
+  const connect = async () => {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    const detach = attachSubscriptions(server, mockWatcher as unknown as ResourceWatcher);
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updated.push(notification.params.uri);
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    return { client, detach, updated };
+  };
+
+  it("should advertise subscriptions and forward change notifications", async () => {
+    const { client, updated } = await connect();
+
+    expect(client.getServerCapabilities()?.resources?.subscribe).toBe(true);
+
+    await client.subscribeResource({ uri: "hackernews://item/1" });
+    await client.subscribeResource({ uri: "hackernews://item/1" });
+    expect(mockWatcher.subscribe).toHaveBeenCalledTimes(1);
+
+    listeners.get("hackernews://item/1")!("hackernews://item/1");
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(updated).toEqual(["hackernews://item/1"]);
+
+    await client.unsubscribeResource({ uri: "hackernews://item/1" });
+    expect(unsubscribe).toHaveBeenCalledWith("hackernews://item/1");
+    await client.close();
+  });
+
+  it("should reject resources that can't be watched", async () => {
+    const { client } = await connect();
+
+    await expect(client.subscribeResource({ uri: "hackernews://cache/stats" })).rejects.toThrow(
+      "does not support subscriptions"
+    );
+    await client.close();
+  });
+
+  it("should drop every subscription when detached", async () => {
+    const { client, detach } = await connect();
+    await client.subscribeResource({ uri: "hackernews://item/1" });
+    await client.subscribeResource({ uri: "hackernews://stories/top" });
+
+    detach();
+
+    expect(unsubscribe.mock.calls).toEqual([["hackernews://item/1"], ["hackernews://stories/top"]]);
+    await client.close();
+  });
+});
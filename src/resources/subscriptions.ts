@@ -0,0 +1,57 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
+import { ResourceWatcher, UnsupportedSubscriptionError } from "../api/resource-watcher.js";
+import { logger } from "../utils/logger.js";
+
+const log = logger.child({ module: "subscriptions" });
+
+// Answers resources/subscribe and resources/unsubscribe for one server and
+// sends it notifications/resources/updated when a subscribed resource
+// changes. Call before connecting; the returned function drops this client's
+// subscriptions and should run when it goes away.
+export function attachSubscriptions(server: McpServer, watcher: ResourceWatcher): () => void {
+  const subscriptions = new Map<string, () => void>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, request => {
+    const { uri } = request.params;
+    if (subscriptions.has(uri)) {
+      return {};
+    }
+
+    try {
+      subscriptions.set(uri, watcher.subscribe(uri, changed => {
+        server.server.sendResourceUpdated({ uri: changed }).catch(error => {
+          log.debug(`Failed to notify client about ${changed}:`, error);
+        });
+      }));
+    } catch (error) {
+      if (error instanceof UnsupportedSubscriptionError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
+    log.debug(`Client subscribed to ${uri}`);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, request => {
+    const { uri } = request.params;
+    subscriptions.get(uri)?.();
+    subscriptions.delete(uri);
+    return {};
+  });
+
+  return () => {
+    for (const unsubscribe of subscriptions.values()) {
+      unsubscribe();
+    }
+    subscriptions.clear();
+  };
+}
@@ -3,8 +3,12 @@ import {
   HackerNewsUser, 
   StoryWithMetadata, 
   UserWithStats,
-  ItemType 
+  ItemType,
+  CommentTree
 } from "./types/hackernews";
+import { ClientCacheStats } from "./api/client";
+import { SchedulerStats } from "./utils/scheduler";
+import { CoalescerStats } from "./utils/coalescer";
 
 export const createMockItem = (overrides: Partial<HackerNewsItem> = {}): HackerNewsItem => ({
   id: 123,
@@ -68,8 +72,57 @@ export const createMockComment = (overrides: Partial<HackerNewsItem> = {}): Hack
   ...overrides
 });
 
-export const createMockCacheStats = (): { items: number; users: number; lists: number } => ({
+// A tree of top-level comments only
+export const createMockCommentTree = (itemId: number, comments: HackerNewsItem[]): CommentTree => ({
+  itemId,
+  comments: comments.map(comment => ({
+    ...comment,
+    depth: 1,
+    path: [comment.id],
+    childCount: 0,
+    subtreeSize: 1,
+    children: []
+  })),
+  total: comments.length,
+  truncated: false,
+  skipped: []
+});
+
+export const createMockCacheStats = (): ClientCacheStats => ({
   items: 100,
   users: 25,
-  lists: 10
-}); 
\ No newline at end of file
+  lists: 10,
+  details: {
+    items: {
+      size: 100, maxSize: 1000, bytes: 0, maxBytes: 0, hits: 400, staleHits: 0, misses: 100, sets: 104,
+      evictions: { capacity: 4, bytes: 0, expired: 12 }, averageEntryAgeMs: 60000, since: 1640995200000
+    },
+    users: {
+      size: 25, maxSize: 1000, bytes: 0, maxBytes: 0, hits: 50, staleHits: 0, misses: 25, sets: 28,
+      evictions: { capacity: 0, bytes: 0, expired: 3 }, averageEntryAgeMs: 60000, since: 1640995200000
+    },
+    lists: {
+      size: 10, maxSize: 100, bytes: 0, maxBytes: 0, hits: 90, staleHits: 0, misses: 10, sets: 11,
+      evictions: { capacity: 0, bytes: 0, expired: 1 }, averageEntryAgeMs: 60000, since: 1640995200000
+    }
+  }
+}); 
+
+export const createMockSchedulerStats = (overrides: Partial<SchedulerStats> = {}): SchedulerStats => ({
+  active: 2,
+  queued: 5,
+  queuedByPriority: { interactive: 0, normal: 3, bulk: 2 },
+  completed: 40,
+  cancelled: 0,
+  maxConcurrency: 10,
+  requestsPerSecond: 20,
+  ...overrides
+});
+
+export const createMockCoalescingStats = (overrides: Partial<CoalescerStats> = {}): CoalescerStats => ({
+  inFlight: 1,
+  started: 120,
+  coalesced: 30,
+  coalescedByKind: { item: 28, list: 2 },
+  ...overrides
+});
\ No newline at end of file
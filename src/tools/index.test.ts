@@ -1,10 +1,18 @@
+// Mock node-fetch so the client module loads without the ESM build
+jest.mock("node-fetch", () => jest.fn());
+
 import { setupTools } from "./index";
 import { HackerNewsClient } from "../api/client";
+import { logger } from "../utils/logger";
+import { metrics } from "../utils/metrics";
+import { z } from "zod";
 import { 
   createMockItem, 
   createMockStoryWithMetadata, 
   createMockUserWithStats,
-  createMockCacheStats 
+  createMockCacheStats,
+  createMockComment,
+  createMockCommentTree
 } from "../test-helpers";
 
 // Mock the HackerNews client
@@ -16,6 +24,14 @@ const mockMcpServer = {
   registerTool: jest.fn()
 };
 
+// The request extra the SDK passes every tool handler
+const createExtra = () => ({
+  signal: new AbortController().signal,
+  requestId: 1,
+  sendNotification: jest.fn(),
+  sendRequest: jest.fn()
+});
+
 describe("MCP Tools", () => {
   let mockHnClient: jest.Mocked<HackerNewsClient>;
 
@@ -32,7 +48,7 @@ describe("MCP Tools", () => {
       await setupTools(mockMcpServer as any, mockHnClient);
 
       // Verify all tools are registered
-      expect(mockMcpServer.registerTool).toHaveBeenCalledTimes(5);
+      expect(mockMcpServer.registerTool).toHaveBeenCalledTimes(6);
       
       // Check that specific tools are registered
       const registeredTools = mockMcpServer.registerTool.mock.calls.map(call => call[0]);
@@ -41,6 +57,7 @@ describe("MCP Tools", () => {
       expect(registeredTools).toContain("search_user");
       expect(registeredTools).toContain("search_trending");
       expect(registeredTools).toContain("search_comments");
+      expect(registeredTools).toContain("reset_cache_stats");
     });
   });
 
@@ -54,7 +71,7 @@ describe("MCP Tools", () => {
       toolHandlers = {};
       mockMcpServer.registerTool.mock.calls.forEach(call => {
         const [name, , handler] = call;
-        toolHandlers[name] = handler;
+        toolHandlers[name] = (args: unknown) => handler(args, createExtra());
       });
     });
 
@@ -75,7 +92,7 @@ describe("MCP Tools", () => {
         expect(mockHnClient.searchStories).toHaveBeenCalledWith({
           query: "AI",
           limit: 20
-        });
+        }, expect.any(Object));
         expect(result.content).toHaveLength(1);
         expect(result.content[0].type).toBe("text");
         
@@ -108,7 +125,7 @@ describe("MCP Tools", () => {
           startTime: 1640995000,
           endTime: 1640996000,
           limit: 10
-        });
+        }, expect.any(Object));
       });
 
       it("should handle search errors", async () => {
@@ -140,7 +157,7 @@ describe("MCP Tools", () => {
           includeComments: false
         });
 
-        expect(mockHnClient.getStoryWithMetadata).toHaveBeenCalledWith(123);
+        expect(mockHnClient.getStoryWithMetadata).toHaveBeenCalledWith(123, expect.objectContaining({ priority: "interactive" }));
         expect(result.content).toHaveLength(1);
         
         const parsedContent = JSON.parse(result.content[0].text);
@@ -161,31 +178,40 @@ describe("MCP Tools", () => {
         ];
 
         mockHnClient.getStoryWithMetadata.mockResolvedValue(mockStory);
-        mockHnClient.getCommentTree.mockResolvedValue(mockComments);
+        mockHnClient.getCommentTree.mockResolvedValue(createMockCommentTree(123, mockComments));
 
-        const result = await toolHandlers["get-story-details"]({
+        const result = await toolHandlers["get_post"]({
           id: 123,
           includeComments: true
         });
 
-        expect(mockHnClient.getCommentTree).toHaveBeenCalledWith(123);
+        expect(mockHnClient.getCommentTree).toHaveBeenCalledWith(123, expect.any(Object));
         
         const parsedContent = JSON.parse(result.content[0].text);
         expect(parsedContent.comments.count).toBe(2);
-        expect(parsedContent.comments.tree).toEqual(mockComments);
+        expect(parsedContent.comments.tree).toEqual(createMockCommentTree(123, mockComments).comments);
+      });
+
+      it("should pass comment depth and size limits to the client", async () => {
+        mockHnClient.getStoryWithMetadata.mockResolvedValue(createMockStoryWithMetadata({ id: 123 }));
+        mockHnClient.getCommentTree.mockResolvedValue(createMockCommentTree(123, []));
+
+        await toolHandlers["get_post"]({ id: 123, includeComments: true, commentMaxDepth: 2, commentMaxComments: 50 });
+
+        expect(mockHnClient.getCommentTree).toHaveBeenCalledWith(123, expect.objectContaining({ maxDepth: 2, maxComments: 50 }));
       });
 
       it("should handle non-existent stories", async () => {
         mockHnClient.getStoryWithMetadata.mockResolvedValue(null);
 
-        const result = await toolHandlers["get-story-details"]({ id: 999 });
+        const result = await toolHandlers["get_post"]({ id: 999 });
 
         expect(result.isError).toBe(true);
-        expect(result.content[0].text).toContain("Story 999 not found");
+        expect(result.content[0].text).toContain("Post 999 not found");
       });
     });
 
-    describe("analyze-user tool", () => {
+    describe("search_user tool", () => {
       it("should analyze user with statistics", async () => {
         const mockUserStats = createMockUserWithStats({
           id: "testuser",
@@ -198,12 +224,12 @@ describe("MCP Tools", () => {
 
         mockHnClient.getUserWithStats.mockResolvedValue(mockUserStats);
 
-        const result = await toolHandlers["analyze-user"]({
+        const result = await toolHandlers["search_user"]({
           username: "testuser",
           includeRecentItems: true
         });
 
-        expect(mockHnClient.getUserWithStats).toHaveBeenCalledWith("testuser");
+        expect(mockHnClient.getUserWithStats).toHaveBeenCalledWith("testuser", expect.any(Object));
         expect(result.content).toHaveLength(1);
         
         const parsedContent = JSON.parse(result.content[0].text);
@@ -216,14 +242,14 @@ describe("MCP Tools", () => {
       it("should handle non-existent users", async () => {
         mockHnClient.getUserWithStats.mockResolvedValue(null);
 
-        const result = await toolHandlers["analyze-user"]({ username: "nonexistent" });
+        const result = await toolHandlers["search_user"]({ username: "nonexistent" });
 
         expect(result.isError).toBe(true);
         expect(result.content[0].text).toContain("User nonexistent not found");
       });
     });
 
-    describe("get-trending-topics tool", () => {
+    describe("search_trending tool", () => {
       it("should analyze trending topics", async () => {
         const mockStoryIds = [123, 456, 789];
         const mockStories = [
@@ -235,16 +261,16 @@ describe("MCP Tools", () => {
         mockHnClient.getTopStories.mockResolvedValue(mockStoryIds);
         mockHnClient.getMultipleItems.mockResolvedValue(mockStories);
 
-        const result = await toolHandlers["get-trending-topics"]({
-          storyCount: 50,
+        const result = await toolHandlers["search_trending"]({
+          postCount: 50,
           minWordLength: 4
         });
 
         expect(mockHnClient.getTopStories).toHaveBeenCalled();
-        expect(mockHnClient.getMultipleItems).toHaveBeenCalledWith(mockStoryIds);
+        expect(mockHnClient.getMultipleItems).toHaveBeenCalledWith(mockStoryIds, expect.objectContaining({ priority: "bulk" }));
         
         const parsedContent = JSON.parse(result.content[0].text);
-        expect(parsedContent.analysis_summary.stories_analyzed).toBe(3);
+        expect(parsedContent.analysis_summary.posts_analyzed).toBe(3);
         expect(parsedContent.trending_topics).toBeDefined();
         expect(Array.isArray(parsedContent.trending_topics)).toBe(true);
       });
@@ -253,68 +279,15 @@ describe("MCP Tools", () => {
         mockHnClient.getTopStories.mockResolvedValue([]);
         mockHnClient.getMultipleItems.mockResolvedValue([]);
 
-        const result = await toolHandlers["get-trending-topics"]({});
+        const result = await toolHandlers["search_trending"]({});
 
         const parsedContent = JSON.parse(result.content[0].text);
-        expect(parsedContent.analysis_summary.stories_analyzed).toBe(0);
+        expect(parsedContent.analysis_summary.posts_analyzed).toBe(0);
         expect(parsedContent.trending_topics).toHaveLength(0);
       });
     });
 
-    describe("compare-stories tool", () => {
-      it("should compare multiple stories", async () => {
-        const mockStories = [
-          {
-            id: 123,
-            title: "Story 1",
-            by: "user1",
-            score: 200,
-            commentCount: 50,
-            ageHours: 2,
-            domain: "example.com",
-            url: "https://example.com/1"
-          },
-          {
-            id: 456,
-            title: "Story 2",
-            by: "user2",
-            score: 150,
-            commentCount: 30,
-            ageHours: 4,
-            domain: "test.com",
-            url: "https://test.com/2"
-          }
-        ];
-
-        mockHnClient.getStoryWithMetadata
-          .mockResolvedValueOnce(mockStories[0])
-          .mockResolvedValueOnce(mockStories[1]);
-
-        const result = await toolHandlers["compare-stories"]({
-          storyIds: [123, 456]
-        });
-
-        expect(mockHnClient.getStoryWithMetadata).toHaveBeenCalledTimes(2);
-        
-        const parsedContent = JSON.parse(result.content[0].text);
-        expect(parsedContent.comparison_summary.stories_compared).toBe(2);
-        expect(parsedContent.stories).toHaveLength(2);
-        expect(parsedContent.comparison_summary.average_score).toBe(175); // (200 + 150) / 2
-      });
-
-      it("should handle insufficient stories", async () => {
-        mockHnClient.getStoryWithMetadata.mockResolvedValueOnce(null);
-
-        const result = await toolHandlers["compare-stories"]({
-          storyIds: [123]
-        });
-
-        expect(result.isError).toBe(true);
-        expect(result.content[0].text).toContain("Need at least 2 valid stories");
-      });
-    });
-
-    describe("analyze-comments tool", () => {
+    describe("search_comments tool", () => {
       it("should analyze comment statistics", async () => {
         const mockStory = createMockStoryWithMetadata({
           id: 123,
@@ -333,17 +306,17 @@ describe("MCP Tools", () => {
         ];
 
         mockHnClient.getStoryWithMetadata.mockResolvedValue(mockStory);
-        mockHnClient.getCommentTree.mockResolvedValue(mockComments);
+        mockHnClient.getCommentTree.mockResolvedValue(createMockCommentTree(123, mockComments));
 
-        const result = await toolHandlers["analyze-comments"]({
-          storyId: 123,
+        const result = await toolHandlers["search_comments"]({
+          postId: 123,
           maxDepth: 5
         });
 
-        expect(mockHnClient.getCommentTree).toHaveBeenCalledWith(123);
+        expect(mockHnClient.getCommentTree).toHaveBeenCalledWith(123, expect.objectContaining({ maxDepth: 5 }));
         
         const parsedContent = JSON.parse(result.content[0].text);
-        expect(parsedContent.story_id).toBe(123);
+        expect(parsedContent.post_id).toBe(123);
         expect(parsedContent.comment_statistics.total_comments).toBe(5);
         expect(parsedContent.comment_statistics.authors).toBe(4); // user1, user2, user3, user4
         expect(parsedContent.top_commenters).toBeDefined();
@@ -352,33 +325,54 @@ describe("MCP Tools", () => {
       it("should handle stories with no comments", async () => {
         const mockStory = createMockStoryWithMetadata({ id: 123, title: "Test Story", commentCount: 0 });
         mockHnClient.getStoryWithMetadata.mockResolvedValue(mockStory);
-        mockHnClient.getCommentTree.mockResolvedValue([]);
+        mockHnClient.getCommentTree.mockResolvedValue(createMockCommentTree(123, []));
 
-        const result = await toolHandlers["analyze-comments"]({ storyId: 123 });
+        const result = await toolHandlers["search_comments"]({ postId: 123 });
 
-        const parsedContent = JSON.parse(result.content[0].text);
-        expect(parsedContent).toContain("No comments found");
+        expect(result.content[0].text).toContain("No comments found for post 123");
+      });
+
+      it("should not spread the tree into Math.max", async () => {
+        const comments = [createMockComment({ id: 1 }), createMockComment({ id: 2 }), createMockComment({ id: 3 })];
+        mockHnClient.getCommentTree.mockResolvedValue(createMockCommentTree(123, comments));
+        const max = jest.spyOn(Math, "max");
+
+        try {
+          const result = await toolHandlers["search_comments"]({ postId: 123 });
+
+          // A spread call takes one argument per comment and overflows the stack on large trees
+          expect(max.mock.calls.every(args => args.length <= 2)).toBe(true);
+          expect(JSON.parse(result.content[0].text).engagement_metrics).toMatchObject({ deepest_reply: 1, largest_thread: 1 });
+        } finally {
+          max.mockRestore();
+        }
       });
     });
 
-    describe("clear-cache tool", () => {
-      it("should clear cache and return statistics", async () => {
-        const statsBefore = { items: 100, users: 20, lists: 5 };
-        const statsAfter = { items: 0, users: 0, lists: 0 };
+    describe("reset_cache_stats tool", () => {
+      it("should reset counters and report the previous values", async () => {
+        mockHnClient.getCacheStats.mockReturnValue(createMockCacheStats());
 
-        mockHnClient.getCacheStats
-          .mockReturnValueOnce(statsBefore)
-          .mockReturnValueOnce(statsAfter);
+        const result = await toolHandlers["reset_cache_stats"]({});
 
-        const result = await toolHandlers["clear-cache"]({});
+        expect(mockHnClient.resetCacheStats).toHaveBeenCalled();
+        expect(mockHnClient.clearCache).not.toHaveBeenCalled();
 
-        expect(mockHnClient.clearCache).toHaveBeenCalled();
-        expect(mockHnClient.getCacheStats).toHaveBeenCalledTimes(2);
-        
         const parsedContent = JSON.parse(result.content[0].text);
-        expect(parsedContent.message).toBe("Cache cleared successfully");
-        expect(parsedContent.before).toEqual(statsBefore);
-        expect(parsedContent.after).toEqual(statsAfter);
+        expect(parsedContent.reset).toBe(true);
+        expect(parsedContent.previous_counters.items.hits).toBe(400);
+      });
+
+      it("should handle reset errors", async () => {
+        mockHnClient.getCacheStats.mockReturnValue(createMockCacheStats());
+        mockHnClient.resetCacheStats.mockImplementation(() => {
+          throw new Error("Reset failed");
+        });
+
+        const result = await toolHandlers["reset_cache_stats"]({});
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain("Error resetting cache statistics");
       });
     });
   });
@@ -387,12 +381,12 @@ describe("MCP Tools", () => {
     it("should register tools with correct metadata", async () => {
       await setupTools(mockMcpServer as any, mockHnClient);
 
-      const searchToolCall = mockMcpServer.registerTool.mock.calls.find(call => call[0] === "search-stories");
+      const searchToolCall = mockMcpServer.registerTool.mock.calls.find(call => call[0] === "search_posts");
       expect(searchToolCall).toBeDefined();
       
       const [, metadata] = searchToolCall!;
-      expect(metadata.title).toBe("Search HackerNews Stories");
-      expect(metadata.description).toContain("Search and filter HackerNews stories");
+      expect(metadata.title).toBe("Search HackerNews Posts");
+      expect(metadata.description).toContain("Search and filter HackerNews posts");
       expect(metadata.inputSchema).toBeDefined();
     });
   });
@@ -406,24 +400,103 @@ describe("MCP Tools", () => {
       toolHandlers = {};
       mockMcpServer.registerTool.mock.calls.forEach(call => {
         const [name, , handler] = call;
-        toolHandlers[name] = handler;
+        toolHandlers[name] = (args: unknown) => handler(args, createExtra());
       });
     });
 
     it("should handle API client errors gracefully", async () => {
       mockHnClient.searchStories.mockRejectedValue(new Error("Network error"));
 
-      const result = await toolHandlers["search-stories"]({ query: "test" });
+      const result = await toolHandlers["search_posts"]({ query: "test" });
 
       expect(result.isError).toBe(true);
-      expect(result.content[0].text).toContain("Error searching stories");
+      expect(result.content[0].text).toContain("Error searching posts");
+    });
+
+    it("should log a cancelled call at debug and count it as cancelled", async () => {
+      const controller = new AbortController();
+      const abortError = new Error("This operation was aborted");
+      abortError.name = "AbortError";
+      mockHnClient.searchStories.mockImplementation(async () => {
+        controller.abort();
+        throw abortError;
+      });
+      const levels: string[] = [];
+      const sink = { write: (level: string) => levels.push(level) };
+      const [, , handler] = mockMcpServer.registerTool.mock.calls.find(call => call[0] === "search_posts")!;
+      metrics.reset();
+      logger.addSink(sink);
+
+      try {
+        const result = await handler({ query: "test" }, { ...createExtra(), signal: controller.signal });
+
+        expect(result.isError).toBe(true);
+        expect(levels).not.toContain("error");
+        expect(metrics.render()).toContain('mcp_tool_calls_total{tool="search_posts",outcome="cancelled"} 1');
+      } finally {
+        logger.removeSink(sink);
+      }
+    });
+
+    it("should log a failed call at error and count it as an error", async () => {
+      mockHnClient.searchStories.mockRejectedValue(new Error("Network error"));
+      const levels: string[] = [];
+      const sink = { write: (level: string) => levels.push(level) };
+      metrics.reset();
+      logger.addSink(sink);
+
+      try {
+        await toolHandlers["search_posts"]({ query: "test" });
+
+        expect(levels).toContain("error");
+        expect(metrics.render()).toContain('mcp_tool_calls_total{tool="search_posts",outcome="error"} 1');
+      } finally {
+        logger.removeSink(sink);
+      }
     });
 
     it("should handle invalid parameters", async () => {
-      const result = await toolHandlers["compare-stories"]({ storyIds: [] });
+      const [, metadata] = mockMcpServer.registerTool.mock.calls.find(call => call[0] === "get_post")!;
 
-      expect(result.isError).toBe(true);
-      expect(result.content[0].text).toContain("Need at least 2 valid stories");
+      // The SDK checks arguments against the input schema before the handler runs
+      expect(z.object(metadata.inputSchema).safeParse({ id: "abc" }).success).toBe(false);
+    });
+  });
+
+  describe("progress notifications", () => {
+    let handler: Function;
+
+    beforeEach(async () => {
+      await setupTools(mockMcpServer as any, mockHnClient);
+      [, , handler] = mockMcpServer.registerTool.mock.calls.find(call => call[0] === "search_comments")!;
+
+      mockHnClient.getStoryWithMetadata.mockResolvedValue(createMockStoryWithMetadata({ id: 123 }));
+      mockHnClient.getCommentTree.mockImplementation(async (_id, options) => {
+        options?.onProgress?.(1, 2);
+        options?.onProgress?.(2, 2);
+        return createMockCommentTree(123, []);
+      });
+    });
+
+    it("should send progress for a call with a progress token", async () => {
+      const extra = { ...createExtra(), _meta: { progressToken: "progress-1" } };
+      extra.sendNotification.mockResolvedValue(undefined);
+
+      await handler({ postId: 123 }, extra);
+
+      expect(extra.sendNotification.mock.calls.map(([notification]) => notification)).toEqual([
+        { method: "notifications/progress", params: { progressToken: "progress-1", progress: 1, total: 2 } },
+        { method: "notifications/progress", params: { progressToken: "progress-1", progress: 2, total: 2 } }
+      ]);
+    });
+
+    it("should not send progress without a progress token", async () => {
+      const extra = createExtra();
+
+      await handler({ postId: 123 }, extra);
+
+      expect(mockHnClient.getCommentTree).toHaveBeenCalled();
+      expect(extra.sendNotification).not.toHaveBeenCalled();
     });
   });
 
@@ -436,7 +509,7 @@ describe("MCP Tools", () => {
       toolHandlers = {};
       mockMcpServer.registerTool.mock.calls.forEach(call => {
         const [name, , handler] = call;
-        toolHandlers[name] = handler;
+        toolHandlers[name] = (args: unknown) => handler(args, createExtra());
       });
     });
 
@@ -446,7 +519,7 @@ describe("MCP Tools", () => {
 
       const promises: Promise<any>[] = [];
       for (let i = 0; i < 5; i++) {
-        promises.push(toolHandlers["search-stories"]({ query: `test${i}` }));
+        promises.push(toolHandlers["search_posts"]({ query: `test${i}` }));
       }
 
       const results = await Promise.all(promises);
@@ -462,7 +535,7 @@ describe("MCP Tools", () => {
       mockHnClient.getMultipleItems.mockResolvedValue(mockStories);
 
       const startTime = Date.now();
-      await toolHandlers["get-trending-topics"]({ storyCount: 50 });
+      await toolHandlers["search_trending"]({ postCount: 50 });
       const duration = Date.now() - startTime;
 
       expect(duration).toBeLessThan(200); // Should complete in less than 200ms
@@ -1,11 +1,122 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { HackerNewsClient } from "../api/client.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { CallToolResult, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { HackerNewsClient, RequestOptions } from "../api/client.js";
+import { COMMENT_FORMATS, flattenCommentTree, formatCommentTree } from "../api/comment-tree.js";
 import { SearchParams } from "../types/hackernews.js";
+import { isAbortError } from "../utils/abort.js";
 import { logger } from "../utils/logger.js";
+import { metrics } from "../utils/metrics.js";
+import { withRequestContext } from "../utils/request-context.js";
+import { ShutdownCoordinator, ShutdownError } from "../utils/shutdown.js";
+import { auditToolDenied, isToolAllowed } from "../transports/auth.js";
 import { z } from "zod";
 
-export async function setupTools(server: McpServer, hnClient: HackerNewsClient): Promise<void> {
-  logger.info("Setting up MCP tools for HackerNews...");
+const log = logger.child({ module: "tools" });
+
+const toolCalls = metrics.counter(
+  "mcp_tool_calls_total",
+  "MCP tool calls, by tool and outcome (success, error, cancelled, denied or shutdown)"
+);
+const toolDuration = metrics.histogram("mcp_tool_call_duration_seconds", "Time spent in MCP tool calls, by tool");
+
+// Request options that remember whether any read was served from the stale window
+function trackStaleness(options: RequestOptions = {}): RequestOptions & { stale: boolean } {
+  const tracked = {
+    ...options,
+    stale: false,
+    onStale: () => {
+      tracked.stale = true;
+    }
+  };
+  return tracked;
+}
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Client options for a tool call: its cancellation signal and, when the caller
+// sent a progress token, a callback forwarding progress as notifications/progress
+function callOptions(extra: ToolExtra, options: RequestOptions = {}): RequestOptions {
+  const progressToken = extra._meta?.progressToken;
+  const onProgress = progressToken === undefined ? undefined : (progress: number, total?: number) => {
+    extra.sendNotification({
+      method: "notifications/progress",
+      params: { progressToken, progress, total }
+    }).catch(error => log.debug("Failed to send progress notification:", error));
+  };
+  return { ...options, signal: extra.signal, onProgress };
+}
+
+// A cancelled or shutdown-aborted call isn't a failure: it is logged at debug,
+// so it neither reads as an error nor reaches MCP clients at their default level
+function logFailure(signal: AbortSignal, message: string, error: unknown): void {
+  if (signal.aborted || isAbortError(error)) {
+    log.debug(`${message} (cancelled)`, error);
+  } else {
+    log.error(message, error);
+  }
+}
+
+function errorResult(text: string): CallToolResult {
+  return {
+    content: [{
+      type: "text",
+      text
+    }],
+    isError: true
+  };
+}
+
+// Runs a tool under its own request context after checking the caller's API
+// key or token allows it, and records the call in the metrics. With a
+// shutdown coordinator the call is tracked so shutdown can drain or abort it;
+// extra.signal then also fires when shutdown gives up waiting.
+function toolHandler<T>(
+  name: string,
+  handler: (args: T, extra: ToolExtra) => Promise<CallToolResult>,
+  shutdown?: ShutdownCoordinator
+): (args: T, extra: ToolExtra) => Promise<CallToolResult> {
+  return withRequestContext("tool", name, async (args: T, extra: ToolExtra): Promise<CallToolResult> => {
+    if (!isToolAllowed(extra.authInfo, name)) {
+      auditToolDenied(extra.authInfo, name);
+      toolCalls.inc({ tool: name, outcome: "denied" });
+      return errorResult(`Error: these credentials are not allowed to call ${name}`);
+    }
+
+    // The signal the handler got; under shutdown it also fires when the drain gives up
+    let signal = extra.signal;
+    const run = (callSignal: AbortSignal) => {
+      signal = callSignal;
+      return handler(args, { ...extra, signal: callSignal });
+    };
+
+    const stopTimer = toolDuration.startTimer({ tool: name });
+    let outcome = "error";
+    try {
+      const result = shutdown ? await shutdown.track(run, extra.signal) : await run(extra.signal);
+      outcome = result.isError ? (signal.aborted ? "cancelled" : "error") : "success";
+      return result;
+    } catch (error) {
+      if (error instanceof ShutdownError) {
+        outcome = "shutdown";
+        return errorResult(`Error: ${error.message}`);
+      }
+      if (signal.aborted || isAbortError(error)) {
+        outcome = "cancelled";
+      }
+      throw error;
+    } finally {
+      stopTimer();
+      toolCalls.inc({ tool: name, outcome });
+    }
+  });
+}
+
+export async function setupTools(server: McpServer, hnClient: HackerNewsClient, shutdown?: ShutdownCoordinator): Promise<void> {
+  log.info("Setting up MCP tools for HackerNews...");
+
+  const tool = <T>(name: string, handler: (args: T, extra: ToolExtra) => Promise<CallToolResult>) =>
+    toolHandler(name, handler, shutdown);
 
   // Search posts tool
   server.registerTool(
@@ -22,7 +133,7 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
         limit: z.number().min(1).max(100).default(20).optional()
       }
     },
-    async ({ query, author, minScore, startTime, endTime, limit }) => {
+    tool("search_posts", async ({ query, author, minScore, startTime, endTime, limit }, extra) => {
       try {
         const searchParams: SearchParams = {
           query,
@@ -33,7 +144,8 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
           limit: limit || 20
         };
 
-        const posts = await hnClient.searchStories(searchParams);
+        const requestOptions = trackStaleness(callOptions(extra));
+        const posts = await hnClient.searchStories(searchParams, requestOptions);
 
         return {
           content: [{
@@ -49,12 +161,13 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
                 time: post.time,
                 url: post.url,
                 descendants: post.descendants
-              }))
+              })),
+              stale: requestOptions.stale || undefined
             }, null, 2)
           }]
         };
       } catch (error) {
-        logger.error("Failed to search posts:", error);
+        logFailure(extra.signal, "Failed to search posts:", error);
         return {
           content: [{
             type: "text",
@@ -63,7 +176,7 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
           isError: true
         };
       }
-    }
+    })
   );
 
   // Get post details with full metadata
@@ -74,12 +187,26 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
       description: "Get comprehensive details about a HackerNews post including metadata and comments",
       inputSchema: {
         id: z.number(),
-        includeComments: z.boolean().default(false).optional()
+        includeComments: z.boolean().default(false).optional(),
+        commentFormat: z.enum(COMMENT_FORMATS).default("nested").optional()
+          .describe("nested keeps replies under their parent; flat lists comments in reading order"),
+        commentMaxDepth: z.number().int().min(1).optional()
+          .describe("Deepest reply level to load (1 = top-level comments only)"),
+        commentMaxComments: z.number().int().min(1).optional()
+          .describe("Most comments to load, a level at a time (every top-level comment before any reply); the rest come back as skipped"),
+        commentTimeBudgetMs: z.number().int().min(1).optional()
+          .describe("Return the comments loaded by then; the rest come back as skipped"),
+        commentCursor: z.array(z.number().int()).optional()
+          .describe("Skipped comment ids from an earlier call for this post, to load those threads")
       }
     },
-    async ({ id, includeComments }) => {
+    tool("get_post", async (
+      { id, includeComments, commentFormat, commentMaxDepth, commentMaxComments, commentTimeBudgetMs, commentCursor },
+      extra
+    ) => {
       try {
-        const post = await hnClient.getStoryWithMetadata(id);
+        const requestOptions = trackStaleness(callOptions(extra, { priority: "interactive" }));
+        const post = await hnClient.getStoryWithMetadata(id, requestOptions);
         if (!post) {
           return {
             content: [{
@@ -90,25 +217,34 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
           };
         }
 
-        let comments: any[] = [];
-        if (includeComments) {
-          comments = await hnClient.getCommentTree(id);
-        }
+        const comments = includeComments
+          ? await hnClient.getCommentTree(id, {
+            ...requestOptions,
+            maxDepth: commentMaxDepth,
+            maxComments: commentMaxComments,
+            timeBudgetMs: commentTimeBudgetMs,
+            cursor: commentCursor
+          })
+          : undefined;
 
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
               post: post,
-              comments: includeComments ? {
-                count: comments.length,
-                tree: comments
-              } : undefined
+              comments: comments ? {
+                count: comments.total,
+                format: commentFormat || "nested",
+                tree: formatCommentTree(comments, commentFormat || "nested"),
+                truncated: comments.truncated,
+                skipped: comments.skipped.length > 0 ? comments.skipped : undefined
+              } : undefined,
+              stale: requestOptions.stale || undefined
             }, null, 2)
           }]
         };
       } catch (error) {
-        logger.error(`Failed to get post details for ${id}:`, error);
+        logFailure(extra.signal, `Failed to get post details for ${id}:`, error);
         return {
           content: [{
             type: "text",
@@ -117,7 +253,7 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
           isError: true
         };
       }
-    }
+    })
   );
 
   // Search user activity
@@ -131,9 +267,10 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
         includeRecentItems: z.boolean().default(true).optional()
       }
     },
-    async ({ username, includeRecentItems }) => {
+    tool("search_user", async ({ username, includeRecentItems }, extra) => {
       try {
-        const userStats = await hnClient.getUserWithStats(username);
+        const requestOptions = trackStaleness(callOptions(extra));
+        const userStats = await hnClient.getUserWithStats(username, requestOptions);
         if (!userStats) {
           return {
             content: [{
@@ -167,7 +304,8 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
           recent_items: includeRecentItems ? {
             top_stories: userStats.topStories,
             recent_activity: userStats.recentActivity
-          } : undefined
+          } : undefined,
+          stale: requestOptions.stale || undefined
         };
 
         return {
@@ -177,7 +315,7 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
           }]
         };
       } catch (error) {
-        logger.error(`Failed to search user ${username}:`, error);
+        logFailure(extra.signal, `Failed to search user ${username}:`, error);
         return {
           content: [{
             type: "text",
@@ -186,7 +324,7 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
           isError: true
         };
       }
-    }
+    })
   );
 
   // Search trending topics
@@ -200,12 +338,13 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
         minWordLength: z.number().min(3).max(10).default(4).optional()
       }
     },
-    async ({ postCount, minWordLength }) => {
+    tool("search_trending", async ({ postCount, minWordLength }, extra) => {
       try {
-        const topStoryIds = await hnClient.getTopStories();
+        const requestOptions = trackStaleness(callOptions(extra, { priority: "bulk" }));
+        const topStoryIds = await hnClient.getTopStories(requestOptions);
         const postsToAnalyze = topStoryIds.slice(0, postCount || 50);
         
-        const posts = await hnClient.getMultipleItems(postsToAnalyze);
+        const posts = await hnClient.getMultipleItems(postsToAnalyze, requestOptions);
         const validPosts = posts.filter(post => post && post.title && post.type === "story");
 
         // Extract and count words from titles
@@ -245,12 +384,13 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
                 min_word_length: minWordLength
               },
               trending_topics: trendingTopics,
-              timestamp: new Date().toISOString()
+              timestamp: new Date().toISOString(),
+              stale: requestOptions.stale || undefined
             }, null, 2)
           }]
         };
       } catch (error) {
-        logger.error("Failed to get trending topics:", error);
+        logFailure(extra.signal, "Failed to get trending topics:", error);
         return {
           content: [{
             type: "text",
@@ -259,7 +399,7 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
           isError: true
         };
       }
-    }
+    })
   );
 
   // Search comments analysis
@@ -273,10 +413,12 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
         maxDepth: z.number().min(1).max(10).default(5).optional()
       }
     },
-    async ({ postId, maxDepth }) => {
+    tool("search_comments", async ({ postId, maxDepth }, extra) => {
       try {
-        const comments = await hnClient.getCommentTree(postId);
-        
+        const requestOptions = trackStaleness(callOptions(extra));
+        const tree = await hnClient.getCommentTree(postId, { ...requestOptions, maxDepth: maxDepth ?? 5 });
+        const comments = flattenCommentTree(tree.comments);
+
         if (comments.length === 0) {
           return {
             content: [{
@@ -308,9 +450,8 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
           .slice(0, 10)
           .map(([author, count]) => ({ author, comment_count: count }));
 
-        // Analyze comment depth (simplified - would need parent tracking for full depth analysis)
-        const withParents = comments.filter(c => c.parent).length;
-        const topLevel = comments.filter(c => !c.parent).length;
+        const topLevel = tree.comments.length;
+        const replies = comments.length - topLevel;
 
         return {
           content: [{
@@ -320,16 +461,21 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
               comment_statistics: commentStats,
               engagement_metrics: {
                 top_level_comments: topLevel,
-                reply_comments: withParents,
-                reply_ratio: topLevel > 0 ? Math.round((withParents / topLevel) * 100) / 100 : 0
+                reply_comments: replies,
+                reply_ratio: topLevel > 0 ? Math.round((replies / topLevel) * 100) / 100 : 0,
+                // reduce rather than Math.max(...) so large trees can't overflow the call stack
+                deepest_reply: comments.reduce((deepest, c) => Math.max(deepest, c.depth), 0),
+                largest_thread: tree.comments.reduce((largest, c) => Math.max(largest, c.subtreeSize), 0)
               },
+              truncated: tree.truncated || undefined,
               top_commenters: topCommenters,
-              analysis_timestamp: new Date().toISOString()
+              analysis_timestamp: new Date().toISOString(),
+              stale: requestOptions.stale || undefined
             }, null, 2)
           }]
         };
       } catch (error) {
-        logger.error(`Failed to search comments for post ${postId}:`, error);
+        logFailure(extra.signal, `Failed to search comments for post ${postId}:`, error);
         return {
           content: [{
             type: "text",
@@ -338,8 +484,48 @@ export async function setupTools(server: McpServer, hnClient: HackerNewsClient):
           isError: true
         };
       }
-    }
+    })
+  );
+
+  // Reset cache counters
+  server.registerTool(
+    "reset_cache_stats",
+    {
+      title: "Reset Cache Statistics",
+      description: "Reset cache hit, miss, expiration and eviction counters without clearing cached data",
+      inputSchema: {}
+    },
+    tool("reset_cache_stats", () => {
+      try {
+        const before = hnClient.getCacheStats();
+        hnClient.resetCacheStats();
+
+        return Promise.resolve({
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              reset: true,
+              previous_counters: {
+                items: before.details.items,
+                users: before.details.users,
+                lists: before.details.lists
+              },
+              reset_at: new Date().toISOString()
+            }, null, 2)
+          }]
+        });
+      } catch (error) {
+        log.error("Failed to reset cache stats:", error);
+        return Promise.resolve({
+          content: [{
+            type: "text",
+            text: `Error resetting cache statistics: ${error instanceof Error ? error.message : String(error)}`
+          }],
+          isError: true
+        });
+      }
+    })
   );
 
-  logger.info("Successfully registered all HackerNews MCP tools");
+  log.info("Successfully registered all HackerNews MCP tools");
 } 
\ No newline at end of file
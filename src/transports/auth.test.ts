@@ -0,0 +1,178 @@
+import { generateKeyPairSync, KeyObject, sign } from "node:crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { IncomingMessage } from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  ApiKeyVerifier,
+  AuthError,
+  createAuthenticator,
+  isToolAllowed,
+  JwtVerifier,
+  loadAuthenticator,
+} from "./auth";
+import { logger } from "../utils/logger";
+import { LogSink, StderrSink } from "../utils/log-sinks";
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function signJwt(claims: Record<string, unknown>, privateKey: KeyObject, header: Record<string, unknown> = {}): string {
+  const alg = privateKey.asymmetricKeyType === "ec" ? "ES256" : "RS256";
+  const data = `${encode({ alg, typ: "JWT", kid: "key-1", ...header })}.${encode(claims)}`;
+  const signature = sign("sha256", Buffer.from(data), {
+    key: privateKey,
+    ...(alg === "ES256" ? { dsaEncoding: "ieee-p1363" as const } : {}),
+  });
+  return `${data}.${signature.toString("base64url")}`;
+}
+
+function request(headers: Record<string, string>): IncomingMessage {
+  return { headers, method: "POST", url: "/mcp", socket: { remoteAddress: "10.0.0.7" } } as unknown as IncomingMessage;
+}
+
+describe("ApiKeyVerifier", () => {
+  const verifier = new ApiKeyVerifier([
+    { id: "admin", key: "admin-key" },
+    { id: "readonly", key: "readonly-key", tools: ["search_posts", "get_post"] },
+  ]);
+
+  it("should identify the key and carry its tool allowlist", async () => {
+    const admin = await verifier.verify("admin-key");
+    const readonly = await verifier.verify("readonly-key");
+
+    expect(admin?.clientId).toBe("admin");
+    expect(isToolAllowed(admin, "reset_cache_stats")).toBe(true);
+    expect(readonly?.clientId).toBe("readonly");
+    expect(isToolAllowed(readonly, "get_post")).toBe(true);
+    expect(isToolAllowed(readonly, "reset_cache_stats")).toBe(false);
+  });
+
+  it("should leave unknown keys to the next verifier", async () => {
+    await expect(verifier.verify("other-key")).resolves.toBeUndefined();
+  });
+});
+
+describe("isToolAllowed", () => {
+  it("should trust requests without auth info", () => {
+    expect(isToolAllowed(undefined, "reset_cache_stats")).toBe(true);
+  });
+});
+
+describe("JwtVerifier", () => {
+  const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const ec = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  const jwks = {
+    keys: [
+      { ...rsa.publicKey.export({ format: "jwk" }), kid: "key-1", alg: "RS256" },
+      { ...ec.publicKey.export({ format: "jwk" }), kid: "key-2" },
+    ],
+  };
+  const verifier = new JwtVerifier(jwks, { issuer: "https://auth.example", audience: "hackernews-mcp" });
+  const now = Math.floor(Date.now() / 1000);
+  const claims = { iss: "https://auth.example", aud: "hackernews-mcp", sub: "agent-7", exp: now + 300, scope: "read" };
+
+  it("should accept tokens signed by a key in the JWKS", async () => {
+    const authInfo = await verifier.verify(signJwt({ ...claims, tools: ["search_posts"] }, rsa.privateKey));
+
+    expect(authInfo).toMatchObject({ clientId: "agent-7", scopes: ["read"], expiresAt: now + 300 });
+    expect(isToolAllowed(authInfo, "search_posts")).toBe(true);
+    expect(isToolAllowed(authInfo, "reset_cache_stats")).toBe(false);
+  });
+
+  it("should verify ECDSA signatures", async () => {
+    const authInfo = await verifier.verify(signJwt(claims, ec.privateKey, { kid: "key-2" }));
+
+    expect(authInfo?.clientId).toBe("agent-7");
+  });
+
+  it("should reject bad signatures and claims", async () => {
+    const other = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+    await expect(verifier.verify(signJwt(claims, other.privateKey))).rejects.toThrow("signature");
+    await expect(verifier.verify(signJwt({ ...claims, exp: now - 3600 }, rsa.privateKey))).rejects.toThrow("expired");
+    await expect(verifier.verify(signJwt({ ...claims, exp: undefined }, rsa.privateKey))).rejects.toThrow("no expiry");
+    await expect(verifier.verify(signJwt({ ...claims, nbf: now + 3600 }, rsa.privateKey))).rejects.toThrow("not valid yet");
+    await expect(verifier.verify(signJwt({ ...claims, iss: "https://evil.example" }, rsa.privateKey))).rejects.toThrow("issuer");
+    await expect(verifier.verify(signJwt({ ...claims, aud: ["other"] }, rsa.privateKey))).rejects.toThrow("audience");
+  });
+
+  it("should refuse unsigned and symmetric tokens", async () => {
+    const unsigned = `${encode({ alg: "none" })}.${encode(claims)}.`;
+    const symmetric = `${encode({ alg: "HS256" })}.${encode(claims)}.c2ln`;
+
+    await expect(verifier.verify(unsigned)).rejects.toThrow(AuthError);
+    await expect(verifier.verify(symmetric)).rejects.toThrow("Unsupported token algorithm HS256");
+  });
+
+  it("should ignore credentials that are not JWTs", async () => {
+    await expect(verifier.verify("plain-api-key")).resolves.toBeUndefined();
+  });
+});
+
+describe("createAuthenticator", () => {
+  const lines: string[] = [];
+  const sink: LogSink = { write: (_level, line) => lines.push(line) };
+  const authenticate = createAuthenticator([new ApiKeyVerifier([{ id: "ci", key: "ci-key" }])]);
+
+  beforeEach(() => {
+    lines.length = 0;
+    logger.setSinks([sink]);
+  });
+
+  afterAll(() => {
+    logger.setSinks([new StderrSink()]);
+  });
+
+  it("should read bearer tokens and X-API-Key headers", async () => {
+    await expect(authenticate(request({ authorization: "Bearer ci-key" }))).resolves.toMatchObject({ clientId: "ci" });
+    await expect(authenticate(request({ "x-api-key": "ci-key" }))).resolves.toMatchObject({ clientId: "ci" });
+    expect(lines).toEqual([]);
+  });
+
+  it("should audit failed attempts without logging the credential", async () => {
+    await expect(authenticate(request({}))).rejects.toMatchObject({ reason: "missing" });
+    await expect(authenticate(request({ authorization: "Bearer wrong-key" }))).rejects.toMatchObject({ reason: "invalid" });
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatch(/WARN \[audit\]: Authentication failed: Missing credentials/);
+    expect(lines[1]).toMatch(/Authentication failed: Unknown credentials.*remote_address=10\.0\.0\.7/);
+    expect(lines.join("\n")).not.toContain("wrong-key");
+  });
+});
+
+describe("loadAuthenticator", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "hn-auth-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should leave the endpoint open when nothing is configured", async () => {
+    await expect(loadAuthenticator({ apiKeys: [] })).resolves.toBeUndefined();
+  });
+
+  it("should combine keys from the environment and the keys file", async () => {
+    const file = join(dir, "keys.json");
+    writeFileSync(file, JSON.stringify({ keys: [{ id: "readonly", key: "file-key", tools: ["get_post"] }] }));
+
+    const authenticate = await loadAuthenticator({ apiKeys: ["env-key"], apiKeysFile: file });
+
+    await expect(authenticate!(request({ authorization: "Bearer env-key" }))).resolves.toMatchObject({ clientId: "env-key-1" });
+    const readonly = await authenticate!(request({ authorization: "Bearer file-key" }));
+    expect(isToolAllowed(readonly, "reset_cache_stats")).toBe(false);
+  });
+
+  it("should fail on unreadable or invalid files", async () => {
+    const file = join(dir, "keys.json");
+    writeFileSync(file, JSON.stringify({ keys: [{ id: "no-key" }] }));
+
+    await expect(loadAuthenticator({ apiKeys: [], apiKeysFile: file })).rejects.toThrow("every key needs an id and a key");
+    await expect(loadAuthenticator({ apiKeys: [], jwksFile: join(dir, "missing.json") })).rejects.toThrow("Failed to read JWKS");
+  });
+});
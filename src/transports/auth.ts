@@ -0,0 +1,305 @@
+import { createHash, createPublicKey, constants, JsonWebKey, KeyObject, timingSafeEqual, verify } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { IncomingMessage } from "node:http";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { logger } from "../utils/logger.js";
+
+const audit = logger.child({ module: "audit" });
+
+// Seconds of clock skew tolerated when checking exp and nbf
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+export class AuthError extends Error {
+  constructor(message: string, public readonly reason: "missing" | "invalid") {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+// Checks one kind of credential. Returns undefined for credentials it doesn't
+// recognize so the next verifier can try, and throws AuthError for ones it
+// recognizes but rejects.
+export interface CredentialVerifier {
+  readonly kind: string;
+  verify(credential: string): Promise<AuthInfo | undefined>;
+}
+
+// Resolves the caller of an HTTP request, throwing AuthError when it can't
+export type Authenticator = (req: IncomingMessage) => Promise<AuthInfo>;
+
+export interface ApiKeyEntry {
+  id: string;
+  key: string;
+  // Tools this key may call; omitted or ["*"] allows every tool
+  tools?: string[];
+}
+
+export interface AuthOptions {
+  apiKeys: string[];
+  apiKeysFile?: string;
+  jwksFile?: string;
+  jwtIssuer?: string;
+  jwtAudience?: string;
+}
+
+// The allowlist travels to tool handlers in AuthInfo.extra
+const ALLOWED_TOOLS = "allowedTools";
+
+function withAllowedTools(tools: string[] | undefined): Record<string, unknown> {
+  return tools && !tools.includes("*") ? { [ALLOWED_TOOLS]: [...tools] } : {};
+}
+
+// Whether the caller may use a tool. Requests without auth info (stdio, or
+// HTTP with auth disabled) are trusted.
+export function isToolAllowed(authInfo: AuthInfo | undefined, tool: string): boolean {
+  const allowed = authInfo?.extra?.[ALLOWED_TOOLS];
+  return !Array.isArray(allowed) || allowed.includes(tool);
+}
+
+// Reports a tool call refused by isToolAllowed
+export function auditToolDenied(authInfo: AuthInfo | undefined, tool: string): void {
+  audit.child({ client: authInfo?.clientId, tool }).warn(`Denied tool call ${tool}`);
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+export class ApiKeyVerifier implements CredentialVerifier {
+  readonly kind = "api_key";
+  private readonly entries: Array<ApiKeyEntry & { digest: Buffer }>;
+
+  constructor(entries: ApiKeyEntry[]) {
+    this.entries = entries.map(entry => ({ ...entry, digest: digest(entry.key) }));
+  }
+
+  verify(credential: string): Promise<AuthInfo | undefined> {
+    // Comparing fixed-length digests keeps the check constant-time
+    const candidate = digest(credential);
+    const entry = this.entries.find(existing => timingSafeEqual(existing.digest, candidate));
+    if (!entry) {
+      return Promise.resolve(undefined);
+    }
+    return Promise.resolve({ token: credential, clientId: entry.id, scopes: [], extra: withAllowedTools(entry.tools) });
+  }
+}
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+}
+
+interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  scope?: string;
+  client_id?: string;
+  tools?: unknown;
+}
+
+// Only asymmetric algorithms: the JWKS file holds public keys
+const JWT_ALGORITHMS: Record<string, { hash: string | null; pss?: boolean; ecdsa?: boolean }> = {
+  RS256: { hash: "sha256" },
+  RS384: { hash: "sha384" },
+  RS512: { hash: "sha512" },
+  PS256: { hash: "sha256", pss: true },
+  PS384: { hash: "sha384", pss: true },
+  PS512: { hash: "sha512", pss: true },
+  ES256: { hash: "sha256", ecdsa: true },
+  ES384: { hash: "sha384", ecdsa: true },
+  ES512: { hash: "sha512", ecdsa: true },
+  EdDSA: { hash: null },
+};
+
+function decodeSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+  } catch {
+    throw new AuthError("Malformed token", "invalid");
+  }
+}
+
+export interface JwtVerifierOptions {
+  issuer?: string;
+  audience?: string;
+}
+
+// Verifies bearer JWTs signed by one of the keys in a JWKS document. The
+// optional "tools" claim limits which tools the token may call.
+export class JwtVerifier implements CredentialVerifier {
+  readonly kind = "jwt";
+  private readonly keys: Array<{ jwk: Jwk; key: KeyObject }>;
+
+  constructor(jwks: { keys?: Jwk[] }, private readonly options: JwtVerifierOptions = {}) {
+    this.keys = (jwks.keys ?? [])
+      .filter(jwk => jwk.use === undefined || jwk.use === "sig")
+      .map(jwk => ({ jwk, key: createPublicKey({ key: jwk, format: "jwk" }) }));
+  }
+
+  verify(credential: string): Promise<AuthInfo | undefined> {
+    try {
+      return Promise.resolve(this.verifyToken(credential));
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  private verifyToken(credential: string): AuthInfo | undefined {
+    const parts = credential.split(".");
+    if (parts.length !== 3) {
+      return undefined;
+    }
+
+    const [encodedHeader, encodedClaims, encodedSignature] = parts;
+    const header = decodeSegment<JwtHeader>(encodedHeader);
+    const algorithm = header.alg !== undefined ? JWT_ALGORITHMS[header.alg] : undefined;
+    if (!algorithm) {
+      throw new AuthError(`Unsupported token algorithm ${header.alg}`, "invalid");
+    }
+
+    const candidates = this.keys.filter(({ jwk }) =>
+      (header.kid === undefined || jwk.kid === header.kid) && (jwk.alg === undefined || jwk.alg === header.alg)
+    );
+    const data = Buffer.from(`${encodedHeader}.${encodedClaims}`);
+    const signature = Buffer.from(encodedSignature, "base64url");
+    const valid = candidates.some(({ key }) => {
+      try {
+        return verify(algorithm.hash, data, {
+          key,
+          ...(algorithm.pss ? { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } : {}),
+          ...(algorithm.ecdsa ? { dsaEncoding: "ieee-p1363" as const } : {}),
+        }, signature);
+      } catch {
+        // A key of another type can't have produced the signature
+        return false;
+      }
+    });
+    if (!valid) {
+      throw new AuthError("Token signature is invalid", "invalid");
+    }
+
+    const claims = decodeSegment<JwtClaims>(encodedClaims);
+    this.checkClaims(claims);
+
+    const tools = Array.isArray(claims.tools) ? claims.tools.map(String) : undefined;
+    return {
+      token: credential,
+      clientId: claims.client_id ?? claims.sub ?? "jwt",
+      scopes: claims.scope ? claims.scope.split(" ").filter(Boolean) : [],
+      expiresAt: claims.exp,
+      extra: withAllowedTools(tools),
+    };
+  }
+
+  private checkClaims(claims: JwtClaims): void {
+    const now = Math.floor(Date.now() / 1000);
+    // A token without exp would stay valid forever once issued
+    if (typeof claims.exp !== "number") {
+      throw new AuthError("Token has no expiry", "invalid");
+    }
+    if (now - CLOCK_TOLERANCE_SECONDS >= claims.exp) {
+      throw new AuthError("Token has expired", "invalid");
+    }
+    if (typeof claims.nbf === "number" && now + CLOCK_TOLERANCE_SECONDS < claims.nbf) {
+      throw new AuthError("Token is not valid yet", "invalid");
+    }
+    if (this.options.issuer !== undefined && claims.iss !== this.options.issuer) {
+      throw new AuthError("Token issuer is not accepted", "invalid");
+    }
+    if (this.options.audience !== undefined) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(this.options.audience)) {
+        throw new AuthError("Token audience is not accepted", "invalid");
+      }
+    }
+  }
+}
+
+// Bearer tokens from the Authorization header, API keys also from X-API-Key
+function readCredential(req: IncomingMessage): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization) {
+    const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+    return match ? match[1] : undefined;
+  }
+  const apiKey = req.headers["x-api-key"];
+  return Array.isArray(apiKey) ? apiKey[0] : apiKey;
+}
+
+// Tries each verifier in turn and writes every failed attempt to the audit log
+export function createAuthenticator(verifiers: CredentialVerifier[]): Authenticator {
+  return async req => {
+    const failure = (error: AuthError): AuthError => {
+      audit
+        .child({ remote_address: req.socket.remoteAddress, method: req.method, path: req.url })
+        .warn(`Authentication failed: ${error.message}`);
+      return error;
+    };
+
+    const credential = readCredential(req);
+    if (!credential) {
+      throw failure(new AuthError("Missing credentials", "missing"));
+    }
+
+    for (const verifier of verifiers) {
+      let authInfo: AuthInfo | undefined;
+      try {
+        authInfo = await verifier.verify(credential);
+      } catch (error) {
+        throw failure(error instanceof AuthError ? error : new AuthError(`Invalid ${verifier.kind} credentials`, "invalid"));
+      }
+      if (authInfo) {
+        return authInfo;
+      }
+    }
+    throw failure(new AuthError("Unknown credentials", "invalid"));
+  };
+}
+
+function parseApiKeys(keys: string[]): ApiKeyEntry[] {
+  return keys.map((key, index) => ({ id: `env-key-${index + 1}`, key }));
+}
+
+async function readJsonFile<T>(path: string, what: string): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as T;
+  } catch (error) {
+    throw new Error(`Failed to read ${what} from ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Builds the authenticator for the configured key sources, or undefined when
+// none is configured and the endpoint stays open
+export async function loadAuthenticator(options: AuthOptions): Promise<Authenticator | undefined> {
+  const verifiers: CredentialVerifier[] = [];
+
+  const apiKeys = parseApiKeys(options.apiKeys);
+  if (options.apiKeysFile) {
+    const file = await readJsonFile<{ keys?: ApiKeyEntry[] }>(options.apiKeysFile, "API keys");
+    for (const entry of file.keys ?? []) {
+      if (typeof entry.id !== "string" || typeof entry.key !== "string" || entry.key === "") {
+        throw new Error(`Invalid API key entry in ${options.apiKeysFile}: every key needs an id and a key`);
+      }
+      apiKeys.push(entry);
+    }
+  }
+  if (apiKeys.length > 0) {
+    verifiers.push(new ApiKeyVerifier(apiKeys));
+  }
+
+  if (options.jwksFile) {
+    const jwks = await readJsonFile<{ keys?: Jwk[] }>(options.jwksFile, "JWKS");
+    verifiers.push(new JwtVerifier(jwks, { issuer: options.jwtIssuer, audience: options.jwtAudience }));
+  }
+
+  return verifiers.length > 0 ? createAuthenticator(verifiers) : undefined;
+}
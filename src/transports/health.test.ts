@@ -0,0 +1,55 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { createHealthEndpoints } from "./health";
+import { MetricsRegistry } from "../utils/metrics";
+import { ReadinessStatus } from "../api/readiness-probe";
+
+describe("createHealthEndpoints", () => {
+  let server: Server;
+  let baseUrl: string;
+  let readiness: ReadinessStatus;
+  const registry = new MetricsRegistry();
+
+  beforeAll(async () => {
+    const endpoints = createHealthEndpoints({ readiness: () => readiness, metrics: registry });
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      void endpoints[req.url ?? ""](req, res);
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("should report liveness", async () => {
+    const response = await fetch(`${baseUrl}/healthz`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: "ok" });
+  });
+
+  it("should follow the last upstream probe for readiness", async () => {
+    readiness = { ready: false, consecutiveFailures: 3, lastProbeAt: Date.now(), error: "Request timeout after 10000ms" };
+    const notReady = await fetch(`${baseUrl}/readyz`);
+
+    expect(notReady.status).toBe(503);
+    expect(await notReady.json()).toMatchObject({ status: "not_ready", consecutive_failures: 3, error: "Request timeout after 10000ms" });
+
+    readiness = { ready: true, consecutiveFailures: 0, lastProbeAt: Date.now(), lastSuccessAt: Date.now() };
+    const ready = await fetch(`${baseUrl}/readyz`);
+
+    expect(ready.status).toBe(200);
+    expect(await ready.json()).toMatchObject({ status: "ready" });
+  });
+
+  it("should expose metrics in Prometheus text format", async () => {
+    registry.counter("mcp_tool_calls_total", "Tool calls").inc({ tool: "get_post", outcome: "success" });
+
+    const response = await fetch(`${baseUrl}/metrics`);
+
+    expect(response.headers.get("content-type")).toContain("text/plain; version=0.0.4");
+    expect(await response.text()).toContain('mcp_tool_calls_total{tool="get_post",outcome="success"} 1');
+  });
+});
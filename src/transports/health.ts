@@ -0,0 +1,43 @@
+import { ServerResponse } from "node:http";
+import { ReadinessStatus } from "../api/readiness-probe.js";
+import { MetricsRegistry } from "../utils/metrics.js";
+import { HttpEndpoint } from "./http.js";
+
+export interface HealthEndpointOptions {
+  // Status of the last upstream probe
+  readiness: () => ReadinessStatus;
+  metrics: MetricsRegistry;
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, { "Content-Type": "application/json", "Cache-Control": "no-store" });
+  res.end(JSON.stringify(body));
+}
+
+// /healthz: the process is serving requests. /readyz: the last probe of the
+// HackerNews API succeeded. /metrics: Prometheus text exposition.
+export function createHealthEndpoints(options: HealthEndpointOptions): Record<string, HttpEndpoint> {
+  const startedAt = Date.now();
+
+  return {
+    "/healthz": (_req, res) => {
+      sendJson(res, 200, { status: "ok", uptime_seconds: Math.floor((Date.now() - startedAt) / 1000) });
+    },
+
+    "/readyz": (_req, res) => {
+      const status = options.readiness();
+      sendJson(res, status.ready ? 200 : 503, {
+        status: status.ready ? "ready" : "not_ready",
+        last_probe_at: status.lastProbeAt ? new Date(status.lastProbeAt).toISOString() : null,
+        last_success_at: status.lastSuccessAt ? new Date(status.lastSuccessAt).toISOString() : null,
+        consecutive_failures: status.consecutiveFailures,
+        error: status.error,
+      });
+    },
+
+    "/metrics": (_req, res) => {
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8", "Cache-Control": "no-store" });
+      res.end(options.metrics.render());
+    },
+  };
+}
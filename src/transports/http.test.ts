@@ -0,0 +1,255 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { startHttpTransport, HttpTransportServer } from "./http";
+import { ApiKeyVerifier, createAuthenticator } from "./auth";
+import { logger } from "../utils/logger";
+
+describe("startHttpTransport", () => {
+  let transport: HttpTransportServer;
+  let serversCreated: number;
+  let calls: number;
+  let lastClientId: string | undefined;
+
+  const createServer = async () => {
+    serversCreated++;
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    server.tool("count", "Counts calls across every session", async extra => {
+      calls++;
+      lastClientId = extra.authInfo?.clientId;
+      return { content: [{ type: "text", text: String(calls) }] };
+    });
+    return server;
+  };
+
+  const connect = async (headers: Record<string, string> = {}) => {
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const clientTransport = new StreamableHTTPClientTransport(new URL(transport.url), { requestInit: { headers } });
+    await client.connect(clientTransport);
+    return { client, clientTransport };
+  };
+
+  beforeAll(() => {
+    logger.setLevel("error");
+  });
+
+  afterAll(() => {
+    logger.setLevel("info");
+  });
+
+  beforeEach(async () => {
+    serversCreated = 0;
+    calls = 0;
+    transport = await startHttpTransport({ port: 0, host: "127.0.0.1", allowedOrigins: [] }, createServer);
+  });
+
+  afterEach(async () => {
+    await transport.close();
+  });
+
+  it("should serve each session from its own server over shared state", async () => {
+    const first = await connect();
+    const second = await connect();
+
+    await first.client.callTool({ name: "count" });
+    const result = await second.client.callTool({ name: "count" });
+
+    expect(result.content).toEqual([{ type: "text", text: "2" }]);
+    expect(serversCreated).toBe(2);
+    expect(transport.sessionCount()).toBe(2);
+    expect(first.clientTransport.sessionId).not.toBe(second.clientTransport.sessionId);
+
+    await first.client.close();
+    await second.client.close();
+  });
+
+  it("should forget sessions the client terminates", async () => {
+    const { client, clientTransport } = await connect();
+
+    await clientTransport.terminateSession();
+
+    expect(transport.sessionCount()).toBe(0);
+    await client.close();
+  });
+
+  it("should close sessions left idle and the servers behind them", async () => {
+    await transport.close();
+    let serversClosed = 0;
+    transport = await startHttpTransport(
+      { port: 0, host: "127.0.0.1", allowedOrigins: [], sessionIdleSeconds: 0.1 },
+      async () => {
+        const server = await createServer();
+        server.server.onclose = () => serversClosed++;
+        return server;
+      }
+    );
+    const { client } = await connect();
+    await client.callTool({ name: "count" });
+    // The client's open notification stream keeps the session in use
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(transport.sessionCount()).toBe(1);
+
+    // Dropping the connection without ending the session leaves it idle
+    await client.close();
+    expect(transport.sessionCount()).toBe(1);
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    expect(transport.sessionCount()).toBe(0);
+    expect(serversClosed).toBe(1);
+  });
+
+  it("should reject requests without a valid session", async () => {
+    const body = JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+    const headers = { "Content-Type": "application/json", Accept: "application/json, text/event-stream" };
+
+    const missing = await fetch(transport.url, { method: "POST", headers, body });
+    const unknown = await fetch(transport.url, { method: "POST", headers: { ...headers, "Mcp-Session-Id": "nope" }, body });
+    const invalid = await fetch(transport.url, { method: "POST", headers, body: "{" });
+
+    expect(missing.status).toBe(400);
+    expect(unknown.status).toBe(404);
+    expect(invalid.status).toBe(400);
+    expect(serversCreated).toBe(0);
+  });
+
+  it("should answer bodies over the size limit before closing the connection", async () => {
+    const headers = { "Content-Type": "application/json", Accept: "application/json, text/event-stream" };
+    const body = JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list", params: { padding: "x".repeat(5 * 1024 * 1024) } });
+
+    const response = await fetch(transport.url, { method: "POST", headers, body });
+
+    expect(response.status).toBe(413);
+    expect(response.headers.get("connection")).toBe("close");
+    expect(await response.json()).toMatchObject({ error: { code: -32600, message: "Request too large" } });
+  });
+
+  it("should refuse new requests but keep sessions open once it stops accepting", async () => {
+    const { client } = await connect();
+
+    transport.stopAccepting();
+
+    // Idle connections are closed, and requests on busy ones get a 503
+    await expect(client.callTool({ name: "count" })).rejects.toThrow();
+    expect(transport.sessionCount()).toBe(1);
+    await client.close();
+  });
+
+  it("should only serve the MCP endpoint", async () => {
+    const response = await fetch(new URL("/other", transport.url));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should reject origins that are not allowed when a list is configured", async () => {
+    await transport.close();
+    transport = await startHttpTransport(
+      { port: 0, host: "127.0.0.1", allowedOrigins: ["https://agent.example"] },
+      createServer
+    );
+
+    const response = await fetch(transport.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        Origin: "https://evil.example",
+      },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "x", version: "1" } },
+      }),
+    });
+
+    expect(response.status).toBe(403);
+    expect(serversCreated).toBe(0);
+
+    // Agents outside a browser send no Origin header
+    const { client } = await connect();
+    expect(transport.sessionCount()).toBe(1);
+    await client.close();
+  });
+
+  it("should only accept localhost origins by default", async () => {
+    const initialize = (origin: string) => fetch(transport.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        Origin: origin,
+      },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "x", version: "1" } },
+      }),
+    });
+
+    const foreign = await initialize("https://evil.example");
+    expect(foreign.status).toBe(403);
+    expect(serversCreated).toBe(0);
+
+    const local = await initialize("http://localhost:5173");
+    expect(local.status).toBe(200);
+    expect(serversCreated).toBe(1);
+  });
+
+  describe("with authentication", () => {
+    beforeEach(async () => {
+      await transport.close();
+      transport = await startHttpTransport(
+        {
+          port: 0,
+          host: "127.0.0.1",
+          allowedOrigins: [],
+          authenticate: createAuthenticator([new ApiKeyVerifier([{ id: "agent-a", key: "key-a" }, { id: "agent-b", key: "key-b" }])]),
+          endpoints: { "/healthz": (_req, res) => { res.end("ok"); } },
+        },
+        createServer
+      );
+    });
+
+    it("should reject requests without valid credentials", async () => {
+      const response = await fetch(transport.url, { method: "POST", body: "{}" });
+      const invalid = await fetch(transport.url, { method: "POST", headers: { Authorization: "Bearer nope" }, body: "{}" });
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get("www-authenticate")).toBe("Bearer");
+      expect(invalid.status).toBe(401);
+      expect(invalid.headers.get("www-authenticate")).toBe('Bearer error="invalid_token"');
+      expect(serversCreated).toBe(0);
+    });
+
+    it("should serve extra endpoints without credentials", async () => {
+      const response = await fetch(new URL("/healthz", transport.url));
+      const post = await fetch(new URL("/healthz", transport.url), { method: "POST" });
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe("ok");
+      expect(post.status).toBe(405);
+    });
+
+    it("should pass the caller to handlers and keep sessions to their owner", async () => {
+      const { client, clientTransport } = await connect({ Authorization: "Bearer key-a" });
+      await client.callTool({ name: "count" });
+
+      expect(lastClientId).toBe("agent-a");
+
+      const hijack = await fetch(transport.url, {
+        method: "POST",
+        headers: {
+          Authorization: "Bearer key-b",
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          "Mcp-Session-Id": clientTransport.sessionId!,
+        },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 9, method: "tools/list" }),
+      });
+      expect(hijack.status).toBe(404);
+
+      await client.close();
+    });
+  });
+});
@@ -0,0 +1,323 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { randomUUID } from "node:crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../utils/logger.js";
+import { metrics } from "../utils/metrics.js";
+import { AuthError, Authenticator } from "./auth.js";
+
+const log = logger.child({ module: "http" });
+
+const httpRequests = metrics.counter("mcp_http_requests_total", "HTTP requests served, by path, method and status");
+const httpDuration = metrics.histogram("mcp_http_request_duration_seconds", "Time to answer HTTP requests, by path");
+
+// Largest JSON-RPC request body accepted
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export type HttpEndpoint = (req: IncomingMessage, res: ServerResponse) => void | Promise<void>;
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  // Origins browsers may call the endpoint from; empty allows only localhost
+  // pages. Requests without an Origin header (non-browser agents) are always accepted.
+  allowedOrigins: string[];
+  // Runs before every request; without one the endpoint is open
+  authenticate?: Authenticator;
+  // Extra GET routes such as health checks, served without authentication
+  endpoints?: Record<string, HttpEndpoint>;
+  path?: string;
+  // Sessions with no open request or stream for this long are closed; 0 keeps them
+  sessionIdleSeconds?: number;
+}
+
+export interface HttpTransportServer {
+  readonly url: string;
+  sessionCount(): number;
+  // Stops listening and answers further MCP requests with 503; open sessions
+  // stay connected so in-flight calls can finish
+  stopAccepting(): void;
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  // Client that opened the session; only it may use the session ID
+  clientId?: string;
+  // Requests and SSE streams still open on the session
+  openRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+// Hostnames of pages on this machine, accepted when no origins are configured
+const LOCAL_HOSTNAMES = new Set(["localhost", "127.0.0.1", "[::1]"]);
+
+function isOriginAllowed(origin: string, allowedOrigins: string[]): boolean {
+  if (allowedOrigins.length > 0) {
+    return allowedOrigins.includes(origin);
+  }
+  try {
+    return LOCAL_HOSTNAMES.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+class HttpError extends Error {
+  constructor(public readonly statusCode: number, public readonly code: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop reading; the connection closes once the error response is sent
+        req.removeAllListeners("data");
+        req.pause();
+        chunks.length = 0;
+        reject(new HttpError(413, -32600, "Request too large"));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        reject(new HttpError(400, -32700, "Parse error: body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function pathnameOf(req: IncomingMessage): string {
+  try {
+    return new URL(req.url ?? "/", "http://localhost").pathname;
+  } catch {
+    return "";
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, statusCode: number, code: number, message: string): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.writeHead(statusCode, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+// Serves the MCP Streamable HTTP transport. Every client session gets its own
+// McpServer from createMcpServer, so sessions can share one HackerNewsClient
+// (and its cache) while keeping their own protocol state.
+export async function startHttpTransport(
+  options: HttpTransportOptions,
+  createMcpServer: () => Promise<McpServer>
+): Promise<HttpTransportServer> {
+  const path = options.path ?? "/mcp";
+  const sessions = new Map<string, Session>();
+  const idleMs = (options.sessionIdleSeconds ?? 0) * 1000;
+  let accepting = true;
+
+  // Holds off the idle timeout until the response (or SSE stream) closes.
+  // Clients that vanish without DELETE would otherwise keep their server forever.
+  const track = (sessionId: string, session: Session, res: ServerResponse): void => {
+    session.openRequests++;
+    clearTimeout(session.idleTimer);
+    res.once("close", () => {
+      session.openRequests--;
+      if (idleMs <= 0 || session.openRequests > 0 || sessions.get(sessionId) !== session) {
+        return;
+      }
+      session.idleTimer = setTimeout(() => {
+        log.info(`Session ${sessionId} idle for ${idleMs / 1000}s, closing it`);
+        session.transport.close().catch(error => log.warn(`Failed to close idle session ${sessionId}:`, error));
+      }, idleMs);
+      session.idleTimer.unref();
+    });
+  };
+
+  const openSession = async (clientId: string | undefined, res: ServerResponse): Promise<StreamableHTTPServerTransport> => {
+    const server = await createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: sessionId => {
+        const session: Session = { transport, clientId, openRequests: 0 };
+        sessions.set(sessionId, session);
+        track(sessionId, session, res);
+        log.info(`Session ${sessionId} opened (${sessions.size} active)`);
+      },
+    });
+
+    // Closing the transport also closes the server connected to it
+    transport.onclose = () => {
+      const session = transport.sessionId ? sessions.get(transport.sessionId) : undefined;
+      if (transport.sessionId && session) {
+        clearTimeout(session.idleTimer);
+        sessions.delete(transport.sessionId);
+        log.info(`Session ${transport.sessionId} closed (${sessions.size} active)`);
+      }
+    };
+
+    await server.connect(transport);
+    return transport;
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const pathname = pathnameOf(req);
+    const endpoint = options.endpoints?.[pathname];
+    if (endpoint) {
+      if (req.method !== "GET" && req.method !== "HEAD") {
+        res.writeHead(405, { Allow: "GET, HEAD" }).end();
+        return;
+      }
+      await endpoint(req, res);
+      return;
+    }
+    if (pathname !== path) {
+      res.writeHead(404, { "Content-Type": "text/plain" }).end("Not found");
+      return;
+    }
+    if (!accepting) {
+      res.setHeader("Connection", "close");
+      sendJsonRpcError(res, 503, -32000, "Server is shutting down");
+      return;
+    }
+
+    const origin = req.headers.origin;
+    if (origin && !isOriginAllowed(origin, options.allowedOrigins)) {
+      log.warn(`Rejected request from origin ${origin}`);
+      sendJsonRpcError(res, 403, -32000, "Forbidden: origin not allowed");
+      return;
+    }
+
+    let auth: AuthInfo | undefined;
+    if (options.authenticate) {
+      try {
+        auth = await options.authenticate(req);
+      } catch (error) {
+        if (error instanceof AuthError) {
+          res.setHeader("WWW-Authenticate", error.reason === "missing" ? "Bearer" : 'Bearer error="invalid_token"');
+          sendJsonRpcError(res, 401, -32001, `Unauthorized: ${error.message}`);
+          return;
+        }
+        throw error;
+      }
+    }
+    // The SDK hands req.auth to handlers as extra.authInfo
+    const request = Object.assign(req, { auth });
+
+    const sessionHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const found = sessionId ? sessions.get(sessionId) : undefined;
+    // Another client's session ID is treated like an unknown one
+    const session = found && found.clientId === auth?.clientId ? found : undefined;
+    if (sessionId && session) {
+      track(sessionId, session, res);
+    }
+
+    if (req.method === "POST") {
+      const body = await readJsonBody(req);
+
+      if (session) {
+        await session.transport.handleRequest(request, res, body);
+      } else if (!sessionId && isInitializeRequest(body)) {
+        const transport = await openSession(auth?.clientId, res);
+        await transport.handleRequest(request, res, body);
+        // A rejected initialize never gets a session, so nothing else would close it
+        if (!transport.sessionId) {
+          await transport.close();
+        }
+      } else if (sessionId) {
+        sendJsonRpcError(res, 404, -32001, "Session not found");
+      } else {
+        sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      }
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      if (session) {
+        await session.transport.handleRequest(request, res);
+      } else if (sessionId) {
+        sendJsonRpcError(res, 404, -32001, "Session not found");
+      } else {
+        sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      }
+      return;
+    }
+
+    res.writeHead(405, { Allow: "GET, POST, DELETE" }).end();
+  };
+
+  const httpServer: Server = createServer((req, res) => {
+    // Unknown paths share one label so scanners can't grow the metrics
+    const pathname = pathnameOf(req);
+    const label = pathname === path || options.endpoints?.[pathname] ? pathname : "other";
+    const stopTimer = httpDuration.startTimer({ path: label });
+    res.on("finish", () => {
+      stopTimer();
+      httpRequests.inc({ path: label, method: req.method ?? "UNKNOWN", status: String(res.statusCode) });
+    });
+
+    handle(req, res).catch(error => {
+      if (error instanceof HttpError) {
+        // Unread body bytes would corrupt the next request on a kept-alive connection
+        if (!req.complete) {
+          res.setHeader("Connection", "close");
+        }
+        sendJsonRpcError(res, error.statusCode, error.code, error.message);
+        return;
+      }
+      log.error("Failed to handle HTTP request:", error);
+      sendJsonRpcError(res, 500, -32603, "Internal server error");
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const url = `http://${options.host.includes(":") ? `[${options.host}]` : options.host}:${address.port}${path}`;
+  log.info(`Streamable HTTP transport listening on ${url}`);
+
+  let listenerClosed: Promise<void> | undefined;
+  const stopListening = (): Promise<void> => {
+    listenerClosed ??= new Promise<void>(resolve => httpServer.close(() => resolve()));
+    return listenerClosed;
+  };
+
+  return {
+    url,
+    sessionCount: () => sessions.size,
+    stopAccepting: () => {
+      accepting = false;
+      void stopListening();
+    },
+    close: async () => {
+      accepting = false;
+      const closed = stopListening();
+      const open = Array.from(sessions.values());
+      sessions.clear();
+      open.forEach(session => clearTimeout(session.idleTimer));
+      await Promise.all(open.map(session => session.transport.close()));
+      httpServer.closeAllConnections();
+      await closed;
+    },
+  };
+}
@@ -59,6 +59,31 @@ export interface StoryWithMetadata extends HackerNewsItem {
   domain?: string;
 }
 
+// A comment with its loaded replies, in HN's rank order (the order of kids)
+export interface CommentNode extends HackerNewsItem {
+  // 1 for replies to the item itself
+  depth: number;
+  // Ids from the top-level comment down to this one
+  path: number[];
+  // Loaded replies; kids may name more when the tree was cut short
+  childCount: number;
+  // This comment and all its loaded replies
+  subtreeSize: number;
+  children: CommentNode[];
+}
+
+export interface CommentTree {
+  itemId: number;
+  // Top-level comments
+  comments: CommentNode[];
+  total: number;
+  // Whether maxDepth, maxComments or the time budget left comments out
+  truncated: boolean;
+  // Comments left unfetched by maxComments or the time budget, whose replies
+  // weren't loaded either; a cursor for the next call
+  skipped: number[];
+}
+
 export interface UserWithStats extends HackerNewsUser {
   averageScore?: number;
   topStories?: HackerNewsItem[];
@@ -0,0 +1,18 @@
+// The error an aborted operation rejects with: the signal's reason when it is
+// an Error (a ShutdownError, say), otherwise a generic AbortError
+export function abortError(signal: AbortSignal): Error {
+  const reason: unknown = signal.reason;
+  return reason instanceof Error ? reason : Object.assign(new Error("Operation aborted"), { name: "AbortError" });
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+}
+
+// Whether an error only reports that the operation was cancelled or cut off
+// by shutdown, rather than a failure
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === "AbortError" || error.name === "ShutdownError");
+}
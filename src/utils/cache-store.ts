@@ -0,0 +1,76 @@
+export interface StoredEntry<T> {
+  value: T;
+  expiresAt: number;
+  createdAt: number;
+  bytes: number;
+}
+
+// Storage behind SimpleCache. Iteration order is recency order: the first key
+// is the least recently used. Implementations only need to persist entries;
+// recency may be kept in memory.
+export interface CacheStore<T> {
+  readonly size: number;
+  get(key: string): StoredEntry<T> | undefined;
+  set(key: string, entry: StoredEntry<T>): void;
+  delete(key: string): boolean;
+  // Marks a key as most recently used
+  touch(key: string): void;
+  clear(): void;
+  keys(): IterableIterator<string>;
+  values(): IterableIterator<StoredEntry<T>>;
+  entries(): IterableIterator<[string, StoredEntry<T>]>;
+  flush(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export class MemoryCacheStore<T> implements CacheStore<T> {
+  protected readonly map = new Map<string, StoredEntry<T>>();
+
+  get size(): number {
+    return this.map.size;
+  }
+
+  get(key: string): StoredEntry<T> | undefined {
+    return this.map.get(key);
+  }
+
+  set(key: string, entry: StoredEntry<T>): void {
+    this.map.set(key, entry);
+  }
+
+  delete(key: string): boolean {
+    return this.map.delete(key);
+  }
+
+  touch(key: string): void {
+    const entry = this.map.get(key);
+    if (entry) {
+      this.map.delete(key);
+      this.map.set(key, entry);
+    }
+  }
+
+  clear(): void {
+    this.map.clear();
+  }
+
+  keys(): IterableIterator<string> {
+    return this.map.keys();
+  }
+
+  values(): IterableIterator<StoredEntry<T>> {
+    return this.map.values();
+  }
+
+  entries(): IterableIterator<[string, StoredEntry<T>]> {
+    return this.map.entries();
+  }
+
+  async flush(): Promise<void> {
+    // Nothing to persist
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
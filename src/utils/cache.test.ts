@@ -1,4 +1,4 @@
-import { SimpleCache } from "./cache";
+import { hitRatio, SimpleCache } from "./cache";
 
 describe("SimpleCache", () => {
   let cache: SimpleCache<string>;
@@ -55,6 +55,17 @@ describe("SimpleCache", () => {
       cache.delete("key1");
       expect(cache.size()).toBe(1);
     });
+
+    it("should peek at values without counting reads", () => {
+      cache.set("key1", "value1");
+      cache.set("key2", "value2");
+      cache.get("key1");
+
+      expect(cache.peekValues()).toEqual(["value1", "value2"]);
+      expect(cache.peek("key2")).toBe("value2");
+      expect(cache.peek("missing")).toBeUndefined();
+      expect(cache.getStats()).toMatchObject({ hits: 1, misses: 0 });
+    });
   });
 
   describe("TTL expiration", () => {
@@ -69,6 +80,22 @@ describe("SimpleCache", () => {
       expect(cache.has("key1")).toBe(false);
     });
 
+    it("should honor a per-entry TTL override", async () => {
+      const longCache = new SimpleCache<string>(60, 10);
+      longCache.set("short", "value", 0.05);
+      longCache.set("default", "value");
+
+      await new Promise(resolve => setTimeout(resolve, 80));
+
+      expect(longCache.get("short")).toBeUndefined();
+      expect(longCache.get("default")).toBe("value");
+    });
+
+    it("should not store entries with a zero TTL override", () => {
+      cache.set("key1", "value1", 0);
+      expect(cache.has("key1")).toBe(false);
+    });
+
     it("should not return expired entries", async () => {
       cache.set("key1", "value1");
       cache.set("key2", "value2");
@@ -153,6 +180,179 @@ describe("SimpleCache", () => {
     });
   });
 
+  describe("LRU eviction", () => {
+    it("should evict the least recently used entry instead of the first inserted", () => {
+      cache.set("key1", "value1");
+      cache.set("key2", "value2");
+      cache.set("key3", "value3");
+
+      // Touch key1 so key2 becomes the least recently used
+      cache.get("key1");
+      cache.set("key4", "value4");
+
+      expect(cache.get("key1")).toBe("value1");
+      expect(cache.get("key2")).toBeUndefined();
+      expect(cache.get("key3")).toBe("value3");
+      expect(cache.get("key4")).toBe("value4");
+    });
+
+    it("should treat overwriting a key as a use", () => {
+      cache.set("key1", "value1");
+      cache.set("key2", "value2");
+      cache.set("key3", "value3");
+
+      cache.set("key1", "updated");
+      cache.set("key4", "value4");
+
+      expect(cache.get("key1")).toBe("updated");
+      expect(cache.get("key2")).toBeUndefined();
+    });
+
+    it("should count capacity evictions", () => {
+      cache.set("key1", "value1");
+      cache.set("key2", "value2");
+      cache.set("key3", "value3");
+      cache.set("key4", "value4");
+      cache.set("key5", "value5");
+
+      expect(cache.getStats().evictions).toEqual({ capacity: 2, bytes: 0, expired: 0 });
+    });
+  });
+
+  describe("byte budget", () => {
+    it("should evict entries to stay within the byte budget", () => {
+      // Each serialized value below is 11 bytes (JSON string including quotes)
+      const budgetCache = new SimpleCache<string>(60, 100, { maxBytes: 30 });
+
+      budgetCache.set("a", "value-aaa");
+      budgetCache.set("b", "value-bbb");
+      expect(budgetCache.getStats().bytes).toBe(22);
+
+      budgetCache.set("c", "value-ccc");
+
+      expect(budgetCache.get("a")).toBeUndefined();
+      expect(budgetCache.get("b")).toBe("value-bbb");
+      expect(budgetCache.get("c")).toBe("value-ccc");
+      expect(budgetCache.getStats()).toMatchObject({ size: 2, bytes: 22, evictions: { bytes: 1 } });
+    });
+
+    it("should refuse entries larger than the whole budget", () => {
+      const budgetCache = new SimpleCache<string>(60, 100, { maxBytes: 10 });
+
+      budgetCache.set("big", "x".repeat(50));
+
+      expect(budgetCache.get("big")).toBeUndefined();
+      expect(budgetCache.getStats().evictions.bytes).toBe(1);
+    });
+
+    it("should release bytes when entries are deleted or cleared", () => {
+      const budgetCache = new SimpleCache<string>(60, 100, { maxBytes: 100 });
+
+      budgetCache.set("a", "value-aaa");
+      budgetCache.set("b", "value-bbb");
+      budgetCache.delete("a");
+      expect(budgetCache.getStats().bytes).toBe(11);
+
+      budgetCache.clear();
+      expect(budgetCache.getStats().bytes).toBe(0);
+    });
+  });
+
+  describe("stale window", () => {
+    it("should serve expired entries as stale from lookup but not from get", async () => {
+      const staleCache = new SimpleCache<string>(0.05, 10, { staleSeconds: 60 });
+      staleCache.set("key1", "value1");
+
+      expect(staleCache.lookup("key1")).toEqual({ value: "value1", stale: false });
+
+      await new Promise(resolve => setTimeout(resolve, 80));
+
+      expect(staleCache.get("key1")).toBeUndefined();
+      expect(staleCache.lookup("key1")).toEqual({ value: "value1", stale: true });
+      expect(staleCache.getStats()).toMatchObject({ hits: 1, staleHits: 1, misses: 1, evictions: { expired: 0 } });
+    });
+
+    it("should drop entries once the stale window has passed", async () => {
+      const staleCache = new SimpleCache<string>(0.02, 10, { staleSeconds: 0.03 });
+      staleCache.set("key1", "value1");
+
+      await new Promise(resolve => setTimeout(resolve, 80));
+
+      expect(staleCache.lookup("key1")).toBeUndefined();
+      expect(staleCache.getStats()).toMatchObject({ size: 0, evictions: { expired: 1 } });
+    });
+
+    it("should not serve stale entries without a stale window", async () => {
+      const shortCache = new SimpleCache<string>(0.05, 10);
+      shortCache.set("key1", "value1");
+
+      await new Promise(resolve => setTimeout(resolve, 80));
+
+      expect(shortCache.lookup("key1")).toBeUndefined();
+    });
+  });
+
+  describe("statistics", () => {
+    it("should count hits, misses and sets", () => {
+      cache.set("key1", "value1");
+      cache.get("key1");
+      cache.get("key1");
+      cache.get("missing");
+
+      expect(cache.getStats()).toMatchObject({ hits: 2, misses: 1, sets: 1 });
+    });
+
+    it("should count expired lookups as misses and expirations", async () => {
+      const shortCache = new SimpleCache<string>(0.05, 10);
+      shortCache.set("key1", "value1");
+
+      await new Promise(resolve => setTimeout(resolve, 80));
+      shortCache.get("key1");
+
+      expect(shortCache.getStats()).toMatchObject({ hits: 0, misses: 1, evictions: { expired: 1 } });
+    });
+
+    it("should read stats without evicting expired entries", async () => {
+      const shortCache = new SimpleCache<string>(0.05, 10);
+      shortCache.set("key1", "value1");
+      shortCache.set("key2", "value2", 60);
+
+      await new Promise(resolve => setTimeout(resolve, 80));
+
+      expect(shortCache.getStats()).toMatchObject({ size: 1, evictions: { expired: 0 } });
+      expect(shortCache.getStats()).toMatchObject({ size: 1, evictions: { expired: 0 } });
+      expect(shortCache.size()).toBe(1);
+      expect(shortCache.getStats().evictions.expired).toBe(1);
+    });
+
+    it("should count stale hits as answered in the hit ratio", () => {
+      expect(hitRatio({ hits: 6, staleHits: 2, misses: 2 })).toBe(0.8);
+      expect(hitRatio({ hits: 0, staleHits: 0, misses: 0 })).toBe(0);
+    });
+
+    it("should report the average entry age", async () => {
+      cache.set("key1", "value1");
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(cache.getStats().averageEntryAgeMs).toBeGreaterThanOrEqual(15);
+      cache.clear();
+      expect(cache.getStats().averageEntryAgeMs).toBe(0);
+    });
+
+    it("should reset counters without dropping entries", () => {
+      cache.set("key1", "value1");
+      cache.get("key1");
+      cache.get("missing");
+      const before = cache.getStats().since;
+
+      cache.resetStats();
+
+      expect(cache.getStats()).toMatchObject({ size: 1, hits: 0, misses: 0, sets: 0 });
+      expect(cache.getStats().since).toBeGreaterThanOrEqual(before);
+      expect(cache.get("key1")).toBe("value1");
+    });
+  });
+
   describe("different data types", () => {
     it("should work with objects", () => {
       const objectCache = new SimpleCache<{ name: string; age: number }>(60, 10);
@@ -1,67 +1,205 @@
-interface CacheEntry<T> {
+import { CacheStore, MemoryCacheStore } from "./cache-store.js";
+
+export interface CacheOptions<T> {
+  // Budget for the serialized (JSON) size of all entries; 0 disables it
+  maxBytes?: number;
+  // Where entries live; defaults to an in-memory store
+  store?: CacheStore<T>;
+  // How long past its TTL an entry can still be served by lookup(); 0 disables it
+  staleSeconds?: number;
+}
+
+export interface CacheLookup<T> {
   value: T;
-  expiresAt: number;
+  // True when the entry is past its TTL but inside the stale window
+  stale: boolean;
+}
+
+export interface CacheEvictionStats {
+  capacity: number;
+  bytes: number;
+  expired: number;
 }
 
+export interface CacheStats {
+  size: number;
+  maxSize: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  // Lookups answered from the stale window
+  staleHits: number;
+  misses: number;
+  sets: number;
+  evictions: CacheEvictionStats;
+  averageEntryAgeMs: number;
+  // When the counters were last reset (epoch ms)
+  since: number;
+}
+
+// Share of lookups answered from the cache, stale hits included
+export function hitRatio(stats: Pick<CacheStats, "hits" | "staleHits" | "misses">): number {
+  const answered = stats.hits + stats.staleHits;
+  const lookups = answered + stats.misses;
+  return lookups > 0 ? answered / lookups : 0;
+}
+
+// Store iteration order doubles as the LRU order: the first key is the least recently used
 export class SimpleCache<T> {
-  private cache = new Map<string, CacheEntry<T>>();
+  private readonly cache: CacheStore<T>;
   private readonly ttlMs: number;
   private readonly maxSize: number;
+  private readonly maxBytes: number;
+  private readonly staleMs: number;
+  private totalBytes = 0;
+  private evictions: CacheEvictionStats = { capacity: 0, bytes: 0, expired: 0 };
+  private hits = 0;
+  private staleHits = 0;
+  private misses = 0;
+  private sets = 0;
+  private since = Date.now();
 
-  constructor(ttlSeconds: number = 300, maxSize: number = 1000) {
+  constructor(ttlSeconds: number = 300, maxSize: number = 1000, options: CacheOptions<T> = {}) {
     this.ttlMs = ttlSeconds * 1000;
     this.maxSize = maxSize;
+    this.maxBytes = options.maxBytes || 0;
+    this.staleMs = Math.max(0, options.staleSeconds || 0) * 1000;
+    this.cache = options.store || new MemoryCacheStore<T>();
+
+    // Persistent stores may come back with entries from a previous run
+    for (const entry of this.cache.values()) {
+      this.totalBytes += entry.bytes;
+    }
   }
 
-  set(key: string, value: T): void {
+  // ttlSeconds overrides the cache-wide TTL for this entry
+  set(key: string, value: T, ttlSeconds?: number): void {
+    const ttlMs = ttlSeconds !== undefined ? ttlSeconds * 1000 : this.ttlMs;
+
     // Don't store anything if maxSize is 0 or TTL is 0
-    if (this.maxSize === 0 || this.ttlMs === 0) {
+    if (this.maxSize === 0 || ttlMs <= 0) {
       return;
     }
 
+    this.sets++;
+
+    // Sizes are only measured when there is a byte budget to enforce
+    const bytes = this.maxBytes > 0 ? this.measure(value) : 0;
+    if (this.maxBytes > 0 && bytes > this.maxBytes) {
+      this.remove(key);
+      this.evictions.bytes++;
+      return;
+    }
+
+    // Re-inserting moves the key to the most recently used position
+    this.remove(key);
+
     // Remove expired entries if we're at capacity
-    if (this.cache.size >= this.maxSize) {
+    if (this.cache.size >= this.maxSize || (this.maxBytes > 0 && this.totalBytes + bytes > this.maxBytes)) {
       this.cleanup();
     }
 
-    // If still at capacity, remove oldest entry
-    if (this.cache.size >= this.maxSize) {
-      const firstKey = this.cache.keys().next().value;
-      if (firstKey) {
-        this.cache.delete(firstKey);
-      }
+    // If still at capacity, evict least recently used entries
+    while (this.cache.size > 0 && this.cache.size >= this.maxSize) {
+      this.evictLeastRecentlyUsed("capacity");
+    }
+
+    while (this.maxBytes > 0 && this.totalBytes + bytes > this.maxBytes && this.cache.size > 0) {
+      this.evictLeastRecentlyUsed("bytes");
     }
 
+    const now = Date.now();
     this.cache.set(key, {
       value,
-      expiresAt: Date.now() + this.ttlMs,
+      expiresAt: now + ttlMs,
+      createdAt: now,
+      bytes,
     });
+    this.totalBytes += bytes;
   }
 
   get(key: string): T | undefined {
     const entry = this.cache.get(key);
     if (!entry) {
+      this.misses++;
       return undefined;
     }
 
-    if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
+    const now = Date.now();
+    if (now > entry.expiresAt) {
+      // Keep entries that lookup() may still serve as stale
+      if (this.isPastStaleWindow(entry.expiresAt, now)) {
+        this.remove(key);
+        this.evictions.expired++;
+      }
+      this.misses++;
       return undefined;
     }
 
+    this.cache.touch(key);
+
+    this.hits++;
     return entry.value;
   }
 
+  // Like get(), but also returns entries inside the stale window, flagged as stale
+  lookup(key: string): CacheLookup<T> | undefined {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    const now = Date.now();
+    if (this.isPastStaleWindow(entry.expiresAt, now)) {
+      this.remove(key);
+      this.evictions.expired++;
+      this.misses++;
+      return undefined;
+    }
+
+    this.cache.touch(key);
+
+    const stale = now > entry.expiresAt;
+    if (stale) {
+      this.staleHits++;
+    } else {
+      this.hits++;
+    }
+    return { value: entry.value, stale };
+  }
+
+  // The servable value under key, if any. Like peekValues() this neither
+  // counts as a read nor refreshes recency.
+  peek(key: string): T | undefined {
+    const entry = this.cache.get(key);
+    return entry && !this.isPastStaleWindow(entry.expiresAt, Date.now()) ? entry.value : undefined;
+  }
+
+  // Servable values, most recently used first. Unlike get() this neither
+  // counts as a read nor refreshes recency.
+  peekValues(): T[] {
+    const now = Date.now();
+    const values: T[] = [];
+    for (const entry of this.cache.values()) {
+      if (!this.isPastStaleWindow(entry.expiresAt, now)) {
+        values.push(entry.value);
+      }
+    }
+    return values.reverse();
+  }
+
   has(key: string): boolean {
     return this.get(key) !== undefined;
   }
 
   delete(key: string): boolean {
-    return this.cache.delete(key);
+    return this.remove(key);
   }
 
   clear(): void {
     this.cache.clear();
+    this.totalBytes = 0;
   }
 
   size(): number {
@@ -69,12 +207,92 @@ export class SimpleCache<T> {
     return this.cache.size;
   }
 
+  // Persists pending writes for stores that buffer them
+  flush(): Promise<void> {
+    return this.cache.flush();
+  }
+
+  close(): Promise<void> {
+    return this.cache.close();
+  }
+
+  // Counts only live entries (inside the stale window) but leaves expired
+  // ones for the next cleanup: reading stats changes nothing
+  getStats(): CacheStats {
+    const now = Date.now();
+    let size = 0;
+    let totalAgeMs = 0;
+    for (const entry of this.cache.values()) {
+      if (!this.isPastStaleWindow(entry.expiresAt, now)) {
+        size++;
+        totalAgeMs += now - entry.createdAt;
+      }
+    }
+
+    return {
+      size,
+      maxSize: this.maxSize,
+      bytes: this.totalBytes,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      staleHits: this.staleHits,
+      misses: this.misses,
+      sets: this.sets,
+      evictions: { ...this.evictions },
+      averageEntryAgeMs: size > 0 ? Math.round(totalAgeMs / size) : 0,
+      since: this.since,
+    };
+  }
+
+  // Resets the counters only; cached entries are kept
+  resetStats(): void {
+    this.hits = 0;
+    this.staleHits = 0;
+    this.misses = 0;
+    this.sets = 0;
+    this.evictions = { capacity: 0, bytes: 0, expired: 0 };
+    this.since = Date.now();
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    this.totalBytes -= entry.bytes;
+    return this.cache.delete(key);
+  }
+
+  private evictLeastRecentlyUsed(reason: "capacity" | "bytes"): void {
+    const oldest = this.cache.keys().next();
+    if (oldest.done) {
+      return;
+    }
+
+    this.remove(oldest.value);
+    this.evictions[reason]++;
+  }
+
+  private measure(value: T): number {
+    try {
+      return Buffer.byteLength(JSON.stringify(value) ?? "", "utf8");
+    } catch {
+      return 0;
+    }
+  }
+
+  private isPastStaleWindow(expiresAt: number, now: number): boolean {
+    return now > expiresAt + this.staleMs;
+  }
+
   private cleanup(): void {
     const now = Date.now();
     for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.expiresAt) {
-        this.cache.delete(key);
+      if (this.isPastStaleWindow(entry.expiresAt, now)) {
+        this.remove(key);
+        this.evictions.expired++;
       }
     }
   }
-} 
\ No newline at end of file
+}
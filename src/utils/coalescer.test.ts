@@ -0,0 +1,81 @@
+import { RequestCoalescer } from "./coalescer";
+
+describe("RequestCoalescer", () => {
+  it("should share a pending promise for the same key", async () => {
+    const coalescer = new RequestCoalescer();
+    const fn = jest.fn(async () => "value");
+
+    const results = await Promise.all([
+      coalescer.run("item:1", fn),
+      coalescer.run("item:1", fn),
+      coalescer.run("item:2", fn)
+    ]);
+
+    expect(results).toEqual(["value", "value", "value"]);
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(coalescer.getStats()).toEqual({
+      inFlight: 0,
+      started: 2,
+      coalesced: 1,
+      coalescedByKind: { item: 1 }
+    });
+  });
+
+  it("should start a new request once the previous one settles", async () => {
+    const coalescer = new RequestCoalescer();
+    const fn = jest.fn(async () => { throw new Error("boom"); });
+
+    await expect(coalescer.run("updates", fn)).rejects.toThrow("boom");
+    await expect(coalescer.run("updates", fn)).rejects.toThrow("boom");
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(coalescer.getStats().coalesced).toBe(0);
+  });
+
+  it("should reject an aborted caller without cancelling the others", async () => {
+    const coalescer = new RequestCoalescer();
+    let shared: AbortSignal | undefined;
+    let finish!: (value: string) => void;
+    const fn = jest.fn((signal: AbortSignal) => {
+      shared = signal;
+      return new Promise<string>(resolve => { finish = resolve; });
+    });
+    const first = new AbortController();
+
+    const cancelled = coalescer.run("item:1", fn, first.signal);
+    const kept = coalescer.run("item:1", fn, new AbortController().signal);
+    first.abort(new Error("Request cancelled"));
+
+    await expect(cancelled).rejects.toThrow("Request cancelled");
+    expect(shared?.aborted).toBe(false);
+
+    finish("value");
+    await expect(kept).resolves.toBe("value");
+  });
+
+  it("should abort the shared request once every caller has aborted", async () => {
+    const coalescer = new RequestCoalescer();
+    const signals: AbortSignal[] = [];
+    const fn = jest.fn((signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<string>((_resolve, reject) => {
+        signal.addEventListener("abort", () => reject(signal.reason));
+      });
+    });
+    const callers = [new AbortController(), new AbortController()];
+
+    const results = callers.map(caller => coalescer.run("item:1", fn, caller.signal));
+    callers.forEach(caller => caller.abort(new Error("Request cancelled")));
+
+    for (const result of results) {
+      await expect(result).rejects.toThrow("Request cancelled");
+    }
+    expect(signals[0].aborted).toBe(true);
+    expect(coalescer.getStats().inFlight).toBe(0);
+
+    // A later caller starts a fresh request rather than joining the aborted one
+    const retry = coalescer.run("item:1", async () => "fresh");
+    await expect(retry).resolves.toBe("fresh");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
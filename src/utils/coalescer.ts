@@ -0,0 +1,84 @@
+import { abortError } from "./abort.js";
+
+export interface CoalescerStats {
+  inFlight: number;
+  started: number;
+  coalesced: number;
+  // Keyed by the prefix before ":" (item, user, list, ...)
+  coalescedByKind: Record<string, number>;
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  // Callers still waiting; one without a signal keeps the request alive
+  waiters: number;
+}
+
+// Shares one promise between concurrent callers asking for the same key. Each
+// caller may pass its own signal: an abort rejects that caller at once, and the
+// shared request's signal only aborts once every caller has given up.
+export class RequestCoalescer {
+  private readonly inFlight = new Map<string, InFlightRequest>();
+  private started = 0;
+  private coalesced = 0;
+  private coalescedByKind: Record<string, number> = {};
+
+  run<T>(key: string, fn: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(abortError(signal));
+    }
+
+    let request = this.inFlight.get(key);
+    if (request) {
+      const kind = key.split(":")[0];
+      this.coalesced++;
+      this.coalescedByKind[kind] = (this.coalescedByKind[kind] || 0) + 1;
+    } else {
+      const controller = new AbortController();
+      const started: InFlightRequest = {
+        promise: fn(controller.signal).finally(() => this.release(key, started)),
+        controller,
+        waiters: 0,
+      };
+      request = started;
+      this.inFlight.set(key, request);
+      this.started++;
+    }
+
+    request.waiters++;
+    return (signal ? this.follow(key, request, signal) : request.promise) as Promise<T>;
+  }
+
+  getStats(): CoalescerStats {
+    return {
+      inFlight: this.inFlight.size,
+      started: this.started,
+      coalesced: this.coalesced,
+      coalescedByKind: { ...this.coalescedByKind },
+    };
+  }
+
+  private follow(key: string, request: InFlightRequest, signal: AbortSignal): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        reject(abortError(signal));
+        if (--request.waiters === 0) {
+          // Later callers start afresh rather than joining an aborted request
+          this.release(key, request);
+          request.controller.abort(signal.reason);
+        }
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+      request.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  }
+
+  private release(key: string, request: InFlightRequest): void {
+    if (this.inFlight.get(key) === request) {
+      this.inFlight.delete(key);
+    }
+  }
+}
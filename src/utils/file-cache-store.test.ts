@@ -0,0 +1,151 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync, existsSync, readdirSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileCacheStore } from "./file-cache-store";
+import { SimpleCache } from "./cache";
+
+const entry = (value: string, ttlMs = 60000) => ({
+  value,
+  expiresAt: Date.now() + ttlMs,
+  createdAt: Date.now(),
+  bytes: 0
+});
+
+describe("FileCacheStore", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "hn-cache-"));
+    file = join(dir, "items.jsonl");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should persist entries across instances", async () => {
+    const store = new FileCacheStore<string>(file);
+    store.set("item:1", entry("one"));
+    store.set("item:2", entry("two"));
+    store.delete("item:2");
+    await store.close();
+
+    const reopened = new FileCacheStore<string>(file);
+    expect(reopened.get("item:1")?.value).toBe("one");
+    expect(reopened.get("item:2")).toBeUndefined();
+    await reopened.close();
+  });
+
+  it("should keep absolute expiry times and drop expired entries on load", async () => {
+    const store = new FileCacheStore<string>(file);
+    const kept = entry("fresh");
+    store.set("fresh", kept);
+    store.set("stale", entry("stale", -1000));
+    await store.close();
+
+    const reopened = new FileCacheStore<string>(file);
+    expect(reopened.get("fresh")?.expiresAt).toBe(kept.expiresAt);
+    expect(reopened.get("stale")).toBeUndefined();
+    await reopened.close();
+  });
+
+  it("should keep expired entries still inside the stale window on load", async () => {
+    const store = new FileCacheStore<string>(file, { staleSeconds: 60 });
+    store.set("stale", entry("stale", -1000));
+    store.set("gone", entry("gone", -120000));
+    await store.close();
+
+    const reopened = new FileCacheStore<string>(file, { staleSeconds: 60 });
+    expect(reopened.get("stale")?.value).toBe("stale");
+    expect(reopened.get("gone")).toBeUndefined();
+    await reopened.close();
+  });
+
+  it("should persist clear operations", async () => {
+    const store = new FileCacheStore<string>(file);
+    store.set("item:1", entry("one"));
+    store.clear();
+    store.set("item:2", entry("two"));
+    await store.close();
+
+    const reopened = new FileCacheStore<string>(file);
+    expect(Array.from(reopened.keys())).toEqual(["item:2"]);
+    await reopened.close();
+  });
+
+  it("should skip corrupt lines and rewrite the file", async () => {
+    writeFileSync(file, [
+      JSON.stringify({ k: "item:1", v: "one", e: Date.now() + 60000, c: Date.now(), b: 0 }),
+      "{not json",
+      JSON.stringify({ unexpected: true }),
+      JSON.stringify({ k: "item:2", v: "two", e: Date.now() + 60000, c: Date.now(), b: 0 }).slice(0, 20)
+    ].join("\n"));
+
+    const store = new FileCacheStore<string>(file);
+    expect(store.size).toBe(1);
+    expect(store.get("item:1")?.value).toBe("one");
+    await store.close();
+
+    const lines = readFileSync(file, "utf8").trim().split("\n");
+    expect(lines).toHaveLength(1);
+    expect(existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  it("should move an unreadable file aside and start empty", async () => {
+    // A directory where the file should be cannot be read as a cache log
+    const blocked = join(dir, "blocked.jsonl");
+    mkdirSync(blocked);
+
+    const store = new FileCacheStore<string>(blocked);
+    expect(store.size).toBe(0);
+    expect(readdirSync(dir).some(name => name.startsWith("blocked.jsonl.corrupt-"))).toBe(true);
+    await store.close();
+  });
+
+  it("should share a file between writers without losing entries on compaction", async () => {
+    const first = new FileCacheStore<string>(file, { compactThreshold: 1 });
+    const second = new FileCacheStore<string>(file, { compactThreshold: 1 });
+
+    first.set("item:1", entry("from-first"));
+    await first.flush();
+    second.set("item:2", entry("from-second"));
+    second.set("item:2", entry("from-second-updated"));
+    await second.flush();
+    first.set("item:3", entry("also-first"));
+    await first.close();
+    await second.close();
+
+    const reopened = new FileCacheStore<string>(file);
+    expect(reopened.get("item:1")?.value).toBe("from-first");
+    expect(reopened.get("item:2")?.value).toBe("from-second-updated");
+    expect(reopened.get("item:3")?.value).toBe("also-first");
+    await reopened.close();
+  });
+
+  it("should hold appends while another process holds the lock", async () => {
+    const store = new FileCacheStore<string>(file);
+    writeFileSync(`${file}.lock`, "");
+
+    store.set("item:1", entry("one"));
+    const flushed = store.flush();
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(existsSync(file)).toBe(false);
+
+    rmSync(`${file}.lock`);
+    await flushed;
+    expect(readFileSync(file, "utf8")).toContain("item:1");
+    await store.close();
+  });
+
+  it("should back a SimpleCache across restarts", async () => {
+    const cache = new SimpleCache<string>(60, 10, { maxBytes: 1000, store: new FileCacheStore<string>(file) });
+    cache.set("item:1", "value-one");
+    await cache.close();
+
+    const restored = new SimpleCache<string>(60, 10, { maxBytes: 1000, store: new FileCacheStore<string>(file) });
+    expect(restored.get("item:1")).toBe("value-one");
+    expect(restored.getStats().bytes).toBe(11);
+    await restored.close();
+  });
+});
@@ -0,0 +1,243 @@
+import { mkdirSync, readFileSync, renameSync } from "node:fs";
+import { appendFile, open, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { MemoryCacheStore, StoredEntry } from "./cache-store.js";
+import { logger } from "./logger.js";
+
+const log = logger.child({ module: "cache" });
+
+export interface FileCacheStoreOptions {
+  // How often buffered writes are appended to disk
+  flushIntervalMs?: number;
+  // Minimum log length (in lines) before the file is rewritten
+  compactThreshold?: number;
+  // The cache's stale window: entries are kept this long past their expiry
+  staleSeconds?: number;
+}
+
+type LogRecord<T> =
+  | { k: string; v: T; e: number; c: number; b: number }
+  | { k: string; d: true }
+  | { clear: true };
+
+const STALE_LOCK_MS = 30000;
+const LOCK_RETRY_MS = 20;
+
+// Replays a JSON-lines log into its final state, dropping entries past
+// their stale window. Unparseable lines (for example a half-written line
+// from a crashed process) are skipped and counted.
+function replayLog<T>(
+  content: string,
+  now: number,
+  staleMs: number
+): { entries: Map<string, StoredEntry<T>>; lines: number; corrupt: number } {
+  const entries = new Map<string, StoredEntry<T>>();
+  let lines = 0;
+  let corrupt = 0;
+
+  for (const line of content.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    lines++;
+
+    let record: LogRecord<T>;
+    try {
+      record = JSON.parse(line) as LogRecord<T>;
+    } catch {
+      corrupt++;
+      continue;
+    }
+
+    if ("clear" in record) {
+      entries.clear();
+    } else if ("d" in record && typeof record.k === "string") {
+      entries.delete(record.k);
+    } else if ("v" in record && typeof record.k === "string" && typeof record.e === "number") {
+      entries.delete(record.k);
+      entries.set(record.k, {
+        value: record.v,
+        expiresAt: record.e,
+        createdAt: typeof record.c === "number" ? record.c : now,
+        bytes: typeof record.b === "number" ? record.b : 0,
+      });
+    } else {
+      corrupt++;
+    }
+  }
+
+  for (const [key, entry] of entries) {
+    if (now > entry.expiresAt + staleMs) {
+      entries.delete(key);
+    }
+  }
+
+  return { entries, lines, corrupt };
+}
+
+function serialize<T>(key: string, entry: StoredEntry<T>): string {
+  const record: LogRecord<T> = { k: key, v: entry.value, e: entry.expiresAt, c: entry.createdAt, b: entry.bytes };
+  return `${JSON.stringify(record)}\n`;
+}
+
+// Append-only JSON-lines store. Entries keep their absolute expiry, so TTLs
+// survive restarts. Several processes may share a file: appends and
+// compaction both hold a lock file, so no line lands between compaction's
+// re-read of the file and its rewrite.
+export class FileCacheStore<T> extends MemoryCacheStore<T> {
+  private readonly filePath: string;
+  private readonly compactThreshold: number;
+  private readonly staleMs: number;
+  private readonly timer: NodeJS.Timeout;
+  private pending: string[] = [];
+  private logLines = 0;
+  private needsRewrite = false;
+  private writeChain: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(filePath: string, options: FileCacheStoreOptions = {}) {
+    super();
+    this.filePath = filePath;
+    this.compactThreshold = options.compactThreshold ?? 1000;
+    this.staleMs = Math.max(0, options.staleSeconds ?? 0) * 1000;
+
+    mkdirSync(dirname(filePath), { recursive: true });
+    this.load();
+
+    this.timer = setInterval(() => {
+      void this.flush();
+    }, options.flushIntervalMs ?? 1000);
+    this.timer.unref();
+  }
+
+  set(key: string, entry: StoredEntry<T>): void {
+    super.set(key, entry);
+    this.pending.push(serialize(key, entry));
+  }
+
+  delete(key: string): boolean {
+    const existed = super.delete(key);
+    if (existed) {
+      this.pending.push(`${JSON.stringify({ k: key, d: true })}\n`);
+    }
+    return existed;
+  }
+
+  clear(): void {
+    super.clear();
+    this.pending.push(`${JSON.stringify({ clear: true })}\n`);
+  }
+
+  flush(): Promise<void> {
+    const lines = this.pending;
+    this.pending = [];
+
+    this.writeChain = this.writeChain
+      .then(async () => {
+        if (lines.length > 0) {
+          await this.withLock(() => appendFile(this.filePath, lines.join(""), "utf8"), true);
+          this.logLines += lines.length;
+        }
+
+        if (this.needsRewrite || this.logLines > Math.max(this.compactThreshold, this.size * 2)) {
+          await this.compact();
+        }
+      })
+      .catch(error => {
+        log.error(`Failed to write cache file ${this.filePath}:`, error);
+      });
+
+    return this.writeChain;
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    clearInterval(this.timer);
+    await this.flush();
+  }
+
+  private load(): void {
+    let content: string;
+    try {
+      content = readFileSync(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+
+      // Unreadable file: move it aside and start empty rather than failing startup
+      const quarantined = `${this.filePath}.corrupt-${Date.now()}`;
+      log.warn(`Cannot read cache file ${this.filePath}, moving it to ${quarantined}:`, error);
+      try {
+        renameSync(this.filePath, quarantined);
+      } catch {
+        // Leave it; the next write will surface the problem
+      }
+      return;
+    }
+
+    const { entries, lines, corrupt } = replayLog<T>(content, Date.now(), this.staleMs);
+    for (const [key, entry] of entries) {
+      super.set(key, entry);
+    }
+    this.logLines = lines;
+
+    if (corrupt > 0) {
+      log.warn(`Skipped ${corrupt} corrupt line(s) in cache file ${this.filePath}`);
+      this.needsRewrite = true;
+    }
+
+    log.debug(`Loaded ${entries.size} cache entries from ${this.filePath}`);
+  }
+
+  // Runs fn holding the lock file. Without wait, gives up (returning false)
+  // when another process holds it; with wait, retries until it is free.
+  // Either way a lock abandoned by a crashed process is cleared.
+  private async withLock(fn: () => Promise<void>, wait: boolean): Promise<boolean> {
+    const lockPath = `${this.filePath}.lock`;
+    let lock;
+    for (;;) {
+      try {
+        lock = await open(lockPath, "wx");
+        break;
+      } catch {
+        const lockStat = await stat(lockPath).catch(() => undefined);
+        if (lockStat && Date.now() - lockStat.mtimeMs > STALE_LOCK_MS) {
+          await unlink(lockPath).catch(() => undefined);
+        } else if (!wait) {
+          return false;
+        } else {
+          await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+        }
+      }
+    }
+
+    try {
+      await fn();
+      return true;
+    } finally {
+      await lock.close();
+      await unlink(lockPath).catch(() => undefined);
+    }
+  }
+
+  // Skipped while another process holds the lock; a later flush retries
+  private async compact(): Promise<void> {
+    await this.withLock(async () => {
+      // Re-read so entries appended by other processes survive the rewrite
+      const content = await readFile(this.filePath, "utf8").catch(() => "");
+      const { entries } = replayLog<T>(content, Date.now(), this.staleMs);
+      const snapshot = Array.from(entries, ([key, entry]) => serialize(key, entry)).join("");
+
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, snapshot, "utf8");
+      await rename(tempPath, this.filePath);
+
+      this.logLines = entries.size;
+      this.needsRewrite = false;
+    }, false);
+  }
+}
@@ -0,0 +1,157 @@
+import { closeSync, mkdirSync, openSync, renameSync, statSync, writeSync } from "node:fs";
+import { dirname } from "node:path";
+import type { LogLevel, LogRecord } from "./logger.js";
+
+// Where formatted log lines go. Writes are synchronous so a crash or
+// process.exit() doesn't drop the last lines.
+export interface LogSink {
+  write(level: LogLevel, line: string, record: LogRecord): void;
+  // Overrides the logger's level for this sink when present
+  accepts?(level: LogLevel): boolean;
+  close?(): Promise<void>;
+}
+
+// stdout belongs to the stdio transport's JSON-RPC stream, so the default sink is stderr
+export class StderrSink implements LogSink {
+  write(_level: LogLevel, line: string): void {
+    process.stderr.write(`${line}\n`);
+  }
+}
+
+export class FileSink implements LogSink {
+  protected readonly filePath: string;
+  protected fd: number;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    mkdirSync(dirname(filePath), { recursive: true });
+    this.fd = openSync(filePath, "a");
+  }
+
+  write(_level: LogLevel, line: string): void {
+    writeSync(this.fd, `${line}\n`);
+  }
+
+  close(): Promise<void> {
+    closeSync(this.fd);
+    return Promise.resolve();
+  }
+}
+
+export interface RotatingFileSinkOptions {
+  // Size at which the current file is rotated
+  maxBytes: number;
+  // Rotated files kept next to the current one (app.log.1 is the newest)
+  maxFiles: number;
+}
+
+export class RotatingFileSink extends FileSink {
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private size: number;
+
+  constructor(filePath: string, options: RotatingFileSinkOptions) {
+    super(filePath);
+    this.maxBytes = Math.max(1, options.maxBytes);
+    this.maxFiles = Math.max(1, options.maxFiles);
+    this.size = statSync(filePath).size;
+  }
+
+  write(level: LogLevel, line: string): void {
+    const bytes = Buffer.byteLength(line, "utf8") + 1;
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+    }
+    super.write(level, line);
+    this.size += bytes;
+  }
+
+  private rotate(): void {
+    closeSync(this.fd);
+
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      renameIfExists(`${this.filePath}.${index}`, `${this.filePath}.${index + 1}`);
+    }
+    renameIfExists(this.filePath, `${this.filePath}.1`);
+
+    this.fd = openSync(this.filePath, "a");
+    this.size = 0;
+  }
+}
+
+function renameIfExists(from: string, to: string): void {
+  try {
+    renameSync(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  }
+}
+
+// Syslog severities used by MCP logging/setLevel, least severe first
+export const MCP_LOG_LEVELS = ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"] as const;
+
+export type McpLogLevel = (typeof MCP_LOG_LEVELS)[number];
+
+// The subset of the MCP Server used to send notifications/message
+export interface LoggingMessageSender {
+  sendLoggingMessage(params: { level: McpLogLevel; logger?: string; data: unknown }): Promise<void>;
+}
+
+const TO_MCP_LEVEL: Record<LogLevel, McpLogLevel> = {
+  debug: "debug",
+  info: "info",
+  warn: "warning",
+  error: "error",
+};
+
+// Sends log records to one MCP client as notifications/message. Each client
+// picks its own minimum level with logging/setLevel. Over HTTP every session
+// has a sink on the shared logger and passes sessionId: the sink then only
+// forwards records logged while handling that session's requests, never
+// server-wide ones (which name other sessions). Without it (stdio has one
+// client) every record is forwarded.
+export class McpSink implements LogSink {
+  private level: McpLogLevel;
+
+  constructor(
+    private readonly server: LoggingMessageSender,
+    private readonly name: string,
+    level: McpLogLevel = "warning",
+    private readonly sessionId?: () => string | undefined
+  ) {
+    this.level = level;
+  }
+
+  setLevel(level: McpLogLevel): void {
+    this.level = level;
+  }
+
+  getLevel(): McpLogLevel {
+    return this.level;
+  }
+
+  accepts(level: LogLevel): boolean {
+    return MCP_LOG_LEVELS.indexOf(TO_MCP_LEVEL[level]) >= MCP_LOG_LEVELS.indexOf(this.level);
+  }
+
+  write(level: LogLevel, _line: string, record: LogRecord): void {
+    if (this.sessionId) {
+      const own = this.sessionId();
+      if (own === undefined || record.fields.session_id !== own) {
+        return;
+      }
+    }
+
+    const data = {
+      message: record.message,
+      ...(record.module !== undefined ? { module: record.module } : {}),
+      ...record.fields,
+      ...(record.args.length > 0 ? { args: record.args } : {}),
+    };
+
+    // Sending fails until a client is connected; those lines still reach the other sinks
+    this.server.sendLoggingMessage({ level: TO_MCP_LEVEL[level], logger: this.name, data }).catch(() => undefined);
+  }
+}
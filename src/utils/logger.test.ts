@@ -1,57 +1,73 @@
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { logger } from "./logger";
+import { FileSink, McpSink, RotatingFileSink, StderrSink } from "./log-sinks";
+import { runWithRequestContext } from "./request-context";
 
-// Mock console methods
-const mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
-const mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
-const mockConsoleWarn = jest.spyOn(console, 'warn').mockImplementation();
+// Capture the default stderr sink; stdout must stay untouched
+const mockStderr = jest.spyOn(process.stderr, "write").mockImplementation(() => true);
+const mockStdout = jest.spyOn(process.stdout, "write");
+const mockConsoleLog = jest.spyOn(console, "log");
 
 describe("Logger", () => {
   beforeEach(() => {
+    mockStderr.mockClear();
+    mockStdout.mockClear();
     mockConsoleLog.mockClear();
-    mockConsoleError.mockClear();
-    mockConsoleWarn.mockClear();
   });
 
   afterAll(() => {
+    mockStderr.mockRestore();
+    mockStdout.mockRestore();
     mockConsoleLog.mockRestore();
-    mockConsoleError.mockRestore();
-    mockConsoleWarn.mockRestore();
   });
 
   describe("logging levels", () => {
     it("should log info messages", () => {
       logger.info("Test info message");
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: Test info message$/)
+      expect(mockStderr).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: Test info message\n$/)
       );
     });
 
     it("should log error messages", () => {
       logger.error("Test error message");
-      expect(mockConsoleError).toHaveBeenCalledWith(
-        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] ERROR: Test error message$/)
+      expect(mockStderr).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] ERROR: Test error message\n$/)
       );
     });
 
     it("should log warning messages", () => {
       logger.warn("Test warning message");
-      expect(mockConsoleWarn).toHaveBeenCalledWith(
-        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] WARN: Test warning message$/)
+      expect(mockStderr).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] WARN: Test warning message\n$/)
       );
     });
 
     it("should log debug messages when level allows", () => {
       // Debug messages are filtered out by default (level is 'info')
       logger.debug("Test debug message");
+      expect(mockStderr).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("stdio safety", () => {
+    it("should never write to stdout", () => {
+      logger.info("Info message");
+      logger.error("Error message");
+
+      expect(mockStdout).not.toHaveBeenCalled();
       expect(mockConsoleLog).not.toHaveBeenCalled();
+      expect(mockStderr).toHaveBeenCalledTimes(2);
     });
   });
 
   describe("message formatting", () => {
     it("should include timestamp in log messages", () => {
       logger.info("Test message");
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: Test message$/)
+      expect(mockStderr).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: Test message\n$/)
       );
     });
 
@@ -61,16 +77,16 @@ describe("Logger", () => {
       
       logger.info("Test message with args", testObj, testArray);
       
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: Test message with args \{"key":"value"\} \[1,2,3\]$/)
+      expect(mockStderr).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: Test message with args \{"key":"value"\} \[1,2,3\]\n$/)
       );
     });
 
     it("should handle undefined and null arguments", () => {
       logger.info("Test message", undefined, null);
       
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: Test message undefined null$/)
+      expect(mockStderr).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: Test message undefined null\n$/)
       );
     });
 
@@ -80,8 +96,8 @@ describe("Logger", () => {
       
       logger.info("Test circular", circular);
       
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: Test circular \[Circular\]$/)
+      expect(mockStderr).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: Test circular \{"name":"test","self":"\[Circular\]"\}\n$/)
       );
     });
 
@@ -91,24 +107,193 @@ describe("Logger", () => {
       
       logger.error("Error occurred", error);
       
-      expect(mockConsoleError).toHaveBeenCalledWith(
+      expect(mockStderr).toHaveBeenCalledWith(
         expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] ERROR: Error occurred/)
       );
     });
   });
 
   describe("log level filtering", () => {
-    // Note: Since the logger is a singleton with a fixed level,
-    // we can only test the current behavior. In a real implementation,
-    // you might want to make the log level configurable for testing.
-    
     it("should respect the current log level", () => {
       // Assuming the logger is set to 'info' level by default
       logger.debug("Debug message that might be filtered");
       logger.info("Info message that should appear");
       
       // The behavior depends on the actual log level configuration
-      expect(mockConsoleLog).toHaveBeenCalled();
+      expect(mockStderr).toHaveBeenCalled();
+    });
+
+    it("should change the level at runtime", () => {
+      const previous = logger.getLevel();
+      try {
+        logger.setLevel("warn");
+        logger.info("Filtered info message");
+        logger.warn("Visible warning");
+
+        expect(mockStderr).toHaveBeenCalledTimes(1);
+        expect(mockStderr).toHaveBeenCalledWith(expect.stringContaining("WARN: Visible warning"));
+      } finally {
+        logger.setLevel(previous);
+      }
+    });
+  });
+
+  describe("structured logging", () => {
+    afterEach(() => {
+      logger.setFormat("text");
+    });
+
+    it("should tag lines from child loggers with their module", () => {
+      logger.child({ module: "api" }).info("Fetched item");
+
+      expect(mockStderr).toHaveBeenCalledWith(expect.stringMatching(/\] INFO \[api\]: Fetched item\n$/));
+    });
+
+    it("should emit JSON lines with module, fields and arguments", () => {
+      logger.setFormat("json");
+      const error = new Error("boom");
+
+      logger.child({ module: "api", endpoint: "topstories" }).error("Failed", error);
+
+      const record = JSON.parse(String(mockStderr.mock.calls[0][0]));
+      expect(record).toMatchObject({
+        level: "error",
+        module: "api",
+        message: "Failed",
+        endpoint: "topstories",
+        args: [{ name: "Error", message: "boom" }]
+      });
+      expect(new Date(record.timestamp).toISOString()).toBe(record.timestamp);
+    });
+
+    it("should add the correlation ID of the current request", async () => {
+      logger.setFormat("json");
+      const apiLogger = logger.child({ module: "api" });
+
+      await runWithRequestContext({ requestId: "req-1", kind: "tool", name: "get_post" }, async () => {
+        await Promise.resolve();
+        apiLogger.info("Inside request");
+      });
+      apiLogger.info("Outside request");
+
+      const [inside, outside] = mockStderr.mock.calls.map(call => JSON.parse(String(call[0])));
+      expect(inside).toMatchObject({ request_id: "req-1", tool: "get_post", module: "api" });
+      expect(outside.request_id).toBeUndefined();
+    });
+
+    it("should share level changes with child loggers", () => {
+      const child = logger.child({ module: "cache" });
+      const previous = logger.getLevel();
+      try {
+        logger.setLevel("error");
+        child.warn("Filtered");
+        expect(mockStderr).not.toHaveBeenCalled();
+      } finally {
+        logger.setLevel(previous);
+      }
+    });
+  });
+
+  describe("redaction", () => {
+    it("should mask sensitive keys in arguments and fields", () => {
+      logger.child({ module: "auth", apiKey: "abc123" }).warn("Rejected request", {
+        user: "alice",
+        headers: { Authorization: "Bearer xyz", "x-request-id": "r1" },
+        nested: [{ password: "hunter2" }]
+      });
+
+      const line = String(mockStderr.mock.calls[0][0]);
+      expect(line).not.toMatch(/abc123|xyz|hunter2/);
+      expect(line).toContain('"Authorization":"[REDACTED]"');
+      expect(line).toContain('"x-request-id":"r1"');
+      expect(line).toContain("apiKey=[REDACTED]");
+    });
+  });
+
+  describe("sinks", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "hn-logger-"));
+    });
+
+    afterEach(() => {
+      logger.setSinks([]);
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    afterAll(() => {
+      logger.setSinks([new StderrSink()]);
+    });
+
+    it("should append lines to a file", async () => {
+      const filePath = join(dir, "nested", "app.log");
+      const sink = new FileSink(filePath);
+      logger.setSinks([sink]);
+
+      logger.info("First");
+      logger.warn("Second");
+      await sink.close();
+
+      const lines = readFileSync(filePath, "utf8").trim().split("\n");
+      expect(lines).toHaveLength(2);
+      expect(lines[1]).toContain("WARN: Second");
+      expect(mockStderr).not.toHaveBeenCalled();
+    });
+
+    it("should rotate files past the size limit", async () => {
+      const filePath = join(dir, "app.log");
+      const sink = new RotatingFileSink(filePath, { maxBytes: 200, maxFiles: 2 });
+      logger.setSinks([sink]);
+
+      for (let i = 0; i < 20; i++) {
+        logger.info(`Rotating message ${i}`);
+      }
+      await sink.close();
+
+      expect(readdirSync(dir).sort()).toEqual(["app.log", "app.log.1", "app.log.2"]);
+      expect(readFileSync(filePath, "utf8")).toContain("Rotating message 19");
+      expect(readFileSync(`${filePath}.1`, "utf8").length).toBeLessThanOrEqual(200);
+    });
+
+    it("should forward lines as MCP log notifications", () => {
+      const server = { sendLoggingMessage: jest.fn().mockResolvedValue(undefined) };
+      logger.setSinks([new McpSink(server, "hackernews-mcp")]);
+
+      logger.warn("Upstream slow");
+
+      expect(server.sendLoggingMessage).toHaveBeenCalledWith({
+        level: "warning",
+        logger: "hackernews-mcp",
+        data: { message: "Upstream slow" }
+      });
+    });
+
+    it("should apply each MCP client's level independently of the logger level", () => {
+      const verbose = { sendLoggingMessage: jest.fn().mockResolvedValue(undefined) };
+      const quiet = { sendLoggingMessage: jest.fn().mockResolvedValue(undefined) };
+      const verboseSink = new McpSink(verbose, "hackernews-mcp");
+      verboseSink.setLevel("debug");
+      logger.setSinks([verboseSink, new McpSink(quiet, "hackernews-mcp", "error")]);
+
+      logger.child({ module: "api" }).debug("Cache hit for item:1");
+      logger.warn("Retrying");
+
+      expect(verbose.sendLoggingMessage).toHaveBeenCalledTimes(2);
+      expect(verbose.sendLoggingMessage).toHaveBeenCalledWith(expect.objectContaining({
+        level: "debug",
+        data: { message: "Cache hit for item:1", module: "api" }
+      }));
+      expect(quiet.sendLoggingMessage).not.toHaveBeenCalled();
+    });
+
+    it("should keep logging when a sink throws", () => {
+      const broken = { write: jest.fn(() => { throw new Error("disk full"); }) };
+      const working = { write: jest.fn() };
+      logger.setSinks([broken, working]);
+
+      expect(() => logger.error("Still reported")).not.toThrow();
+      expect(working.write).toHaveBeenCalledWith("error", expect.stringContaining("Still reported"), expect.objectContaining({ message: "Still reported" }));
     });
   });
 
@@ -125,7 +310,7 @@ describe("Logger", () => {
       
       // Should complete in reasonable time (less than 100ms)
       expect(duration).toBeLessThan(100);
-      expect(mockConsoleLog).toHaveBeenCalledTimes(1000);
+      expect(mockStderr).toHaveBeenCalledTimes(1000);
     });
 
     it("should handle large messages efficiently", () => {
@@ -139,8 +324,8 @@ describe("Logger", () => {
       
       // Should handle large messages quickly
       expect(duration).toBeLessThan(50);
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        expect.stringMatching(new RegExp(`^\\[\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}\\.\\d{3}Z\\] INFO: ${largeMessage}$`))
+      expect(mockStderr).toHaveBeenCalledWith(
+        expect.stringMatching(new RegExp(`^\\[\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}\\.\\d{3}Z\\] INFO: ${largeMessage}\\n$`))
       );
     });
   });
@@ -148,8 +333,8 @@ describe("Logger", () => {
   describe("edge cases", () => {
     it("should handle empty messages", () => {
       logger.info("");
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: $/)
+      expect(mockStderr).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: \n$/)
       );
     });
 
@@ -157,8 +342,8 @@ describe("Logger", () => {
       const longMessage = "a".repeat(5000);
       logger.info(longMessage);
       
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        expect.stringMatching(new RegExp(`^\\[\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}\\.\\d{3}Z\\] INFO: ${longMessage}$`))
+      expect(mockStderr).toHaveBeenCalledWith(
+        expect.stringMatching(new RegExp(`^\\[\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}\\.\\d{3}Z\\] INFO: ${longMessage}\\n$`))
       );
     });
 
@@ -166,8 +351,8 @@ describe("Logger", () => {
       const specialMessage = "Message with 🚀 emojis and special chars: àáâãäå";
       logger.info(specialMessage);
       
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: Message with 🚀 emojis and special chars: àáâãäå$/)
+      expect(mockStderr).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: Message with 🚀 emojis and special chars: àáâãäå\n$/)
       );
     });
 
@@ -175,7 +360,7 @@ describe("Logger", () => {
       const multilineMessage = "Line 1\nLine 2\tTabbed";
       logger.info(multilineMessage);
       
-      expect(mockConsoleLog).toHaveBeenCalledWith(
+      expect(mockStderr).toHaveBeenCalledWith(
         expect.stringContaining("Line 1\nLine 2\tTabbed")
       );
     });
@@ -184,8 +369,8 @@ describe("Logger", () => {
       const testFunction = () => "test function";
       logger.info("Function test", testFunction);
       
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: Function test .* => "test function"$/)
+      expect(mockStderr).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: Function test .* => "test function"\n$/)
       );
     });
 
@@ -193,8 +378,8 @@ describe("Logger", () => {
       const testSymbol = Symbol("test");
       logger.info("Symbol test", testSymbol);
       
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: Symbol test Symbol\(test\)$/)
+      expect(mockStderr).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\] INFO: Symbol test Symbol\(test\)\n$/)
       );
     });
   });
@@ -216,7 +401,7 @@ describe("Logger", () => {
       
       await Promise.all(promises);
       
-      expect(mockConsoleLog).toHaveBeenCalledTimes(100);
+      expect(mockStderr).toHaveBeenCalledTimes(100);
     });
   });
 
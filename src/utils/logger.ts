@@ -1,4 +1,24 @@
-type LogLevel = "debug" | "info" | "warn" | "error";
+import { types } from "node:util";
+import { LogSink, StderrSink } from "./log-sinks.js";
+import { getRequestContext } from "./request-context.js";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+// "text" is the human-readable line format; "json" emits one JSON object per line
+export type LogFormat = "text" | "json";
+
+export type LogFields = Record<string, unknown>;
+
+// What sinks receive next to the formatted line. Sensitive values are already redacted.
+export interface LogRecord {
+  timestamp: string;
+  level: LogLevel;
+  module?: string;
+  message: string;
+  // Bound fields and the correlation ID of the current request
+  fields: LogFields;
+  args: unknown[];
+}
 
 interface Logger {
   debug(message: string, ...args: unknown[]): void;
@@ -7,62 +27,190 @@ interface Logger {
   error(message: string, ...args: unknown[]): void;
 }
 
+// Shared by a logger and all of its children
+interface LoggerState {
+  level: LogLevel;
+  format: LogFormat;
+  sinks: LogSink[];
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+const SENSITIVE_KEY = /pass(word)?|secret|token|api[-_]?key|authorization|cookie|credential|private[-_]?key/i;
+
+// Copies a value for logging: values under sensitive keys are masked, errors
+// become plain objects and cycles are cut. Functions and symbols pass through
+// so each format can render them.
+function redact(value: unknown, ancestors: object[] = []): unknown {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (ancestors.includes(value)) {
+    return "[Circular]";
+  }
+
+  const path = [...ancestors, value];
+  // isNativeError also recognizes errors created in another realm (vm contexts)
+  if (value instanceof Error || types.isNativeError(value)) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, path));
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  const copy: LogFields = {};
+  for (const [key, nested] of Object.entries(value)) {
+    copy[key] = SENSITIVE_KEY.test(key) ? "[REDACTED]" : redact(nested, path);
+  }
+  return copy;
+}
+
+function stringifyJson(record: LogFields): string {
+  return JSON.stringify(record, (_key, value: unknown) =>
+    typeof value === "function" || typeof value === "symbol" || typeof value === "bigint" ? String(value) : value
+  );
+}
+
 class SimpleLogger implements Logger {
-  private level: LogLevel;
+  private readonly state: LoggerState;
+  private readonly fields: LogFields;
+
+  constructor(state: LoggerState, fields: LogFields = {}) {
+    this.state = state;
+    this.fields = fields;
+  }
+
+  // A logger that adds fields (e.g. { module: "api" }) to every line and
+  // shares this logger's level, format and sinks
+  child(fields: LogFields): SimpleLogger {
+    return new SimpleLogger(this.state, { ...this.fields, ...fields });
+  }
+
+  setLevel(level: LogLevel): void {
+    this.state.level = level;
+  }
+
+  getLevel(): LogLevel {
+    return this.state.level;
+  }
 
-  constructor(level: LogLevel = "info") {
-    this.level = level;
+  setFormat(format: LogFormat): void {
+    this.state.format = format;
+  }
+
+  // Replaces every sink; the previous ones are not closed
+  setSinks(sinks: LogSink[]): void {
+    this.state.sinks = [...sinks];
+  }
+
+  addSink(sink: LogSink): void {
+    this.state.sinks.push(sink);
+  }
+
+  removeSink(sink: LogSink): void {
+    this.state.sinks = this.state.sinks.filter(existing => existing !== sink);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.state.sinks.map(sink => sink.close?.()));
   }
 
   private shouldLog(level: LogLevel): boolean {
-    const levels: Record<LogLevel, number> = {
-      debug: 0,
-      info: 1,
-      warn: 2,
-      error: 3,
+    return LEVELS[level] >= LEVELS[this.state.level];
+  }
+
+  // Bound fields plus the correlation ID (and HTTP session) of the MCP request being handled
+  private currentFields(): LogFields {
+    const context = getRequestContext();
+    if (!context) {
+      return this.fields;
+    }
+    return {
+      ...this.fields,
+      request_id: context.requestId,
+      ...(context.sessionId !== undefined ? { session_id: context.sessionId } : {}),
+      [context.kind]: context.name,
+    };
+  }
+
+  private createRecord(level: LogLevel, message: string, args: unknown[]): LogRecord {
+    const { module, ...fields } = this.currentFields();
+    return {
+      timestamp: new Date().toISOString(),
+      level,
+      module: module !== undefined ? String(module) : undefined,
+      message,
+      fields: redact(fields) as LogFields,
+      args: args.map(arg => redact(arg)),
     };
-    return levels[level] >= levels[this.level];
-  }
-
-  private formatMessage(level: LogLevel, message: string, ...args: unknown[]): string {
-    const timestamp = new Date().toISOString();
-    const formattedArgs = args.length > 0 ? ` ${args.map(arg => {
-      if (typeof arg === "object" && arg !== null) {
-        try {
-          return JSON.stringify(arg);
-        } catch (error) {
-          // Handle circular references
-          return "[Circular]";
-        }
+  }
+
+  private formatMessage(record: LogRecord): string {
+    const { timestamp, level, module, message, fields, args } = record;
+
+    if (this.state.format === "json") {
+      return stringifyJson({
+        timestamp,
+        level,
+        ...(module !== undefined ? { module } : {}),
+        message,
+        ...fields,
+        ...(args.length > 0 ? { args } : {}),
+      });
+    }
+
+    const formattedArgs = args.length > 0 ? ` ${args.map(arg =>
+      typeof arg === "object" && arg !== null ? JSON.stringify(arg) : String(arg)
+    ).join(" ")}` : "";
+    const prefix = module !== undefined ? ` [${module}]` : "";
+    const formattedFields = Object.entries(fields)
+      .map(([key, value]) => ` ${key}=${typeof value === "string" ? value : JSON.stringify(value)}`)
+      .join("");
+    return `[${timestamp}] ${level.toUpperCase()}${prefix}: ${message}${formattedArgs}${formattedFields}`;
+  }
+
+  private log(level: LogLevel, message: string, args: unknown[]): void {
+    // Sinks with their own level (such as MCP clients) may want lines the logger level filters out
+    const enabled = this.shouldLog(level);
+    const sinks = this.state.sinks.filter(sink => (sink.accepts ? sink.accepts(level) : enabled));
+    if (sinks.length === 0) {
+      return;
+    }
+
+    const record = this.createRecord(level, message, args);
+    const line = this.formatMessage(record);
+    for (const sink of sinks) {
+      try {
+        sink.write(level, line, record);
+      } catch {
+        // A broken sink must not take down the caller, and there is nowhere left to report it
       }
-      return String(arg);
-    }).join(" ")}` : "";
-    return `[${timestamp}] ${level.toUpperCase()}: ${message}${formattedArgs}`;
+    }
   }
 
   debug(message: string, ...args: unknown[]): void {
-    if (this.shouldLog("debug")) {
-      console.log(this.formatMessage("debug", message, ...args));
-    }
+    this.log("debug", message, args);
   }
 
   info(message: string, ...args: unknown[]): void {
-    if (this.shouldLog("info")) {
-      console.log(this.formatMessage("info", message, ...args));
-    }
+    this.log("info", message, args);
   }
 
   warn(message: string, ...args: unknown[]): void {
-    if (this.shouldLog("warn")) {
-      console.warn(this.formatMessage("warn", message, ...args));
-    }
+    this.log("warn", message, args);
   }
 
   error(message: string, ...args: unknown[]): void {
-    if (this.shouldLog("error")) {
-      console.error(this.formatMessage("error", message, ...args));
-    }
+    this.log("error", message, args);
   }
 }
 
-export const logger = new SimpleLogger(); 
\ No newline at end of file
+export const logger = new SimpleLogger({ level: "info", format: "text", sinks: [new StderrSink()] });
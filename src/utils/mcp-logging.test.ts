@@ -0,0 +1,73 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { LoggingMessageNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { attachMcpLogging } from "./mcp-logging";
+import { logger } from "./logger";
+import { McpSink, StderrSink } from "./log-sinks";
+import { runWithRequestContext } from "./request-context";
+
+describe("attachMcpLogging", () => {
+  afterEach(() => {
+    logger.setSinks([new StderrSink()]);
+  });
+
+  it("should forward logs at the level the client asks for", async () => {
+    const server = new McpServer({ name: "test", version: "1.0.0" }, { capabilities: { logging: {} } });
+    const sink = attachMcpLogging(server, "hackernews-mcp", "error");
+    logger.setSinks([sink]);
+
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const received: unknown[] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+      received.push(notification.params);
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    logger.warn("Below the default level");
+    await client.setLoggingLevel("info");
+    logger.info("Visible", { token: "secret-value" });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(sink.getLevel()).toBe("info");
+    expect(received).toEqual([
+      {
+        level: "info",
+        logger: "hackernews-mcp",
+        data: { message: "Visible", args: [{ token: "[REDACTED]" }] }
+      }
+    ]);
+
+    await client.close();
+    await server.close();
+  });
+
+  it("should only forward records of its own session when scoped to one", () => {
+    const sent: unknown[] = [];
+    const sender = {
+      sendLoggingMessage: (params: { data: unknown }) => {
+        sent.push(params.data);
+        return Promise.resolve();
+      }
+    };
+    logger.setSinks([new McpSink(sender, "hackernews-mcp", "info", () => "session-a")]);
+
+    const request = (sessionId: string) => ({ requestId: `req-${sessionId}`, kind: "tool" as const, name: "get_post", sessionId });
+    runWithRequestContext(request("session-a"), () => logger.info("Own session"));
+    runWithRequestContext(request("session-b"), () => logger.info("Other session"));
+    logger.info("Session session-b opened (2 active)");
+
+    expect(sent).toEqual([expect.objectContaining({ message: "Own session", session_id: "session-a" })]);
+  });
+
+  it("should forward nothing before its session has an id", () => {
+    const sendLoggingMessage = jest.fn(() => Promise.resolve());
+    logger.setSinks([new McpSink({ sendLoggingMessage }, "hackernews-mcp", "info", () => undefined)]);
+
+    logger.info("Session session-b opened (2 active)");
+
+    expect(sendLoggingMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,23 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SetLevelRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { McpLogLevel, McpSink } from "./log-sinks.js";
+import { logger } from "./logger.js";
+
+const log = logger.child({ module: "logging" });
+
+// Creates the sink that forwards logs to this server's client and answers
+// logging/setLevel for it. The server must declare the logging capability,
+// and the caller adds the sink to the logger (and removes it when the client goes away).
+// With perSession (HTTP) the client only gets logs of its own session's requests.
+export function attachMcpLogging(server: McpServer, name: string, level: McpLogLevel, perSession = false): McpSink {
+  const sessionId = perSession ? () => server.server.transport?.sessionId : undefined;
+  const sink = new McpSink(server.server, name, level, sessionId);
+
+  server.server.setRequestHandler(SetLevelRequestSchema, request => {
+    sink.setLevel(request.params.level);
+    log.debug(`Client log level set to ${request.params.level}`);
+    return {};
+  });
+
+  return sink;
+}
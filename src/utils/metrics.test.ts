@@ -0,0 +1,80 @@
+import { MetricsRegistry } from "./metrics";
+
+describe("MetricsRegistry", () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it("should render counters and gauges in Prometheus text format", () => {
+    const requests = registry.counter("requests_total", "Requests served");
+    const depth = registry.gauge("queue_depth", "Queued work");
+
+    requests.inc({ endpoint: "item", status: "200" });
+    requests.inc({ endpoint: "item", status: "200" }, 2);
+    requests.inc({ endpoint: "user", status: "timeout" });
+    depth.set({}, 4);
+
+    expect(registry.render()).toBe([
+      "# HELP requests_total Requests served",
+      "# TYPE requests_total counter",
+      'requests_total{endpoint="item",status="200"} 3',
+      'requests_total{endpoint="user",status="timeout"} 1',
+      "# HELP queue_depth Queued work",
+      "# TYPE queue_depth gauge",
+      "queue_depth 4",
+      "",
+    ].join("\n"));
+  });
+
+  it("should treat label order as insignificant", () => {
+    const counter = registry.counter("calls_total", "Calls");
+
+    counter.inc({ a: "1", b: "2" });
+    counter.inc({ b: "2", a: "1" });
+
+    expect(counter.get({ a: "1", b: "2" })).toBe(2);
+  });
+
+  it("should render cumulative histogram buckets", () => {
+    const latency = registry.histogram("latency_seconds", "Latency", [0.1, 1]);
+
+    latency.observe({ tool: "get_post" }, 0.05);
+    latency.observe({ tool: "get_post" }, 0.5);
+    latency.observe({ tool: "get_post" }, 3);
+
+    const lines = registry.render().split("\n");
+    expect(lines).toContain('latency_seconds_bucket{tool="get_post",le="0.1"} 1');
+    expect(lines).toContain('latency_seconds_bucket{tool="get_post",le="1"} 2');
+    expect(lines).toContain('latency_seconds_bucket{tool="get_post",le="+Inf"} 3');
+    expect(lines).toContain('latency_seconds_sum{tool="get_post"} 3.55');
+    expect(lines).toContain('latency_seconds_count{tool="get_post"} 3');
+  });
+
+  it("should escape label values", () => {
+    registry.counter("odd_total", "Odd labels").inc({ path: 'a"b\\c\nd' });
+
+    expect(registry.render()).toContain('odd_total{path="a\\"b\\\\c\\nd"} 1');
+  });
+
+  it("should return the same metric for the same name", () => {
+    const first = registry.counter("shared_total", "Shared");
+    first.inc();
+
+    expect(registry.counter("shared_total", "Shared").get()).toBe(1);
+    expect(() => registry.gauge("shared_total", "Shared")).toThrow("already registered as a counter");
+  });
+
+  it("should run collectors before rendering until they are removed", () => {
+    const gauge = registry.gauge("collected", "Collected value");
+    let value = 1;
+    const remove = registry.onCollect(() => gauge.set({}, value));
+
+    expect(registry.render()).toContain("collected 1");
+
+    value = 2;
+    remove();
+    expect(registry.render()).toContain("collected 1");
+  });
+});
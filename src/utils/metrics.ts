@@ -0,0 +1,215 @@
+export type MetricLabels = Record<string, string>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+interface Series<T> {
+  labels: MetricLabels;
+  value: T;
+}
+
+// Latency buckets in seconds, from a cache-speed call up to a slow retried fetch
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) {
+    return "+Inf";
+  }
+  if (value === -Infinity) {
+    return "-Inf";
+  }
+  return String(value);
+}
+
+interface RegisteredMetric {
+  readonly name: string;
+  readonly type: MetricType;
+  render(): string[];
+  reset(): void;
+}
+
+abstract class Metric<T> implements RegisteredMetric {
+  protected readonly series = new Map<string, Series<T>>();
+
+  constructor(readonly name: string, readonly help: string, readonly type: MetricType) {}
+
+  protected entry(labels: MetricLabels, initial: () => T): Series<T> {
+    const key = seriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: { ...labels }, value: initial() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help.replace(/\n/g, " ")}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()];
+  }
+
+  protected abstract samples(): string[];
+}
+
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: MetricLabels = {}, amount = 1): void {
+    this.entry(labels, () => 0).value += amount;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.series.values(), ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: MetricLabels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  get(labels: MetricLabels = {}): number | undefined {
+    return this.series.get(seriesKey(labels))?.value;
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.series.values(), ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+interface HistogramValue {
+  // Per-bucket (not cumulative) counts; the last slot is +Inf
+  counts: Float64Array;
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramValue> {
+  private readonly buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, "histogram");
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const series = this.entry(labels, () => ({ counts: new Float64Array(this.buckets.length + 1), sum: 0, count: 0 }));
+    const index = this.buckets.findIndex(bound => value <= bound);
+    series.value.counts[index === -1 ? this.buckets.length : index]++;
+    series.value.sum += value;
+    series.value.count++;
+  }
+
+  // Starts a timer; calling the returned function records the elapsed seconds
+  startTimer(labels: MetricLabels = {}): (extraLabels?: MetricLabels) => void {
+    const start = process.hrtime.bigint();
+    return extraLabels => {
+      this.observe({ ...labels, ...extraLabels }, Number(process.hrtime.bigint() - start) / 1e9);
+    };
+  }
+
+  getCount(labels: MetricLabels = {}): number {
+    return this.series.get(seriesKey(labels))?.value.count ?? 0;
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      let cumulative = 0;
+      [...this.buckets, Infinity].forEach((bound, index) => {
+        cumulative += value.counts[index];
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+// Holds the process's metrics and renders them in the Prometheus text
+// exposition format. Asking for a name twice returns the same metric, so
+// modules can declare their metrics at load time.
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, RegisteredMetric>();
+  private readonly collectors = new Set<() => void>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(name, () => new Counter(name, help), Counter);
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(name, () => new Gauge(name, help), Gauge);
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(name, () => new Histogram(name, help, buckets), Histogram);
+  }
+
+  // Runs before every render, for gauges read from other components' stats.
+  // Returns a function that removes the collector.
+  onCollect(collector: () => void): () => void {
+    this.collectors.add(collector);
+    return () => {
+      this.collectors.delete(collector);
+    };
+  }
+
+  render(): string {
+    for (const collector of this.collectors) {
+      collector();
+    }
+    const lines = Array.from(this.metrics.values(), metric => metric.render().join("\n"));
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+  }
+
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  private register<M extends RegisteredMetric>(
+    name: string,
+    create: () => M,
+    kind: new (name: string, help: string) => M
+  ): M {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (!(existing instanceof kind)) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
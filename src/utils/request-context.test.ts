@@ -0,0 +1,34 @@
+import { getRequestContext, withRequestContext } from "./request-context";
+
+describe("withRequestContext", () => {
+  it("should run each invocation under its own correlation ID", async () => {
+    const handler = withRequestContext("tool", "search_posts", async (query: string) => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      return { query, context: getRequestContext() };
+    });
+
+    const [first, second] = await Promise.all([handler("a"), handler("b")]);
+
+    expect(first.query).toBe("a");
+    expect(first.context).toMatchObject({ kind: "tool", name: "search_posts" });
+    expect(first.context?.requestId).toEqual(expect.any(String));
+    expect(first.context?.requestId).not.toBe(second.context?.requestId);
+  });
+
+  it("should record the session of the request the SDK hands the handler", async () => {
+    const handler = withRequestContext("prompt", "analyze_story", async (_args: object, _extra: { sessionId?: string }) =>
+      getRequestContext()
+    );
+
+    await expect(handler({}, { sessionId: "session-1" })).resolves.toMatchObject({ sessionId: "session-1" });
+    await expect(handler({}, {})).resolves.toMatchObject({ sessionId: undefined });
+  });
+
+  it("should not leak the context outside the handler", async () => {
+    const handler = withRequestContext("resource", "top-stories", async () => "done");
+
+    await handler();
+
+    expect(getRequestContext()).toBeUndefined();
+  });
+});
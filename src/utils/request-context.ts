@@ -0,0 +1,43 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+
+export type RequestKind = "tool" | "resource" | "prompt";
+
+export interface RequestContext {
+  requestId: string;
+  kind: RequestKind;
+  name: string;
+  // HTTP session the request arrived on; unset over stdio
+  sessionId?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// The context of the MCP invocation currently running, if any. Work started
+// from a handler (including background cache refreshes) inherits it.
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+// MCP handlers get the SDK's request extra as their last argument
+function sessionIdOf(args: unknown[]): string | undefined {
+  const extra = args[args.length - 1];
+  if (typeof extra === "object" && extra !== null && "sessionId" in extra && typeof extra.sessionId === "string") {
+    return extra.sessionId;
+  }
+  return undefined;
+}
+
+// Wraps an MCP handler so every invocation runs under a fresh correlation ID
+export function withRequestContext<A extends unknown[], R>(
+  kind: RequestKind,
+  name: string,
+  handler: (...args: A) => R
+): (...args: A) => R {
+  return (...args: A) =>
+    runWithRequestContext({ requestId: randomUUID(), kind, name, sessionId: sessionIdOf(args) }, () => handler(...args));
+}
@@ -0,0 +1,58 @@
+import { computeBackoffDelay, parseRetryAfter, isRetryableStatus, isRetryableError, DEFAULT_RETRY_OPTIONS, RetryOptions } from "./retry";
+
+describe("retry helpers", () => {
+  const options: RetryOptions = {
+    ...DEFAULT_RETRY_OPTIONS,
+    attempts: 5,
+    baseDelayMs: 100,
+    maxDelayMs: 1000,
+    jitter: false
+  };
+
+  describe("computeBackoffDelay", () => {
+    it("should grow exponentially", () => {
+      expect(computeBackoffDelay(0, options)).toBe(100);
+      expect(computeBackoffDelay(1, options)).toBe(200);
+      expect(computeBackoffDelay(2, options)).toBe(400);
+    });
+
+    it("should cap at the maximum delay", () => {
+      expect(computeBackoffDelay(10, options)).toBe(1000);
+    });
+
+    it("should apply full jitter when enabled", () => {
+      const jittered = { ...options, jitter: true };
+      expect(computeBackoffDelay(2, jittered, () => 0.5)).toBe(200);
+      expect(computeBackoffDelay(2, jittered, () => 0)).toBe(0);
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should parse seconds", () => {
+      expect(parseRetryAfter("2")).toBe(2000);
+    });
+
+    it("should parse HTTP dates", () => {
+      const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+      expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:05 GMT", now)).toBe(5000);
+    });
+
+    it("should ignore missing or invalid values", () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter("soon")).toBeUndefined();
+    });
+  });
+
+  describe("retryability", () => {
+    it("should retry configured status codes only", () => {
+      expect(isRetryableStatus(503, options)).toBe(true);
+      expect(isRetryableStatus(404, options)).toBe(false);
+    });
+
+    it("should retry configured error kinds only", () => {
+      const timeoutsOnly = { ...options, retryableErrors: ["timeout" as const] };
+      expect(isRetryableError("timeout", timeoutsOnly)).toBe(true);
+      expect(isRetryableError("network", timeoutsOnly)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { abortError } from "./abort.js";
+
+// HTTP failures are retried by status code (see retryableStatusCodes)
+export type RetryableErrorKind = "timeout" | "network";
+
+export interface RetryOptions {
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+  retryableStatusCodes: number[];
+  retryableErrors: RetryableErrorKind[];
+}
+
+// A single attempt unless the caller opts in; config.api.retry supplies the server defaults
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  attempts: 1,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: true,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  retryableErrors: ["timeout", "network"],
+};
+
+// Exponential backoff (base * 2^attempt) capped at maxDelayMs. With jitter
+// enabled this is "full jitter": a uniform pick between 0 and the capped delay.
+export function computeBackoffDelay(attempt: number, options: RetryOptions, random: () => number = Math.random): number {
+  const exponential = options.baseDelayMs * Math.pow(2, attempt);
+  const capped = Math.min(exponential, options.maxDelayMs);
+  return options.jitter ? Math.floor(random() * capped) : capped;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+export function isRetryableStatus(statusCode: number, options: RetryOptions): boolean {
+  return options.retryableStatusCodes.includes(statusCode);
+}
+
+export function isRetryableError(kind: RetryableErrorKind, options: RetryOptions): boolean {
+  return options.retryableErrors.includes(kind);
+}
+
+// Rejects early with the abort error when the signal fires
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,89 @@
+import { RequestScheduler } from "./scheduler";
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+};
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe("RequestScheduler", () => {
+  it("should run tasks and resolve with their results", async () => {
+    const scheduler = new RequestScheduler();
+    await expect(scheduler.schedule(async () => 42)).resolves.toBe(42);
+    await expect(scheduler.schedule(async () => { throw new Error("boom"); })).rejects.toThrow("boom");
+    expect(scheduler.getStats().completed).toBe(2);
+  });
+
+  it("should limit concurrency", async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 2 });
+    const gates = [deferred(), deferred(), deferred()];
+    let running = 0;
+    let peak = 0;
+
+    const tasks = gates.map(gate => scheduler.schedule(async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await gate.promise;
+      running--;
+    }));
+
+    await flush();
+    expect(scheduler.getStats()).toMatchObject({ active: 2, queued: 1 });
+
+    gates.forEach(gate => gate.resolve());
+    await Promise.all(tasks);
+    expect(peak).toBe(2);
+  });
+
+  it("should start interactive tasks ahead of bulk tasks", async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const gate = deferred();
+    const order: string[] = [];
+
+    const blocker = scheduler.schedule(() => gate.promise);
+    const bulk = scheduler.schedule(async () => { order.push("bulk"); }, "bulk");
+    const normal = scheduler.schedule(async () => { order.push("normal"); });
+    const interactive = scheduler.schedule(async () => { order.push("interactive"); }, "interactive");
+
+    await flush();
+    expect(scheduler.getStats().queuedByPriority).toEqual({ interactive: 1, normal: 1, bulk: 1 });
+
+    gate.resolve();
+    await Promise.all([blocker, bulk, normal, interactive]);
+    expect(order).toEqual(["interactive", "normal", "bulk"]);
+  });
+
+  it("should drop queued tasks whose signal aborts", async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const gate = deferred();
+    const controller = new AbortController();
+    const cancelledTask = jest.fn(async () => "never");
+
+    const blocker = scheduler.schedule(() => gate.promise);
+    const cancelled = scheduler.schedule(cancelledTask, "normal", controller.signal);
+    const next = scheduler.schedule(async () => "next");
+
+    await flush();
+    controller.abort(new Error("Request cancelled"));
+    await expect(cancelled).rejects.toThrow("Request cancelled");
+    expect(scheduler.getStats()).toMatchObject({ active: 1, queued: 1, cancelled: 1 });
+
+    gate.resolve();
+    await expect(next).resolves.toBe("next");
+    await blocker;
+    expect(cancelledTask).not.toHaveBeenCalled();
+    await expect(scheduler.schedule(cancelledTask, "normal", controller.signal)).rejects.toThrow("Request cancelled");
+  });
+
+  it("should space out requests to honor the rate limit", async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 10, requestsPerSecond: 50 });
+    const startTimes: number[] = [];
+
+    await Promise.all([1, 2, 3].map(() => scheduler.schedule(async () => { startTimes.push(Date.now()); })));
+
+    // 50 rps = one start every 20ms
+    expect(startTimes[2] - startTimes[0]).toBeGreaterThanOrEqual(35);
+  });
+});
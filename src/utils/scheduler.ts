@@ -0,0 +1,131 @@
+import { abortError } from "./abort.js";
+
+export type RequestPriority = "interactive" | "normal" | "bulk";
+
+export interface SchedulerOptions {
+  maxConcurrency: number;
+  // 0 disables rate limiting
+  requestsPerSecond: number;
+}
+
+export interface SchedulerStats {
+  active: number;
+  queued: number;
+  queuedByPriority: Record<RequestPriority, number>;
+  completed: number;
+  // Tasks whose signal aborted while they were still queued
+  cancelled: number;
+  maxConcurrency: number;
+  requestsPerSecond: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  maxConcurrency: 10,
+  requestsPerSecond: 0,
+};
+
+// Lanes are drained strictly in this order
+const PRIORITIES: RequestPriority[] = ["interactive", "normal", "bulk"];
+
+export class RequestScheduler {
+  private readonly queues: Record<RequestPriority, Array<() => void>> = {
+    interactive: [],
+    normal: [],
+    bulk: [],
+  };
+  private readonly maxConcurrency: number;
+  private readonly intervalMs: number;
+  private readonly requestsPerSecond: number;
+  private active = 0;
+  private completed = 0;
+  private cancelled = 0;
+  private nextStartAt = 0;
+  private timer?: NodeJS.Timeout;
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    const { maxConcurrency, requestsPerSecond } = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+    this.maxConcurrency = Math.max(1, maxConcurrency);
+    this.requestsPerSecond = Math.max(0, requestsPerSecond);
+    this.intervalMs = this.requestsPerSecond > 0 ? 1000 / this.requestsPerSecond : 0;
+  }
+
+  // An abort while the task is queued removes it and rejects at once; a task
+  // that has already started is left to observe the signal itself.
+  schedule<T>(task: () => Promise<T>, priority: RequestPriority = "normal", signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError(signal));
+        return;
+      }
+
+      const queue = this.queues[priority];
+      const onAbort = () => {
+        const index = queue.indexOf(start);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          this.cancelled++;
+          reject(abortError(signal!));
+        }
+      };
+      const start = () => {
+        signal?.removeEventListener("abort", onAbort);
+        void Promise.resolve()
+          .then(task)
+          .then(resolve, reject)
+          .finally(() => {
+            this.active--;
+            this.completed++;
+            this.drain();
+          });
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      queue.push(start);
+      this.drain();
+    });
+  }
+
+  getStats(): SchedulerStats {
+    return {
+      active: this.active,
+      queued: PRIORITIES.reduce((sum, priority) => sum + this.queues[priority].length, 0),
+      queuedByPriority: {
+        interactive: this.queues.interactive.length,
+        normal: this.queues.normal.length,
+        bulk: this.queues.bulk.length,
+      },
+      completed: this.completed,
+      cancelled: this.cancelled,
+      maxConcurrency: this.maxConcurrency,
+      requestsPerSecond: this.requestsPerSecond,
+    };
+  }
+
+  private drain(): void {
+    // A pending timer means we're waiting on the rate limit; it will drain for us
+    if (this.timer) {
+      return;
+    }
+
+    while (this.active < this.maxConcurrency) {
+      const queue = PRIORITIES.map(priority => this.queues[priority]).find(q => q.length > 0);
+      if (!queue) {
+        return;
+      }
+
+      const now = Date.now();
+      if (this.intervalMs > 0 && now < this.nextStartAt) {
+        this.timer = setTimeout(() => {
+          this.timer = undefined;
+          this.drain();
+        }, this.nextStartAt - now);
+        return;
+      }
+
+      this.nextStartAt = Math.max(now, this.nextStartAt) + this.intervalMs;
+      const start = queue.shift()!;
+      this.active++;
+      start();
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { ShutdownCoordinator, ShutdownError, trackHandler } from "./shutdown";
+import { logger } from "./logger";
+import { LogSink, StderrSink } from "./log-sinks";
+
+describe("ShutdownCoordinator", () => {
+  const lines: string[] = [];
+  const sink: LogSink = { write: (_level, line) => lines.push(line) };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    lines.length = 0;
+    logger.setSinks([sink]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    logger.setSinks([new StderrSink()]);
+  });
+
+  const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(res => {
+      resolve = res;
+    });
+    return { promise, resolve };
+  };
+
+  it("should run phases in order after in-flight work drains", async () => {
+    const coordinator = new ShutdownCoordinator({ timeoutMs: 5000 });
+    const order: string[] = [];
+    const work = deferred<string>();
+
+    coordinator.register("transport", "transport", () => {
+      order.push("transport");
+    });
+    coordinator.register("resources", "poller", () => {
+      order.push("poller");
+    });
+    coordinator.register("resources", "cache", async () => {
+      order.push("cache");
+    });
+    coordinator.register("intake", "listener", () => {
+      order.push("intake");
+    });
+
+    const call = coordinator.track(async () => {
+      const value = await work.promise;
+      order.push("call finished");
+      return value;
+    });
+    const done = coordinator.shutdown("SIGTERM");
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(order).toEqual(["intake"]);
+
+    work.resolve("result");
+    await done;
+
+    await expect(call).resolves.toBe("result");
+    expect(order).toEqual(["intake", "call finished", "poller", "cache", "transport"]);
+    expect(coordinator.getStats()).toEqual({ inFlight: 0, drained: 1, aborted: 0 });
+  });
+
+  it("should abort work still running at the deadline", async () => {
+    const coordinator = new ShutdownCoordinator({ timeoutMs: 5000 });
+    let observed: AbortSignal | undefined;
+
+    const call = coordinator.track(signal => {
+      observed = signal;
+      return new Promise<string>(() => undefined);
+    });
+    const rejection = expect(call).rejects.toThrow(ShutdownError);
+    const done = coordinator.shutdown("SIGTERM");
+
+    await jest.advanceTimersByTimeAsync(5000);
+    await done;
+
+    await rejection;
+    expect(observed?.aborted).toBe(true);
+    expect(coordinator.getStats()).toEqual({ inFlight: 0, drained: 0, aborted: 1 });
+  });
+
+  it("should refuse new work once shutdown has started", async () => {
+    const coordinator = new ShutdownCoordinator({ timeoutMs: 5000 });
+    const operation = jest.fn(async () => "never");
+
+    const done = coordinator.shutdown("SIGINT");
+
+    await expect(coordinator.track(operation)).rejects.toThrow("Server is shutting down");
+    expect(operation).not.toHaveBeenCalled();
+    expect(coordinator.shutdown("SIGINT")).toBe(done);
+    await done;
+  });
+
+  it("should forward aborts from the caller's signal", async () => {
+    const coordinator = new ShutdownCoordinator({ timeoutMs: 5000 });
+    const parent = new AbortController();
+    let observed: AbortSignal | undefined;
+
+    const call = coordinator.track(signal => {
+      observed = signal;
+      return new Promise<string>(() => undefined);
+    }, parent.signal);
+    parent.abort(new Error("Request cancelled"));
+
+    await expect(call).rejects.toThrow("Request cancelled");
+    expect(observed?.aborted).toBe(true);
+    expect(coordinator.getStats().inFlight).toBe(0);
+  });
+
+  it("should track resource and prompt handlers through the signal in their request extra", async () => {
+    const coordinator = new ShutdownCoordinator({ timeoutMs: 5000 });
+    const request = new AbortController();
+    let observed: AbortSignal | undefined;
+    const read = trackHandler(coordinator, (_uri: string, extra: { signal: AbortSignal; requestId: number }) => {
+      observed = extra.signal;
+      expect(extra.requestId).toBe(7);
+      return new Promise<string>(() => undefined);
+    });
+
+    const call = read("hackernews://item/1", { signal: request.signal, requestId: 7 });
+    const rejection = expect(call).rejects.toThrow(ShutdownError);
+    expect(coordinator.getStats().inFlight).toBe(1);
+    expect(observed).not.toBe(request.signal);
+
+    const done = coordinator.shutdown("SIGTERM");
+    await expect(read("hackernews://item/2", { signal: request.signal, requestId: 7 })).rejects.toThrow("Server is shutting down");
+    await jest.advanceTimersByTimeAsync(5000);
+    await done;
+
+    await rejection;
+    expect(observed?.aborted).toBe(true);
+    expect(request.signal.aborted).toBe(false);
+  });
+
+  it("should keep going when a step fails", async () => {
+    const coordinator = new ShutdownCoordinator({ timeoutMs: 0 });
+    const flushed = jest.fn();
+
+    coordinator.register("resources", "poller", () => {
+      throw new Error("poller stuck");
+    });
+    coordinator.register("resources", "cache", flushed);
+
+    await coordinator.shutdown("SIGTERM");
+
+    expect(flushed).toHaveBeenCalled();
+    expect(lines.some(line => /ERROR \[shutdown\]: Shutdown step "poller" failed:.*poller stuck/.test(line))).toBe(true);
+  });
+});
@@ -0,0 +1,187 @@
+import { abortError } from "./abort.js";
+import { logger } from "./logger.js";
+
+const log = logger.child({ module: "shutdown" });
+
+export class ShutdownError extends Error {
+  constructor(message = "Server is shutting down") {
+    super(message);
+    this.name = "ShutdownError";
+  }
+}
+
+// "intake" steps stop new work arriving, "resources" steps run once in-flight
+// work has drained or been aborted (pollers, cache stores), and "transport"
+// steps close the connection to clients last.
+export type ShutdownPhase = "intake" | "resources" | "transport";
+
+export interface ShutdownOptions {
+  // How long in-flight operations may keep running before they are aborted
+  timeoutMs: number;
+}
+
+export interface ShutdownStats {
+  inFlight: number;
+  drained: number;
+  aborted: number;
+}
+
+interface ShutdownStep {
+  name: string;
+  phase: ShutdownPhase;
+  run: () => Promise<void> | void;
+}
+
+// Orders shutdown: stop intake, wait for tracked operations up to the
+// deadline, abort what is left through its AbortSignal, then close resources
+// and transports. Operations started after shutdown begins are refused.
+export class ShutdownCoordinator {
+  private readonly timeoutMs: number;
+  private readonly inFlight = new Set<AbortController>();
+  private readonly steps: ShutdownStep[] = [];
+  private shutdownPromise?: Promise<void>;
+  private idle?: () => void;
+  private stats = { drained: 0, aborted: 0 };
+
+  constructor(options: ShutdownOptions) {
+    this.timeoutMs = Math.max(0, options.timeoutMs);
+  }
+
+  isShuttingDown(): boolean {
+    return this.shutdownPromise !== undefined;
+  }
+
+  // Registers a step; steps in the same phase run in registration order
+  register(phase: ShutdownPhase, name: string, run: () => Promise<void> | void): void {
+    this.steps.push({ name, phase, run });
+  }
+
+  // Runs an operation that shutdown waits for. Its signal aborts when the
+  // parent signal does or when the drain deadline passes; the returned promise
+  // then rejects even if the operation ignores the signal.
+  async track<T>(operation: (signal: AbortSignal) => Promise<T>, parent?: AbortSignal): Promise<T> {
+    if (this.isShuttingDown()) {
+      throw new ShutdownError();
+    }
+
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(parent?.reason);
+    if (parent?.aborted) {
+      forwardAbort();
+    } else {
+      parent?.addEventListener("abort", forwardAbort, { once: true });
+    }
+
+    this.inFlight.add(controller);
+    let onAbort: (() => void) | undefined;
+    try {
+      const aborted = new Promise<never>((_resolve, reject) => {
+        onAbort = () => reject(abortError(controller.signal));
+        controller.signal.addEventListener("abort", onAbort, { once: true });
+      });
+      // Nothing awaits `aborted` when the operation wins the race
+      aborted.catch(() => undefined);
+      return await Promise.race([operation(controller.signal), aborted]);
+    } finally {
+      if (onAbort) {
+        controller.signal.removeEventListener("abort", onAbort);
+      }
+      parent?.removeEventListener("abort", forwardAbort);
+      this.inFlight.delete(controller);
+      if (this.isShuttingDown() && !controller.signal.aborted) {
+        this.stats.drained++;
+      }
+      if (this.inFlight.size === 0) {
+        this.idle?.();
+      }
+    }
+  }
+
+  // Starts shutdown once; later calls return the same promise
+  shutdown(reason: string): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.run(reason);
+    }
+    return this.shutdownPromise;
+  }
+
+  getStats(): ShutdownStats {
+    return { inFlight: this.inFlight.size, ...this.stats };
+  }
+
+  private async run(reason: string): Promise<void> {
+    log.info(`Shutting down (${reason})`);
+
+    await this.runPhase("intake");
+    await this.drain();
+    await this.runPhase("resources");
+    await this.runPhase("transport");
+
+    log.info("Shutdown complete", this.getStats());
+  }
+
+  private async drain(): Promise<void> {
+    if (this.inFlight.size === 0) {
+      return;
+    }
+
+    log.info(`Waiting up to ${this.timeoutMs}ms for ${this.inFlight.size} in-flight operation(s)`);
+    let timer: NodeJS.Timeout | undefined;
+    const drained = await Promise.race([
+      new Promise<boolean>(resolve => {
+        this.idle = () => resolve(true);
+      }),
+      new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), this.timeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+    this.idle = undefined;
+
+    if (!drained) {
+      const remaining = Array.from(this.inFlight);
+      log.warn(`Aborting ${remaining.length} operation(s) still running after ${this.timeoutMs}ms`);
+      this.stats.aborted += remaining.length;
+      for (const controller of remaining) {
+        controller.abort(new ShutdownError("Aborted by server shutdown"));
+      }
+    }
+  }
+
+  private async runPhase(phase: ShutdownPhase): Promise<void> {
+    for (const step of this.steps.filter(candidate => candidate.phase === phase)) {
+      try {
+        await step.run();
+      } catch (error) {
+        // One failing step must not keep the rest from flushing
+        log.error(`Shutdown step "${step.name}" failed:`, error);
+      }
+    }
+  }
+}
+
+// MCP handlers get the SDK's request extra, with its signal, as their last argument
+function requestExtra(args: unknown[]): { signal: unknown } | undefined {
+  const extra = args[args.length - 1];
+  return typeof extra === "object" && extra !== null && "signal" in extra ? extra : undefined;
+}
+
+// Wraps an MCP resource or prompt handler so shutdown waits for it and refuses
+// it once started, like tool calls. extra.signal then also fires when shutdown
+// gives up waiting.
+export function trackHandler<A extends unknown[], R>(
+  shutdown: ShutdownCoordinator | undefined,
+  handler: (...args: A) => Promise<R>
+): (...args: A) => Promise<R> {
+  if (!shutdown) {
+    return handler;
+  }
+  return (...args: A) => {
+    const extra = requestExtra(args);
+    if (!extra) {
+      return shutdown.track(() => handler(...args));
+    }
+    const parent = extra.signal instanceof AbortSignal ? extra.signal : undefined;
+    return shutdown.track(signal => handler(...([...args.slice(0, -1), { ...extra, signal }] as A)), parent);
+  };
+}
@@ -0,0 +1,54 @@
+import { computeItemTtl, DEFAULT_TTL_POLICY, TtlPolicy } from "./ttl-policy";
+import { createMockItem, createMockComment } from "../test-helpers";
+
+describe("computeItemTtl", () => {
+  const now = 1700000000;
+  const policy: TtlPolicy = { ...DEFAULT_TTL_POLICY, mode: "age", minItemTtlSeconds: 15, maxItemTtlSeconds: 604800 };
+
+  it("should use the base TTL in fixed mode", () => {
+    const item = createMockItem({ time: now - 10 });
+    expect(computeItemTtl(item, { ...policy, mode: "fixed" }, 300, now)).toBe(300);
+  });
+
+  it("should not cache anything when the base TTL is 0", () => {
+    expect(computeItemTtl(createMockItem({ time: now - 36000 }), policy, 0, now)).toBe(0);
+    expect(computeItemTtl(createMockItem({ deleted: true }), policy, 0, now)).toBe(0);
+  });
+
+  it("should cache brand-new stories for seconds", () => {
+    const item = createMockItem({ time: now - 60 });
+    expect(computeItemTtl(item, policy, 300, now)).toBe(15);
+  });
+
+  it("should scale with item age", () => {
+    const story = createMockItem({ time: now - 36000 }); // 10 hours old
+    expect(computeItemTtl(story, policy, 300, now)).toBe(3600);
+  });
+
+  it("should cache comments longer than stories of the same age", () => {
+    const story = createMockItem({ time: now - 36000 });
+    const comment = createMockComment({ time: now - 36000 });
+    expect(computeItemTtl(comment, policy, 300, now)).toBeGreaterThan(computeItemTtl(story, policy, 300, now));
+  });
+
+  it("should cap old items at the maximum TTL", () => {
+    const comment = createMockComment({ time: 1330000000 }); // 2012
+    expect(computeItemTtl(comment, policy, 300, now)).toBe(604800);
+  });
+
+  it("should cache deleted items for the maximum TTL", () => {
+    const item = createMockComment({ time: now - 60, deleted: true });
+    expect(computeItemTtl(item, policy, 300, now)).toBe(604800);
+  });
+
+  it("should treat dead stories like comments", () => {
+    const dead = createMockItem({ time: now - 36000, dead: true });
+    const comment = createMockComment({ time: now - 36000 });
+    expect(computeItemTtl(dead, policy, 300, now)).toBe(computeItemTtl(comment, policy, 300, now));
+  });
+
+  it("should fall back to the base TTL when the item has no time", () => {
+    const item = createMockItem({ time: undefined });
+    expect(computeItemTtl(item, policy, 300, now)).toBe(300);
+  });
+});
@@ -0,0 +1,53 @@
+import { HackerNewsItem } from "../types/hackernews.js";
+
+export type TtlMode = "age" | "fixed";
+
+export interface TtlPolicy {
+  // "fixed" gives every item the cache's base TTL; "age" scales it with item age
+  mode: TtlMode;
+  minItemTtlSeconds: number;
+  maxItemTtlSeconds: number;
+  // Story lists get their own TTL; unset falls back to the base TTL
+  listTtlSeconds?: number;
+}
+
+export const DEFAULT_TTL_POLICY: TtlPolicy = {
+  mode: "fixed",
+  minItemTtlSeconds: 15,
+  maxItemTtlSeconds: 7 * 24 * 3600,
+};
+
+// Fraction of an item's age it may be cached for. Stories keep collecting
+// votes and comments for days; a comment's own fields settle much sooner.
+const STORY_AGE_FACTOR = 0.1;
+const COMMENT_AGE_FACTOR = 0.25;
+
+export function computeItemTtl(
+  item: HackerNewsItem,
+  policy: TtlPolicy,
+  baseTtlSeconds: number,
+  nowSeconds: number = Date.now() / 1000
+): number {
+  // A base TTL of 0 turns caching off whatever the policy
+  if (policy.mode === "fixed" || baseTtlSeconds <= 0) {
+    return baseTtlSeconds;
+  }
+
+  // Deleted items never come back
+  if (item.deleted) {
+    return policy.maxItemTtlSeconds;
+  }
+
+  if (!item.time) {
+    return baseTtlSeconds;
+  }
+
+  const ageSeconds = Math.max(0, nowSeconds - item.time);
+  // Dead items can still be vouched back, so they get the slower comment rate rather than the max
+  const factor = item.type === "comment" || item.type === "pollopt" || item.dead
+    ? COMMENT_AGE_FACTOR
+    : STORY_AGE_FACTOR;
+
+  const ttl = Math.round(ageSeconds * factor);
+  return Math.min(policy.maxItemTtlSeconds, Math.max(policy.minItemTtlSeconds, ttl));
+}